@@ -1,28 +1,74 @@
 import { KanbanBoard } from "@/components/kanban-board"
-import { getAllTasks } from "@/app/(dashboard)/tasks/actions"
-import type { KanbanData, KanbanColumn } from "@/lib/types"
+import { BoardGroupSelect } from "@/components/board-group-select"
+import { BoardLabelSelect } from "@/components/board-label-select"
+import { getAllTasks, getMemberTasks } from "@/app/(dashboard)/tasks/actions"
+import { getWorkflowStatuses } from "@/app/(dashboard)/settings/workflow/actions"
+import { getLabels } from "@/app/(dashboard)/settings/labels/actions"
+import { getProjectMembers, getProjects } from "@/app/(dashboard)/projects/actions"
+import { getCurrentUser } from "@/app/login/actions"
+import type { KanbanData } from "@/lib/types"
 import { poppins } from "@/lib/fonts"
+import { compareRanks } from "@/lib/rank"
+import { parseTaskFilters } from "@/lib/task-filters"
+import { parseSwimlaneField, PRIORITY_LANES, UNASSIGNED_LANE, type Swimlane, type SwimlaneField } from "@/lib/swimlanes"
 
+// Lanes are listed even when empty, so cards can be dragged into them
+async function getSwimlanes(groupBy: SwimlaneField): Promise<Swimlane[]> {
+    switch (groupBy) {
+        case "assignee": {
+            const users = await getProjectMembers()
+            return [
+                ...users.map((user) => ({ id: String(user.id), title: user.name })),
+                { id: UNASSIGNED_LANE, title: "Unassigned" },
+            ]
+        }
+        case "priority":
+            return PRIORITY_LANES
+        case "project": {
+            const projects = await getProjects()
+            return projects.map((project) => ({ id: String(project.id), title: `${project.key} · ${project.name}` }))
+        }
+    }
+}
+
+export default async function BoardPage({ searchParams }: { searchParams: Promise<{ group?: string; label?: string }> }) {
+    const { group, label } = await searchParams
+    const groupBy = parseSwimlaneField(group)
+    // The board reuses the task list's label filter; other list filters don't apply here
+    const filters = parseTaskFilters({ label })
 
-export default async function BoardPage() {
-    const { tasks, error } = await getAllTasks()
+    // Project lanes only make sense across projects, so that grouping shows every project the user is in
+    const [{ tasks, error }, statuses, lanes, labels, currentUser] = await Promise.all([
+        groupBy === "project" ? getMemberTasks(filters) : getAllTasks(filters),
+        getWorkflowStatuses(),
+        groupBy ? getSwimlanes(groupBy) : [],
+        getLabels(),
+        getCurrentUser(),
+    ])
 
-    if (error) {
+    if (error || !currentUser) {
         console.error("Error fetching tasks:", error)
         return <p className="p-8">Could not load data. Please try again later.</p>
     }
 
-    const initialColumns: KanbanData = {
-        todo: { id: "todo", title: "To Do", tasks: [] },
-        in_progress: { id: "in_progress", title: "In Progress", tasks: [] },
-        review: { id: "review", title: "Review", tasks: [] },
-        done: { id: "done", title: "Done", tasks: [] },
+    const initialColumns: KanbanData = {}
+    for (const status of statuses) {
+        initialColumns[status.key] = {
+            id: status.key,
+            title: status.name,
+            color: status.color,
+            category: status.category,
+            wipLimit: status.wipLimit,
+            wipLimitHard: status.wipLimitHard,
+            tasks: [],
+        }
     }
 
-    tasks?.forEach((task) => {
+    // Columns are built in rank order, the order cards were last arranged in on the board
+    tasks?.sort(compareRanks).forEach((task) => {
         // Ensure task status is a valid key for initialColumns
         if (task.status && task.status in initialColumns) {
-            initialColumns[task.status as keyof KanbanData].tasks.push(task)
+            initialColumns[task.status].tasks.push(task)
         }
     })
 
@@ -30,8 +76,13 @@ export default async function BoardPage() {
         <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
             <div className="flex items-center justify-between">
                 <h2 className={`text-3xl font-bold tracking-tight ${poppins.className}`}>Board</h2>
+                <div className="flex items-center gap-2">
+                    <BoardLabelSelect labelId={filters.label[0] ?? null} labels={labels} />
+                    <BoardGroupSelect groupBy={groupBy} />
+                </div>
             </div>
-            <KanbanBoard initialData={initialColumns} />
+            {/* Keyed by grouping and filter so the board's local state resets with the new lanes and cards */}
+            <KanbanBoard key={`${groupBy ?? "none"}:${filters.label.join(",")}`} initialData={initialColumns} filters={filters} currentUser={{ id: currentUser.id, role: currentUser.role }} groupBy={groupBy} lanes={lanes} />
         </div>
     )
 }
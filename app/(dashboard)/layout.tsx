@@ -1,5 +1,7 @@
 import { Sidebar } from "@/components/sidebar";
 import { getCurrentUser } from "@/app/login/actions";
+import { getCurrentProject, getProjects } from "@/app/(dashboard)/projects/actions";
+import { getNotifications } from "@/app/(dashboard)/notifications/actions";
 import { redirect } from "next/navigation";
 
 export default async function RootLayout({
@@ -10,10 +12,22 @@ export default async function RootLayout({
     const user = await getCurrentUser();
     if (!user) redirect("/login");
 
+    const [projects, currentProject, { notifications, unreadCount }] = await Promise.all([
+        getProjects(),
+        getCurrentProject(),
+        getNotifications(),
+    ]);
+
     return (
         <div className="flex h-screen overflow-hidden">
-            <Sidebar />
-            <main className="flex-1 overflow-x-hidden overflow-y-auto bg-background">{children}</main>
+            <Sidebar
+                projects={projects.map(({ id, name, key }) => ({ id, name, key }))}
+                currentProjectId={currentProject?.id ?? null}
+                notifications={notifications}
+                unreadCount={unreadCount}
+            />
+            {/* Keyed by project so client pages refetch their data after switching projects */}
+            <main key={currentProject?.id ?? "none"} className="flex-1 overflow-x-hidden overflow-y-auto bg-background">{children}</main>
 
         </div>
     );
@@ -0,0 +1,62 @@
+"use server";
+
+import { getCurrentUser } from "@/app/login/actions";
+import { PrismaClient } from "@/app/generated/prisma";
+import { revalidatePath } from "next/cache";
+import { NOTIFICATION_LIST_SIZE } from "@/lib/notifications";
+import { createDueSoonNotifications } from "@/lib/due-soon";
+const prisma = new PrismaClient();
+
+// The current user's latest notifications and their unread count
+export async function getNotifications() {
+    const user = await getCurrentUser();
+    if (!user) return { notifications: [], unreadCount: 0 };
+
+    await createDueSoonNotifications(user.id);
+
+    const [notifications, unreadCount] = await Promise.all([
+        prisma.notification.findMany({
+            where: { userId: user.id },
+            include: {
+                actor: { select: { id: true, name: true } },
+                task: { select: { id: true, number: true, name: true, project: { select: { key: true } } } },
+            },
+            orderBy: { createdAt: "desc" },
+            take: NOTIFICATION_LIST_SIZE,
+        }),
+        prisma.notification.count({ where: { userId: user.id, readAt: null } }),
+    ]);
+    return { notifications, unreadCount };
+}
+
+export async function markNotificationRead(notificationId: number) {
+    const user = await getCurrentUser();
+    if (!user) return { error: "Not authenticated." };
+
+    try {
+        await prisma.notification.updateMany({
+            where: { id: notificationId, userId: user.id, readAt: null },
+            data: { readAt: new Date() },
+        });
+        revalidatePath("/", "layout");
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to update notification." };
+    }
+}
+
+export async function markAllNotificationsRead() {
+    const user = await getCurrentUser();
+    if (!user) return { error: "Not authenticated." };
+
+    try {
+        await prisma.notification.updateMany({
+            where: { userId: user.id, readAt: null },
+            data: { readAt: new Date() },
+        });
+        revalidatePath("/", "layout");
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to update notifications." };
+    }
+}
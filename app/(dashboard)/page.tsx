@@ -5,8 +5,10 @@ import { DashboardCharts } from "@/components/dashboard-charts";
 import { TaskOverview } from "@/components/task-overview";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { getAllTasks } from "@/app/(dashboard)/tasks/actions";
+import { getWorkflowStatuses } from "@/app/(dashboard)/settings/workflow/actions";
 import { useEffect, useState } from "react";
-import { Prisma } from "@/app/generated/prisma";
+import { Prisma, type WorkflowStatus } from "@/app/generated/prisma";
+import { getStatusKeys, getStatusName, isDoneStatus } from "@/lib/workflow";
 
 import { poppins } from "@/lib/fonts";
 // import { DashboardCharts } from "../../components/dashboard-charts";
@@ -20,7 +22,6 @@ type Task = Prisma.TaskGetPayload<{
         id: true;
         name: true;
         email: true;
-        password: true;
       };
     };
     creator: {
@@ -28,7 +29,6 @@ type Task = Prisma.TaskGetPayload<{
         id: true;
         name: true;
         email: true;
-        password: true;
       };
     };
   };
@@ -36,17 +36,20 @@ type Task = Prisma.TaskGetPayload<{
 
 export default function IndexPage() {
   const [allTasks, setAllTasks] = useState<Task[]>([]);
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>([]);
 
   useEffect(() => {
     getAllTasks().then(({ tasks }) => {
       setAllTasks(tasks);
     });
+    getWorkflowStatuses().then(setStatuses);
   }, []);
 
   // Derive data client-side from allTasks
   const totalTasks = allTasks.length;
-  const completedTasks = allTasks.filter((task) => task.status === "done").length;
-  const openTasks = allTasks.filter((task) => task.status === "in_progress").length;
+  const activeStatuses = getStatusKeys(statuses, "active");
+  const completedTasks = allTasks.filter((task) => isDoneStatus(statuses, task.status)).length;
+  const openTasks = allTasks.filter((task) => activeStatuses.includes(task.status)).length;
   const totalUsers = new Set(
     allTasks.flatMap((task) => [task.assignee?.id, task.creator?.id].filter(Boolean))
   ).size;
@@ -62,7 +65,7 @@ export default function IndexPage() {
       statsMap.set(createdMonth, { month: createdMonth, total: 0, completed: 0 });
     }
     statsMap.get(createdMonth).total++;
-    if (task.status === "done") {
+    if (isDoneStatus(statuses, task.status)) {
       statsMap.get(createdMonth).completed++;
     }
   }
@@ -71,7 +74,8 @@ export default function IndexPage() {
 
   // Process data for charts
   const statusData = allTasks.reduce((acc, task) => {
-    acc[task.status] = (acc[task.status] || 0) + 1;
+    const statusName = getStatusName(statuses, task.status);
+    acc[statusName] = (acc[statusName] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
 
@@ -129,7 +133,7 @@ export default function IndexPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{totalTasks ?? 0}</div>
-            <p className="text-xs text-foreground-muted">All tasks in the system</p>
+            <p className="text-xs text-foreground-muted">All tasks in this project</p>
           </CardContent>
         </Card>
         <Card>
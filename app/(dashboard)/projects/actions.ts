@@ -0,0 +1,186 @@
+"use server";
+
+import { cookies } from "next/headers";
+import { getCurrentUser } from "@/app/login/actions";
+import { PrismaClient } from "@/app/generated/prisma";
+import { revalidatePath } from "next/cache";
+import { authorize } from "@/lib/authorization";
+import { can } from "@/lib/permissions";
+const prisma = new PrismaClient();
+
+const PROJECT_COOKIE = "project";
+const PROJECT_KEY_PATTERN = /^[A-Z][A-Z0-9]{1,9}$/;
+
+// Get all projects the current user is a member of
+export async function getProjects() {
+    const user = await getCurrentUser();
+    if (!user) return [];
+
+    return prisma.project.findMany({
+        where: { members: { some: { userId: user.id } } },
+        include: {
+            members: { include: { user: { select: { id: true, name: true, email: true } } } },
+            _count: { select: { tasks: true } },
+        },
+        orderBy: { name: "asc" },
+    });
+}
+
+// Get the project selected in the project switcher, falling back to the
+// first project the user belongs to
+export async function getCurrentProject() {
+    const user = await getCurrentUser();
+    if (!user) return null;
+
+    const cookieStore = await cookies();
+    const selectedId = parseInt(cookieStore.get(PROJECT_COOKIE)?.value ?? "", 10);
+
+    if (!Number.isNaN(selectedId)) {
+        const selected = await prisma.project.findFirst({
+            where: { id: selectedId, members: { some: { userId: user.id } } },
+        });
+        if (selected) return selected;
+    }
+
+    return prisma.project.findFirst({
+        where: { members: { some: { userId: user.id } } },
+        orderBy: { name: "asc" },
+    });
+}
+
+// Members of a project the current user belongs to, defaulting to the selected project.
+// Tasks can only be assigned to members, so assignee pickers list these rather than every user.
+export async function getProjectMembers(projectId?: number) {
+    const user = await getCurrentUser();
+    if (!user) return [];
+
+    const id = projectId ?? (await getCurrentProject())?.id;
+    if (!id) return [];
+
+    const membership = await prisma.projectMember.findUnique({
+        where: { projectId_userId: { projectId: id, userId: user.id } },
+    });
+    if (!membership) return [];
+
+    return prisma.user.findMany({
+        where: { projects: { some: { projectId: id } } },
+        select: { id: true, name: true },
+        orderBy: { name: "asc" },
+    });
+}
+
+// Users the project forms offer as members; empty for users who can't manage members,
+// so the forms leave the member picker out for them
+export async function getMemberCandidates() {
+    const { user } = await authorize("manage_members");
+    if (!user) return [];
+
+    return prisma.user.findMany({ select: { id: true, name: true }, orderBy: { name: "asc" } });
+}
+
+// Remember the selected project for subsequent requests
+export async function selectProject(projectId: number) {
+    const user = await getCurrentUser();
+    if (!user) return { error: "Not authenticated." };
+
+    const membership = await prisma.projectMember.findUnique({
+        where: { projectId_userId: { projectId, userId: user.id } },
+    });
+    if (!membership) return { error: "You are not a member of this project." };
+
+    const cookieStore = await cookies();
+    cookieStore.set(PROJECT_COOKIE, String(projectId), { httpOnly: true, path: "/" });
+    revalidatePath("/", "layout");
+    return { error: null };
+}
+
+export async function createProject(formData: FormData) {
+    const name = (formData.get("name") as string)?.trim();
+    const key = (formData.get("key") as string)?.trim().toUpperCase();
+    const description = (formData.get("description") as string) ?? "";
+    const memberIds = formData.getAll("memberIds").map((id) => parseInt(id as string, 10));
+
+    const { user, error } = await authorize("edit_tasks");
+    if (!user) return { error, success: false, message: error };
+
+    if (!name) return { error: "Name is required.", success: false, message: "Name is required." };
+    if (!key || !PROJECT_KEY_PATTERN.test(key)) {
+        const message = "Key must be 2-10 uppercase letters or digits, starting with a letter.";
+        return { error: message, success: false, message };
+    }
+
+    const existing = await prisma.project.findUnique({ where: { key } });
+    if (existing) return { error: "Key is already in use.", success: false, message: "Key is already in use." };
+
+    // The creator is always a member of the new project
+    const userIds = Array.from(new Set([user.id, ...memberIds.filter((id) => !Number.isNaN(id))]));
+    if (userIds.length > 1 && !can(user, "manage_members")) {
+        const message = "Only owners and admins can add project members.";
+        return { error: message, success: false, message };
+    }
+
+    try {
+        const project = await prisma.project.create({
+            data: {
+                name,
+                key,
+                description,
+                members: { create: userIds.map((userId) => ({ userId })) },
+            },
+        });
+        const cookieStore = await cookies();
+        cookieStore.set(PROJECT_COOKIE, String(project.id), { httpOnly: true, path: "/" });
+        revalidatePath("/", "layout");
+        return { error: null, success: true, message: "Project created successfully!" };
+    } catch (e) {
+        return { error: "Failed to create project.", success: false, message: "Failed to create project." };
+    }
+}
+
+// Update a project's name, description and member list. Only users who can manage members
+// send a member list; for everyone else the members are left as they are.
+export async function updateProject(projectId: number, formData: FormData) {
+    const name = (formData.get("name") as string)?.trim();
+    const description = (formData.get("description") as string) ?? "";
+    const memberIds = formData.getAll("memberIds").map((id) => parseInt(id as string, 10));
+
+    const { user, error } = await authorize("edit_tasks");
+    if (!user) return { error, success: false };
+
+    if (!name) return { error: "Name is required.", success: false };
+
+    const membership = await prisma.projectMember.findUnique({
+        where: { projectId_userId: { projectId, userId: user.id } },
+    });
+    if (!membership) return { error: "You are not a member of this project.", success: false };
+
+    const managesMembers = can(user, "manage_members");
+    if (memberIds.length > 0 && !managesMembers) {
+        return { error: "Only owners and admins can change project members.", success: false };
+    }
+
+    // Editors cannot remove themselves, otherwise they would lose access mid-edit
+    const userIds = Array.from(new Set([user.id, ...memberIds.filter((id) => !Number.isNaN(id))]));
+
+    try {
+        await prisma.$transaction([
+            prisma.project.update({ where: { id: projectId }, data: { name, description } }),
+            ...(managesMembers
+                ? [
+                      prisma.projectMember.deleteMany({ where: { projectId, userId: { notIn: userIds } } }),
+                      ...userIds.map((userId) =>
+                          prisma.projectMember.upsert({
+                              where: { projectId_userId: { projectId, userId } },
+                              create: { projectId, userId },
+                              update: {},
+                          })
+                      ),
+                  ]
+                : []),
+        ]);
+        revalidatePath("/", "layout");
+        return { error: null, success: true, message: "Project updated successfully!" };
+    } catch (e) {
+        return { error: "Failed to update project.", success: false };
+    }
+}
@@ -0,0 +1,31 @@
+"use client"
+
+import { CreateProjectForm } from "@/components/create-project-form"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useRouter } from "next/navigation"
+import { poppins } from "@/lib/fonts"
+
+export default function NewProjectPage() {
+  const router = useRouter()
+
+  const handleProjectCreated = () => {
+    router.push("/tasks")
+  }
+
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex items-center justify-between">
+        <h2 className={`text-3xl font-bold tracking-tight ${poppins.className}`}>Create New Project</h2>
+      </div>
+      <Card className="max-w-2xl">
+        <CardHeader>
+          <CardTitle>Project Details</CardTitle>
+          <CardDescription>Tasks in this project are numbered with its key, e.g. PLAT-1</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <CreateProjectForm onFinish={handleProjectCreated} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
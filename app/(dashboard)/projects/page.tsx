@@ -0,0 +1,35 @@
+import { Button } from "@/components/ui/button"
+import { Plus } from "lucide-react"
+import Link from "next/link"
+import { ProjectList } from "@/components/project-list"
+import { poppins } from "@/lib/fonts"
+
+import { getCurrentProject, getProjects } from "@/app/(dashboard)/projects/actions"
+import { getCurrentUser } from "@/app/login/actions"
+import { can } from "@/lib/permissions"
+
+export const revalidate = 0
+
+
+export default async function ProjectsPage() {
+    const [projects, currentProject, user] = await Promise.all([getProjects(), getCurrentProject(), getCurrentUser()])
+    const canEdit = !!user && can(user, "edit_tasks")
+
+    return (
+        <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+            <div className="flex items-center justify-between">
+                <h2 className={`text-3xl font-bold tracking-tight ${poppins.className}`}>Projects</h2>
+                {canEdit && (
+                    <Link href="/projects/new">
+                        <Button>
+                            <Plus className="mr-2 h-4 w-4" />
+                            New Project
+                        </Button>
+                    </Link>
+                )}
+            </div>
+
+            <ProjectList projects={projects} currentProjectId={currentProject?.id ?? null} canEdit={canEdit} />
+        </div>
+    )
+}
@@ -0,0 +1,129 @@
+"use server";
+
+import { PrismaClient } from "@/app/generated/prisma";
+import { revalidatePath } from "next/cache";
+import { authorize } from "@/lib/authorization";
+const prisma = new PrismaClient();
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// Every page that renders label chips needs fresh data after a change
+function revalidateLabelConsumers() {
+    revalidatePath("/", "layout");
+}
+
+// Get all labels in name order
+export async function getLabels() {
+    const { error } = await authorize("view_tasks");
+    if (error) return [];
+
+    return prisma.label.findMany({ orderBy: { name: "asc" } });
+}
+
+// Count tasks per label id, across the projects the user belongs to
+export async function getLabelTaskCounts() {
+    const { user } = await authorize("view_tasks");
+    if (!user) return {} as Record<number, number>;
+
+    const labels = await prisma.label.findMany({
+        include: {
+            _count: { select: { tasks: { where: { project: { members: { some: { userId: user.id } } } } } } },
+        },
+    });
+    return Object.fromEntries(labels.map((label) => [label.id, label._count.tasks])) as Record<number, number>;
+}
+
+function parseLabelForm(formData: FormData) {
+    const name = (formData.get("name") as string)?.trim();
+    const color = formData.get("color") as string;
+
+    if (!name) return { error: "Name is required." };
+    if (!COLOR_PATTERN.test(color ?? "")) return { error: "Color must be a hex value like #00848B." };
+
+    return { error: null, name, color };
+}
+
+export async function createLabel(formData: FormData) {
+    const { error } = await authorize("edit_tasks");
+    if (error) return { error, success: false };
+
+    const parsed = parseLabelForm(formData);
+    if (parsed.error !== null) return { error: parsed.error, success: false };
+
+    const existing = await prisma.label.findUnique({ where: { name: parsed.name } });
+    if (existing) return { error: "A label with this name already exists.", success: false };
+
+    try {
+        await prisma.label.create({ data: { name: parsed.name, color: parsed.color } });
+        revalidateLabelConsumers();
+        return { error: null, success: true, message: "Label created successfully!" };
+    } catch (e) {
+        return { error: "Failed to create label.", success: false };
+    }
+}
+
+// Rename or recolor a label; every task using it shows the new name
+export async function updateLabel(labelId: number, formData: FormData) {
+    const { error } = await authorize("edit_tasks");
+    if (error) return { error, success: false };
+
+    const parsed = parseLabelForm(formData);
+    if (parsed.error !== null) return { error: parsed.error, success: false };
+
+    const existing = await prisma.label.findUnique({ where: { name: parsed.name } });
+    if (existing && existing.id !== labelId) {
+        return { error: "A label with this name already exists. Merge the labels instead.", success: false };
+    }
+
+    try {
+        await prisma.label.update({
+            where: { id: labelId },
+            data: { name: parsed.name, color: parsed.color },
+        });
+        revalidateLabelConsumers();
+        return { error: null, success: true, message: "Label updated successfully!" };
+    } catch (e) {
+        return { error: "Failed to update label.", success: false };
+    }
+}
+
+// Merge one label into another: tasks tagged with the source get the target instead, then the source is deleted
+export async function mergeLabel(sourceId: number, targetId: number) {
+    const { error } = await authorize("edit_tasks");
+    if (error) return { error };
+    if (sourceId === targetId) return { error: "Choose a different label to merge into." };
+
+    try {
+        const [source, target] = await Promise.all([
+            prisma.label.findUnique({ where: { id: sourceId }, include: { tasks: { select: { id: true } } } }),
+            prisma.label.findUnique({ where: { id: targetId } }),
+        ]);
+        if (!source || !target) return { error: "Label not found." };
+
+        await prisma.$transaction([
+            prisma.label.update({
+                where: { id: targetId },
+                data: { tasks: { connect: source.tasks } },
+            }),
+            prisma.label.delete({ where: { id: sourceId } }),
+        ]);
+        revalidateLabelConsumers();
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to merge labels." };
+    }
+}
+
+// Delete a label, removing it from every task
+export async function deleteLabel(labelId: number) {
+    const { error } = await authorize("edit_tasks");
+    if (error) return { error };
+
+    try {
+        await prisma.label.delete({ where: { id: labelId } });
+        revalidateLabelConsumers();
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to delete label." };
+    }
+}
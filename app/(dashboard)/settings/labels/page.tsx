@@ -0,0 +1,13 @@
+import { LabelSettings } from "@/components/label-settings"
+import { getLabels, getLabelTaskCounts } from "@/app/(dashboard)/settings/labels/actions"
+import { getCurrentUser } from "@/app/login/actions"
+import { can } from "@/lib/permissions"
+
+export const revalidate = 0
+
+
+export default async function LabelSettingsPage() {
+    const [labels, taskCounts, user] = await Promise.all([getLabels(), getLabelTaskCounts(), getCurrentUser()])
+
+    return <LabelSettings labels={labels} taskCounts={taskCounts} canEdit={!!user && can(user, "edit_tasks")} />
+}
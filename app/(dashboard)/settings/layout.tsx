@@ -0,0 +1,16 @@
+import { SettingsNav } from "@/components/settings-nav"
+import { poppins } from "@/lib/fonts"
+
+export default function SettingsLayout({
+    children,
+}: Readonly<{
+    children: React.ReactNode;
+}>) {
+    return (
+        <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+            <h2 className={`text-3xl font-bold tracking-tight ${poppins.className}`}>Settings</h2>
+            <SettingsNav />
+            {children}
+        </div>
+    )
+}
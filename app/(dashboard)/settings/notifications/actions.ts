@@ -0,0 +1,57 @@
+"use server";
+
+import { getCurrentUser } from "@/app/login/actions";
+import { PrismaClient } from "@/app/generated/prisma";
+import { revalidatePath } from "next/cache";
+import { NOTIFICATION_TYPES, type NotificationType } from "@/lib/notifications";
+import { isEmailDelivery, type EmailDelivery } from "@/lib/email";
+const prisma = new PrismaClient();
+
+// Whether each notification type is on for the current user, and how they get email
+export async function getNotificationPreferences() {
+    const user = await getCurrentUser();
+    const preferences = user
+        ? await prisma.notificationPreference.findMany({ where: { userId: user.id } })
+        : [];
+    return {
+        types: Object.fromEntries(
+            NOTIFICATION_TYPES.map((type) => [type, preferences.find((preference) => preference.type === type)?.enabled ?? true]),
+        ) as Record<NotificationType, boolean>,
+        emailDelivery: (user && isEmailDelivery(user.emailDelivery) ? user.emailDelivery : "instant") as EmailDelivery,
+    };
+}
+
+// Save the notification types checked in the preferences form (unchecked types are turned off)
+// and the email delivery choice
+export async function updateNotificationPreferences(formData: FormData) {
+    const user = await getCurrentUser();
+    if (!user) return { error: "Not authenticated.", success: false };
+
+    const enabled = formData.getAll("types").map(String);
+    const emailDelivery = formData.get("emailDelivery") as string;
+    if (!isEmailDelivery(emailDelivery)) return { error: "Choose how to receive email.", success: false };
+
+    try {
+        await prisma.$transaction([
+            ...NOTIFICATION_TYPES.map((type) =>
+                prisma.notificationPreference.upsert({
+                    where: { userId_type: { userId: user.id, type } },
+                    create: { userId: user.id, type, enabled: enabled.includes(type) },
+                    update: { enabled: enabled.includes(type) },
+                }),
+            ),
+            // Start the digest clock when switching to digests, so the first one covers the day from now
+            prisma.user.update({
+                where: { id: user.id },
+                data: {
+                    emailDelivery,
+                    ...(emailDelivery === "digest" && user.emailDelivery !== "digest" ? { lastDigestAt: new Date() } : {}),
+                },
+            }),
+        ]);
+        revalidatePath("/settings/notifications");
+        return { error: null, success: true, message: "Notification preferences saved." };
+    } catch (e) {
+        return { error: "Failed to save notification preferences.", success: false };
+    }
+}
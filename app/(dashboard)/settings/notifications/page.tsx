@@ -0,0 +1,11 @@
+import { NotificationPreferencesForm } from "@/components/notification-preferences-form"
+import { getNotificationPreferences } from "@/app/(dashboard)/settings/notifications/actions"
+
+export const revalidate = 0
+
+
+export default async function NotificationSettingsPage() {
+    const preferences = await getNotificationPreferences()
+
+    return <NotificationPreferencesForm preferences={preferences} />
+}
@@ -0,0 +1,206 @@
+"use server";
+
+import { PrismaClient } from "@/app/generated/prisma";
+import { revalidatePath } from "next/cache";
+import { isSessionExpired } from "@/lib/sessions";
+import { getClientInfo, getSession, purgeExpiredSessions, rotateSession } from "@/lib/session-store";
+import { sendAuthTokenEmail } from "@/lib/auth-token-store";
+import { beginLoginAttempt, finishLoginAttempt, getLoginAttemptStore } from "@/lib/login-attempts";
+import { describeThrottle } from "@/lib/login-throttle";
+import { authorize } from "@/lib/authorization";
+import { can } from "@/lib/permissions";
+import {
+    countRecoveryCodes,
+    disableTwoFactor as turnOffTwoFactor,
+    enableTwoFactor,
+    getEnrollment,
+    isTwoFactorRequired,
+    replaceRecoveryCodes,
+    verifySecondFactor,
+} from "@/lib/two-factor-store";
+const prisma = new PrismaClient();
+
+// The current user's active sessions, most recently used first, marking the one making this request
+export async function getSessions() {
+    const current = await getSession();
+    if (!current) return [];
+
+    await purgeExpiredSessions();
+    const sessions = await prisma.session.findMany({
+        where: { userId: current.userId },
+        select: { id: true, userAgent: true, ipAddress: true, createdAt: true, lastSeenAt: true, expiresAt: true },
+        orderBy: { lastSeenAt: "desc" },
+    });
+    return sessions
+        .filter((session) => !isSessionExpired(session))
+        .map((session) => ({ ...session, current: session.id === current.id }));
+}
+
+// Failed sign-in attempts on the current user's account, newest first
+export async function getFailedLogins() {
+    const current = await getSession();
+    if (!current) return [];
+
+    const failures = await getLoginAttemptStore().listFailures(current.userId, 20);
+    return failures.map(({ ipAddress, userAgent, createdAt }) => ({ ipAddress, userAgent, createdAt }));
+}
+
+// Sign out one of the current user's other sessions
+export async function revokeSession(sessionId: number) {
+    const current = await getSession();
+    if (!current) return { error: "Not authenticated." };
+    if (sessionId === current.id) return { error: "Use Sign out to end the session you are using." };
+
+    try {
+        await prisma.session.deleteMany({ where: { id: sessionId, userId: current.userId } });
+        revalidatePath("/settings/security");
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to sign out the session." };
+    }
+}
+
+// Sign out every session except this one. This browser gets a new token too, in case the
+// reason for signing out everywhere is that its token was copied.
+export async function revokeOtherSessions() {
+    const current = await getSession();
+    if (!current) return { error: "Not authenticated." };
+
+    try {
+        await prisma.session.deleteMany({ where: { userId: current.userId, id: { not: current.id } } });
+        await rotateSession();
+        revalidatePath("/settings/security");
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to sign out other sessions." };
+    }
+}
+
+// Send the current user a new link for confirming their email address
+export async function resendVerificationEmail() {
+    const current = await getSession();
+    if (!current) return { error: "Not authenticated." };
+    if (current.user.emailVerifiedAt) return { error: "Your email address is already confirmed." };
+
+    try {
+        await prisma.$transaction((tx) => sendAuthTokenEmail(tx, current.user, "email_verification"));
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to send the confirmation email." };
+    }
+}
+
+// Check a code before a change to two-factor. Wrong codes count as failed sign-ins, so someone with
+// a stolen session can't guess codes any faster than on the login form. Returns an error or null.
+async function checkCurrentCode(user: { id: number; email: string }, code: string) {
+    const { attemptId, throttle } = await beginLoginAttempt({ email: user.email, userId: user.id, ...(await getClientInfo()) });
+    if (throttle) return describeThrottle(throttle);
+
+    const factor = await verifySecondFactor(user.id, code.trim());
+    await finishLoginAttempt(attemptId, factor ? "succeeded" : "failed");
+    return factor ? null : "That code didn't work.";
+}
+
+// Whether the current user has two-factor on, and the workspace setting for admins
+export async function getTwoFactorStatus() {
+    const current = await getSession();
+    if (!current) return null;
+
+    return {
+        enabled: current.user.totpEnabledAt !== null,
+        recoveryCodesLeft: current.user.totpEnabledAt ? await countRecoveryCodes(current.userId) : 0,
+        required: await isTwoFactorRequired(),
+        canRequire: can(current.user, "manage_members"),
+    };
+}
+
+// Start adding an authenticator app: returns the secret and QR code to scan
+export async function startTwoFactorEnrollment() {
+    const current = await getSession();
+    if (!current) return { error: "Not authenticated.", enrollment: null };
+    if (current.user.totpEnabledAt) return { error: "Two-factor authentication is already on.", enrollment: null };
+
+    try {
+        const { secret, qrCode } = await getEnrollment(current.user);
+        return { error: null, enrollment: { secret, qrCode } };
+    } catch (e) {
+        return { error: "Failed to start two-factor setup.", enrollment: null };
+    }
+}
+
+// Turn two-factor on with a first code from the app, returning recovery codes to show once
+export async function confirmTwoFactorEnrollment(formData: FormData): Promise<{ error: string | null; recoveryCodes?: string[] }> {
+    const code = (formData.get("code") as string)?.trim();
+    if (!code) return { error: "Enter the code from your authenticator app." };
+
+    const current = await getSession();
+    if (!current) return { error: "Not authenticated." };
+
+    try {
+        const recoveryCodes = await enableTwoFactor(current.userId, code);
+        if (!recoveryCodes) return { error: "That code didn't work. Check the code in your authenticator app and try again." };
+
+        await rotateSession();
+        revalidatePath("/settings/security");
+        return { error: null, recoveryCodes };
+    } catch (e) {
+        return { error: "Failed to turn on two-factor authentication." };
+    }
+}
+
+// Turn two-factor off. Takes a current code, so someone with only a stolen session can't do it.
+export async function disableTwoFactor(code: string) {
+    const current = await getSession();
+    if (!current) return { error: "Not authenticated." };
+    if (await isTwoFactorRequired()) return { error: "Your workspace requires two-factor authentication." };
+    const codeError = await checkCurrentCode(current.user, code);
+    if (codeError) return { error: codeError };
+
+    try {
+        await turnOffTwoFactor(current.userId);
+        await rotateSession();
+        revalidatePath("/settings/security");
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to turn off two-factor authentication." };
+    }
+}
+
+// Replace the current user's recovery codes, for when they have used or lost them. Takes a current code.
+export async function regenerateRecoveryCodes(code: string): Promise<{ error: string | null; recoveryCodes?: string[] }> {
+    const current = await getSession();
+    if (!current) return { error: "Not authenticated." };
+    const codeError = await checkCurrentCode(current.user, code);
+    if (codeError) return { error: codeError };
+
+    try {
+        const recoveryCodes = await prisma.$transaction((tx) => replaceRecoveryCodes(tx, current.userId));
+        revalidatePath("/settings/security");
+        return { error: null, recoveryCodes };
+    } catch (e) {
+        return { error: "Failed to create new recovery codes." };
+    }
+}
+
+// Require two-factor for everyone, or stop requiring it. Turning it on signs out everyone who hasn't
+// set it up; they set it up the next time they log in.
+export async function setTwoFactorRequired(required: boolean) {
+    const { user, error } = await authorize("manage_members");
+    if (!user) return { error };
+    if (required && !user.totpEnabledAt) return { error: "Turn on two-factor authentication for your own account first." };
+
+    try {
+        await prisma.$transaction(async (tx) => {
+            await tx.workspaceSettings.upsert({
+                where: { id: 1 },
+                create: { id: 1, requireTwoFactor: required },
+                update: { requireTwoFactor: required },
+            });
+            if (required) await tx.session.deleteMany({ where: { user: { totpEnabledAt: null } } });
+        });
+        revalidatePath("/settings/security");
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to update the two-factor requirement." };
+    }
+}
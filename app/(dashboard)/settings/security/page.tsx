@@ -0,0 +1,27 @@
+import { SessionList } from "@/components/session-list"
+import { EmailVerificationCard } from "@/components/email-verification-card"
+import { FailedLoginList } from "@/components/failed-login-list"
+import { TwoFactorCard } from "@/components/two-factor-card"
+import { getFailedLogins, getSessions, getTwoFactorStatus } from "@/app/(dashboard)/settings/security/actions"
+import { getCurrentUser } from "@/app/login/actions"
+
+export const revalidate = 0
+
+
+export default async function SecuritySettingsPage() {
+    const [sessions, failedLogins, twoFactor, user] = await Promise.all([
+        getSessions(),
+        getFailedLogins(),
+        getTwoFactorStatus(),
+        getCurrentUser(),
+    ])
+
+    return (
+        <div className="space-y-6">
+            {user && <EmailVerificationCard email={user.email} verifiedAt={user.emailVerifiedAt} />}
+            {twoFactor && <TwoFactorCard status={twoFactor} />}
+            <SessionList sessions={sessions} />
+            <FailedLoginList attempts={failedLogins} />
+        </div>
+    )
+}
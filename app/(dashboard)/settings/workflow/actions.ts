@@ -0,0 +1,195 @@
+"use server";
+
+import { PrismaClient } from "@/app/generated/prisma";
+import { revalidatePath } from "next/cache";
+import { STATUS_CATEGORIES, toStatusKey, type StatusCategory } from "@/lib/workflow";
+import { formatTaskKey } from "@/lib/utils";
+import { authorize } from "@/lib/authorization";
+const prisma = new PrismaClient();
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// Every page that renders statuses needs fresh data after a change
+function revalidateStatusConsumers() {
+    revalidatePath("/", "layout");
+}
+
+// Get all workflow statuses in board order
+export async function getWorkflowStatuses() {
+    const { error } = await authorize("view_tasks");
+    if (error) return [];
+
+    return prisma.workflowStatus.findMany({ orderBy: { order: "asc" } });
+}
+
+// Count tasks per status key, across the projects the user belongs to
+export async function getStatusTaskCounts() {
+    const { user } = await authorize("view_tasks");
+    if (!user) return {} as Record<string, number>;
+
+    const groups = await prisma.task.groupBy({
+        by: ["status"],
+        where: { project: { members: { some: { userId: user.id } } } },
+        _count: { _all: true },
+    });
+    return Object.fromEntries(groups.map((group) => [group.status, group._count._all])) as Record<string, number>;
+}
+
+// Recent moves past a hard WIP limit in the user's projects, newest first
+export async function getWipOverrides() {
+    const { user } = await authorize("view_tasks");
+    if (!user) return [];
+
+    return prisma.taskEvent.findMany({
+        where: { type: "wip_override", task: { project: { members: { some: { userId: user.id } } } } },
+        include: { actor: { select: { id: true, name: true } } },
+        orderBy: { createdAt: "desc" },
+        take: 20,
+    });
+}
+
+function parseStatusForm(formData: FormData) {
+    const name = (formData.get("name") as string)?.trim();
+    const color = formData.get("color") as string;
+    const category = formData.get("category") as string;
+    const wipLimitRaw = (formData.get("wipLimit") as string)?.trim();
+    const wipLimit = wipLimitRaw ? Number(wipLimitRaw) : null;
+    const wipLimitHard = wipLimit !== null && formData.get("wipLimitHard") === "on";
+
+    if (!name) return { error: "Name is required." };
+    if (!COLOR_PATTERN.test(color ?? "")) return { error: "Color must be a hex value like #00848B." };
+    if (!STATUS_CATEGORIES.includes(category as StatusCategory)) return { error: "Choose a valid category." };
+    if (wipLimit !== null && (!Number.isInteger(wipLimit) || wipLimit < 1)) {
+        return { error: "WIP limit must be a whole number of at least 1." };
+    }
+
+    return { error: null, name, color, category, wipLimit, wipLimitHard };
+}
+
+export async function createWorkflowStatus(formData: FormData) {
+    const { user, error } = await authorize("manage_members");
+    if (!user) return { error, success: false };
+
+    const parsed = parseStatusForm(formData);
+    if (parsed.error !== null) return { error: parsed.error, success: false };
+
+    const key = toStatusKey(parsed.name);
+    const existing = await prisma.workflowStatus.findUnique({ where: { key } });
+    if (existing) return { error: "A status with this name already exists.", success: false };
+
+    try {
+        const { _max } = await prisma.workflowStatus.aggregate({ _max: { order: true } });
+        await prisma.workflowStatus.create({
+            data: {
+                key,
+                name: parsed.name,
+                color: parsed.color,
+                category: parsed.category,
+                wipLimit: parsed.wipLimit,
+                wipLimitHard: parsed.wipLimitHard,
+                order: (_max.order ?? -1) + 1,
+            },
+        });
+        revalidateStatusConsumers();
+        return { error: null, success: true, message: "Status created successfully!" };
+    } catch (e) {
+        return { error: "Failed to create status.", success: false };
+    }
+}
+
+// Update a status' name, color, category and WIP limit. The key stays the same so tasks keep their status.
+export async function updateWorkflowStatus(statusId: number, formData: FormData) {
+    const { user, error } = await authorize("manage_members");
+    if (!user) return { error, success: false };
+
+    const parsed = parseStatusForm(formData);
+    if (parsed.error !== null) return { error: parsed.error, success: false };
+
+    try {
+        await prisma.workflowStatus.update({
+            where: { id: statusId },
+            data: {
+                name: parsed.name,
+                color: parsed.color,
+                category: parsed.category,
+                wipLimit: parsed.wipLimit,
+                wipLimitHard: parsed.wipLimitHard,
+            },
+        });
+        revalidateStatusConsumers();
+        return { error: null, success: true, message: "Status updated successfully!" };
+    } catch (e) {
+        return { error: "Failed to update status.", success: false };
+    }
+}
+
+// Swap a status with its neighbour to move its column left or right on the board
+export async function moveWorkflowStatus(statusId: number, direction: "up" | "down") {
+    const { user, error } = await authorize("manage_members");
+    if (!user) return { error };
+
+    try {
+        const statuses = await prisma.workflowStatus.findMany({ orderBy: { order: "asc" } });
+        const index = statuses.findIndex((status) => status.id === statusId);
+        const neighbour = statuses[direction === "up" ? index - 1 : index + 1];
+        if (index === -1 || !neighbour) return { error: null };
+
+        await prisma.$transaction([
+            prisma.workflowStatus.update({ where: { id: statusId }, data: { order: neighbour.order } }),
+            prisma.workflowStatus.update({ where: { id: neighbour.id }, data: { order: statuses[index].order } }),
+        ]);
+        revalidateStatusConsumers();
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to reorder statuses." };
+    }
+}
+
+// Delete a status, moving any tasks that use it to another status first
+export async function deleteWorkflowStatus(statusId: number, targetStatusId: number | null) {
+    const { user, error } = await authorize("manage_members");
+    if (!user) return { error };
+
+    try {
+        const status = await prisma.workflowStatus.findUnique({ where: { id: statusId } });
+        if (!status) return { error: "Status not found." };
+
+        const statusCount = await prisma.workflowStatus.count();
+        if (statusCount <= 1) return { error: "The workflow needs at least one status." };
+
+        const tasks = await prisma.task.findMany({
+            where: { status: status.key },
+            include: { project: { select: { key: true } } },
+        });
+
+        if (tasks.length > 0) {
+            const target = targetStatusId ? await prisma.workflowStatus.findUnique({ where: { id: targetStatusId } }) : null;
+            if (!target || target.id === status.id) {
+                return { error: `Choose another status for the ${tasks.length} task(s) in "${status.name}".` };
+            }
+
+            await prisma.$transaction([
+                prisma.task.updateMany({ where: { status: status.key }, data: { status: target.key } }),
+                prisma.taskEvent.createMany({
+                    data: tasks.map((task) => ({
+                        taskId: task.id,
+                        taskKey: formatTaskKey(task.project.key, task.number),
+                        actorId: user.id,
+                        type: "updated",
+                        field: "status",
+                        fromValue: status.key,
+                        toValue: target.key,
+                    })),
+                }),
+                prisma.workflowStatus.delete({ where: { id: status.id } }),
+            ]);
+        } else {
+            await prisma.workflowStatus.delete({ where: { id: status.id } });
+        }
+
+        revalidateStatusConsumers();
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to delete status." };
+    }
+}
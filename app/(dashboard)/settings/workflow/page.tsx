@@ -0,0 +1,24 @@
+import { WorkflowSettings } from "@/components/workflow-settings"
+import { WipOverrideList } from "@/components/wip-override-list"
+import { getStatusTaskCounts, getWipOverrides, getWorkflowStatuses } from "@/app/(dashboard)/settings/workflow/actions"
+import { getCurrentUser } from "@/app/login/actions"
+import { can } from "@/lib/permissions"
+
+export const revalidate = 0
+
+
+export default async function WorkflowSettingsPage() {
+    const [statuses, taskCounts, overrides, user] = await Promise.all([
+        getWorkflowStatuses(),
+        getStatusTaskCounts(),
+        getWipOverrides(),
+        getCurrentUser(),
+    ])
+
+    return (
+        <div className="space-y-4">
+            <WorkflowSettings statuses={statuses} taskCounts={taskCounts} canEdit={!!user && can(user, "manage_members")} />
+            <WipOverrideList events={overrides} statuses={statuses} />
+        </div>
+    )
+}
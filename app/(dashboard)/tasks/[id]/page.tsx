@@ -0,0 +1,117 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { TaskDetail } from "@/components/task-detail"
+import { CommentThread } from "@/components/comment-thread"
+import { TaskTimeline } from "@/components/task-timeline"
+import { SubtaskList } from "@/components/subtask-list"
+import { DependencyList } from "@/components/dependency-list"
+import { AttachmentList } from "@/components/attachment-list"
+import { getAllUsers, getCurrentUser } from "@/app/login/actions"
+import { getLinkableTasks, getTask } from "@/app/(dashboard)/tasks/actions"
+import { getProjectMembers } from "@/app/(dashboard)/projects/actions"
+import { getWorkflowStatuses } from "@/app/(dashboard)/settings/workflow/actions"
+import { can } from "@/lib/permissions"
+
+export const revalidate = 0
+
+
+export default async function TaskPage({ params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params
+    const taskId = Number.parseInt(id)
+    if (Number.isNaN(taskId)) notFound()
+
+    const [{ task, error }, user, users, statuses, linkableTasks] = await Promise.all([
+        getTask(taskId),
+        getCurrentUser(),
+        getAllUsers(),
+        getWorkflowStatuses(),
+        getLinkableTasks(taskId),
+    ])
+    if (error) {
+        console.error("Error fetching task:", error)
+        return <p className="p-8">Could not load data. Please try again later.</p>
+    }
+    if (!task || !user) notFound()
+    // Assignees and mentions are limited to the task's project; the timeline names anyone who ever changed it
+    const members = await getProjectMembers(task.project.id)
+    // Viewers get the same page with the add, remove and reply controls left out
+    const canEdit = can(user, "edit_tasks")
+
+    return (
+        <div className="flex-1 space-y-4 p-4 md:p-8 pt-6 max-w-4xl">
+            <Link href="/tasks">
+                <Button variant="ghost" size="sm">
+                    <ArrowLeft className="mr-2 h-4 w-4" />
+                    Back to tasks
+                </Button>
+            </Link>
+
+            <TaskDetail task={task} statuses={statuses} users={members} canEdit={canEdit} />
+
+            {/* Subtasks are one level deep, so subtasks have no list of their own */}
+            {!task.parent && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Subtasks</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        <SubtaskList
+                            taskId={task.id}
+                            projectKey={task.project.key}
+                            subtasks={task.subtasks}
+                            statuses={statuses}
+                            canEdit={canEdit}
+                        />
+                    </CardContent>
+                </Card>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Dependencies</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <DependencyList
+                        taskId={task.id}
+                        projectKey={task.project.key}
+                        blockedBy={task.blockedBy.map(({ blocker }) => blocker)}
+                        blocking={task.blocking.map(({ blocked }) => blocked)}
+                        linkableTasks={linkableTasks}
+                        statuses={statuses}
+                        canEdit={canEdit}
+                    />
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Attachments</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <AttachmentList attachments={task.attachments} canEdit={canEdit} />
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Comments</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <CommentThread taskId={task.id} comments={task.comments} currentUserId={user.id} users={members} canEdit={canEdit} />
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Activity</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <TaskTimeline events={task.events} users={users} statuses={statuses} />
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
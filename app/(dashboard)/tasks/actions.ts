@@ -1,9 +1,29 @@
 "use server";
 
-import { getCurrentUser } from "@/app/login/actions";
-import { PrismaClient } from "@/app/generated/prisma";
+import { getCurrentProject } from "@/app/(dashboard)/projects/actions";
+import { PrismaClient, type Task } from "@/app/generated/prisma";
 import { revalidatePath } from "next/cache";
+import { randomUUID } from "node:crypto";
 import { parseDateString } from "@/lib/date-utils";
+import { diffTaskFields, type TrackedTaskFields } from "@/lib/task-history";
+import { generateRanks, rankBetween } from "@/lib/rank";
+import { getFirstStatusKey, getStatusKeys, isDoneStatus, type GuardedResult, type MoveGuard } from "@/lib/workflow";
+import { getLaneFields, type SwimlaneField } from "@/lib/swimlanes";
+import { buildTaskOrderBy, buildTaskWhere, hasActiveFilters, TASK_PAGE_SIZE, type TaskFilters } from "@/lib/task-filters";
+import { getPriorityWeight, PRIORITIES, type Priority } from "@/lib/priority";
+import { setChecklistItem } from "@/lib/checklist";
+import { wouldCreateCycle } from "@/lib/dependencies";
+import { getNewMentions } from "@/lib/mentions";
+import { getRecipients, type NotificationType } from "@/lib/notifications";
+import { queueNotificationEmails } from "@/lib/notification-emails";
+import type { TaskChangeType } from "@/lib/live-updates";
+import { getEditableValues, type TaskEditConflict } from "@/lib/task-conflicts";
+import { publishTaskChange } from "@/lib/task-broadcast";
+import { MAX_ATTACHMENTS_PER_UPLOAD, validateAttachment } from "@/lib/attachments";
+import { getFileStorage } from "@/lib/storage";
+import { authorize, authorizeTask } from "@/lib/authorization";
+import type { BulkTaskChanges, BulkTaskFailure } from "@/lib/types";
+import { formatTaskKey } from "@/lib/utils";
 const prisma = new PrismaClient();
 
 export async function createTask(formData: FormData) {
@@ -14,17 +34,40 @@ export async function createTask(formData: FormData) {
     const dueDate = formData.get("dueDate") as string;
     const assigneeIdRaw = formData.get("assigneeId") as string;
     const assigneeId = assigneeIdRaw ? parseInt(assigneeIdRaw, 10) : null;
+    const projectIdRaw = formData.get("projectId") as string;
+    const labels = await parseLabelIds(formData);
+    const files = getUploadedFiles(formData);
 
-    const user = await getCurrentUser();
-    if (!user) return { error: "Not authenticated.", success: false, message: "Not authenticated." };
+    const { user, error } = await authorize("edit_tasks");
+    if (!user) return { error, success: false, message: error };
 
     const creatorId = user.id;
 
     if (!name) return { error: "Title is required.", success: false, message: "Title is required." };
+    if (!(await isWorkflowStatus(status))) return { error: "Choose a valid status.", success: false, message: "Choose a valid status." };
 
+    const projectId = projectIdRaw ? parseInt(projectIdRaw, 10) : (await getCurrentProject())?.id;
+    if (!projectId) return { error: "Select a project first.", success: false, message: "Select a project first." };
+
+    const membership = await prisma.projectMember.findUnique({
+        where: { projectId_userId: { projectId, userId: creatorId } },
+    });
+    if (!membership) {
+        return { error: "You are not a member of this project.", success: false, message: "You are not a member of this project." };
+    }
+    if (!(await isAssignable(prisma, projectId, assigneeId))) {
+        return { error: ASSIGNEE_ERROR, success: false, message: ASSIGNEE_ERROR };
+    }
+
+    const uploadError = validateUploads(files);
+    if (uploadError) return { error: uploadError, success: false, message: uploadError };
+
+    let stored: StoredFile[] = [];
     try {
-        await prisma.task.create({
-            data: {
+        stored = await storeFiles(files);
+        const task = await prisma.$transaction(async (tx) => {
+            const task = await insertTask(tx, {
+                projectId,
                 name,
                 description,
                 priority,
@@ -32,23 +75,505 @@ export async function createTask(formData: FormData) {
                 dueDate: dueDate ? parseDateString(dueDate) : null,
                 creatorId,
                 assigneeId,
-            },
+            }, labels);
+            await recordAttachments(tx, task.id, stored, creatorId);
+            return task;
         });
+        broadcastTaskChange("created", [task]);
         revalidatePath("/tasks");
         return { error: null, success: true, message: "Task created successfully!" };
     } catch (e) {
+        await removeStoredFiles(stored);
         return { error: "Failed to create task.", success: false, message: "Failed to create task." };
     }
 }
 
-// Get all tasks with assignee and creator info
-export async function getAllTasks() {
+// Add a subtask under a task. It joins the parent's project and starts in the first not-started status.
+export async function createSubtask(parentId: number, formData: FormData) {
+    const name = (formData.get("title") as string)?.trim();
+
+    const { user, error } = await authorize("edit_tasks");
+    if (!user) return { error, success: false };
+
+    if (!name) return { error: "Title is required.", success: false };
+
+    try {
+        const parent = await prisma.task.findFirst({
+            where: { id: parentId, project: { members: { some: { userId: user.id } } } },
+        });
+        if (!parent) return { error: "Task not found.", success: false };
+        if (parent.parentId !== null) return { error: "Subtasks cannot have subtasks of their own.", success: false };
+
+        const statuses = await prisma.workflowStatus.findMany({ orderBy: { order: "asc" } });
+        const status = getFirstStatusKey(statuses, "not_started") ?? statuses[0]?.key;
+        if (!status) return { error: "Add a workflow status first.", success: false };
+
+        const subtask = await prisma.$transaction(async (tx) => {
+            return insertTask(tx, {
+                projectId: parent.projectId,
+                parentId: parent.id,
+                name,
+                description: "",
+                priority: parent.priority,
+                status,
+                dueDate: null,
+                creatorId: user.id,
+                assigneeId: null,
+            });
+        });
+        broadcastTaskChange("created", [subtask]);
+        revalidatePath(`/tasks/${parentId}`);
+        revalidatePath("/tasks");
+        return { error: null, success: true, message: "Subtask added." };
+    } catch (e) {
+        return { error: "Failed to add subtask.", success: false };
+    }
+}
+
+// Label ids submitted by the label picker, limited to labels that exist
+async function parseLabelIds(formData: FormData) {
+    const ids = formData
+        .getAll("labelIds")
+        .map((value) => parseInt(value as string, 10))
+        .filter((id) => !Number.isNaN(id));
+    if (ids.length === 0) return [];
+    return prisma.label.findMany({ where: { id: { in: ids } }, select: { id: true } });
+}
+
+// Files picked in a form's attachment input. Browsers submit an empty, nameless file when none is picked.
+function getUploadedFiles(formData: FormData): File[] {
+    return formData.getAll("attachments").filter((value): value is File => value instanceof File && value.size > 0);
+}
+
+// Check uploads against the attachment limits, returning the first problem found
+function validateUploads(files: File[]): string | null {
+    if (files.length > MAX_ATTACHMENTS_PER_UPLOAD) return `Attach at most ${MAX_ATTACHMENTS_PER_UPLOAD} files at a time.`;
+    for (const file of files) {
+        const error = validateAttachment(file);
+        if (error) return error;
+    }
+    return null;
+}
+
+type StoredFile = { storageKey: string; fileName: string; contentType: string; size: number };
+
+// Write uploads to file storage under random keys. Their Attachment rows are created in the caller's
+// transaction; if it fails, the caller removes the files again with removeStoredFiles.
+async function storeFiles(files: File[]): Promise<StoredFile[]> {
+    const storage = getFileStorage();
+    const stored: StoredFile[] = [];
+    for (const file of files) {
+        const storageKey = randomUUID();
+        await storage.put(storageKey, new Uint8Array(await file.arrayBuffer()));
+        stored.push({ storageKey, fileName: file.name, contentType: file.type, size: file.size });
+    }
+    return stored;
+}
+
+async function removeStoredFiles(files: { storageKey: string }[]) {
+    const storage = getFileStorage();
+    await Promise.all(files.map((file) => storage.delete(file.storageKey)));
+}
+
+async function recordAttachments(tx: TransactionClient, taskId: number, files: StoredFile[], uploaderId: number) {
+    if (files.length === 0) return;
+    await tx.attachment.createMany({ data: files.map((file) => ({ ...file, taskId, uploaderId })) });
+}
+
+// Task.status must match the key of a configured WorkflowStatus
+// Tasks can only be assigned to members of their project, so assignment notifications and emails
+// never tell anyone else about the task. Nobody (null) is always allowed.
+async function isAssignable(tx: TransactionClient, projectId: number, assigneeId: number | null) {
+    if (assigneeId === null) return true;
+    const membership = await tx.projectMember.findUnique({
+        where: { projectId_userId: { projectId, userId: assigneeId } },
+    });
+    return membership !== null;
+}
+
+const ASSIGNEE_ERROR = "Choose an assignee who is a member of the task's project.";
+
+async function isWorkflowStatus(status: string) {
+    if (!status) return false;
+    return (await prisma.workflowStatus.count({ where: { key: status } })) > 0;
+}
+
+type TransactionClient = Parameters<Parameters<typeof prisma.$transaction>[0]>[0];
+
+// Create a task with the next number in its project and record its "created" event
+async function insertTask(
+    tx: TransactionClient,
+    fields: Pick<Task, "projectId" | "name" | "description" | "priority" | "status" | "dueDate" | "creatorId" | "assigneeId"> &
+        Partial<Pick<Task, "parentId">>,
+    labels: { id: number }[] = [],
+) {
+    // Task numbers are sequential within a project (e.g. PLAT-1, PLAT-2)
+    const { _max } = await tx.task.aggregate({ where: { projectId: fields.projectId }, _max: { number: true } });
+    // New tasks go to the top of their board column
+    const rank = await rankForPosition(tx, fields.projectId, fields.status, null, null, "top");
+    const task = await tx.task.create({
+        data: {
+            ...fields,
+            number: (_max.number ?? 0) + 1,
+            priorityWeight: getPriorityWeight(fields.priority),
+            rank,
+            labels: { connect: labels },
+        },
+        include: { project: { select: { key: true } } },
+    });
+    await tx.taskEvent.create({
+        data: {
+            taskId: task.id,
+            taskKey: formatTaskKey(task.project.key, task.number),
+            actorId: fields.creatorId,
+            type: "created",
+        },
+    });
+    await notify(tx, "assigned", [fields.assigneeId], { taskId: task.id, actorId: fields.creatorId });
+    await notifyMentions(tx, task, "", fields.description ?? "", fields.creatorId);
+    return task;
+}
+
+// Create one notification of `type` per recipient, skipping the actor and users who turned the type off.
+// Email copies go through the outbox, so sending never holds up the calling action.
+async function notify(
+    tx: TransactionClient,
+    type: NotificationType,
+    candidates: (number | null | undefined)[],
+    fields: { taskId: number; actorId: number; detail?: string },
+) {
+    const userIds = getRecipients(candidates, fields.actorId);
+    if (userIds.length === 0) return;
+
+    const muted = await tx.notificationPreference.findMany({
+        where: { userId: { in: userIds }, type, enabled: false },
+        select: { userId: true },
+    });
+    const recipients = getRecipients(userIds, fields.actorId, muted.map(({ userId }) => userId));
+    if (recipients.length === 0) return;
+
+    await tx.notification.createMany({ data: recipients.map((userId) => ({ userId, type, ...fields })) });
+    await queueNotificationEmails(tx, type, recipients, fields);
+}
+
+// Notify about a change to a task: its new assignee, and its creator and assignee when the status changes
+async function notifyTaskChanges(
+    tx: TransactionClient,
+    before: Task,
+    after: Partial<Pick<Task, "status" | "assigneeId">>,
+    actorId: number,
+) {
+    if (after.assigneeId !== undefined && after.assigneeId !== before.assigneeId) {
+        await notify(tx, "assigned", [after.assigneeId], { taskId: before.id, actorId });
+    }
+    if (after.status !== undefined && after.status !== before.status) {
+        const status = await tx.workflowStatus.findUnique({ where: { key: after.status }, select: { name: true } });
+        const assigneeId = after.assigneeId !== undefined ? after.assigneeId : before.assigneeId;
+        await notify(tx, "status_changed", [before.creatorId, assigneeId], {
+            taskId: before.id,
+            actorId,
+            detail: status?.name ?? after.status,
+        });
+    }
+}
+
+// Notify users newly mentioned in a task's description or a comment on it. Mentions of people outside
+// the task's project, or of the author themselves, are ignored.
+async function notifyMentions(
+    tx: TransactionClient,
+    task: Pick<Task, "id" | "projectId">,
+    before: string,
+    after: string,
+    actorId: number,
+) {
+    const mentioned = getNewMentions(before, after);
+    if (mentioned.length === 0) return;
+
+    const members = await tx.projectMember.findMany({
+        where: { projectId: task.projectId, userId: { in: mentioned } },
+        select: { userId: true },
+    });
+    await notify(tx, "mention", members.map(({ userId }) => userId), { taskId: task.id, actorId });
+}
+
+// Tell open boards and task lists about tasks changed by a committed write.
+// Parents are included, so their subtask progress refreshes too.
+function broadcastTaskChange(type: TaskChangeType, tasks: Pick<Task, "id" | "projectId" | "parentId">[]) {
+    const byProject = new Map<number, Set<number>>();
+    for (const task of tasks) {
+        const taskIds = byProject.get(task.projectId) ?? new Set<number>();
+        taskIds.add(task.id);
+        if (task.parentId) taskIds.add(task.parentId);
+        byProject.set(task.projectId, taskIds);
+    }
+    for (const [projectId, taskIds] of byProject) {
+        publishTaskChange({ type, projectId, taskIds: [...taskIds] });
+    }
+}
+
+// Write one "updated" TaskEvent per changed field
+async function recordTaskChanges(
+    tx: TransactionClient,
+    before: Task & { project: { key: string } },
+    after: Partial<TrackedTaskFields>,
+    actorId: number,
+) {
+    const changes = diffTaskFields(before, after);
+    if (changes.length === 0) return;
+
+    await tx.taskEvent.createMany({
+        data: changes.map((change) => ({
+            taskId: before.id,
+            taskKey: formatTaskKey(before.project.key, before.number),
+            actorId,
+            type: "updated",
+            ...change,
+        })),
+    });
+}
+
+// Refuse moving a task into a column that is already at its hard WIP limit.
+// Limits count tasks per project, since each project has its own board.
+async function checkWipLimit(tx: TransactionClient, task: Task, status: string, projectId = task.projectId) {
+    if (task.status === status && task.projectId === projectId) return null;
+
+    const target = await tx.workflowStatus.findUnique({ where: { key: status } });
+    if (!target?.wipLimitHard || target.wipLimit === null) return null;
+
+    const count = await tx.task.count({ where: { projectId, status } });
+    if (count < target.wipLimit) return null;
+
+    return {
+        guard: "wip_limit" as const,
+        error: `"${target.name}" is at its WIP limit of ${target.wipLimit}.`,
+    };
+}
+
+// Refuse closing a task while any of its subtasks is still open
+async function checkOpenSubtasks(tx: TransactionClient, task: Task, status: string) {
+    const statuses = await tx.workflowStatus.findMany();
+    if (!isDoneStatus(statuses, status) || isDoneStatus(statuses, task.status)) return null;
+
+    const open = await tx.task.count({
+        where: { parentId: task.id, status: { notIn: getStatusKeys(statuses, "done") } },
+    });
+    if (open === 0) return null;
+
+    return {
+        guard: "open_subtasks" as const,
+        error: open === 1 ? "1 subtask is still open." : `${open} subtasks are still open.`,
+    };
+}
+
+// Refuse starting or closing a task while a task blocking it is unfinished
+async function checkBlocked(tx: TransactionClient, task: Task, status: string) {
+    if (task.status === status) return null;
+
+    const statuses = await tx.workflowStatus.findMany();
+    const target = statuses.find((candidate) => candidate.key === status);
+    if (!target || target.category === "not_started") return null;
+
+    const blockers = await tx.task.findMany({
+        where: {
+            blocking: { some: { blockedId: task.id } },
+            status: { notIn: getStatusKeys(statuses, "done") },
+        },
+        include: { project: { select: { key: true } } },
+        orderBy: { id: "asc" },
+    });
+    if (blockers.length === 0) return null;
+
+    return {
+        guard: "blocked" as const,
+        error: `Blocked by ${blockers.map((blocker) => formatTaskKey(blocker.project.key, blocker.number)).join(", ")}.`,
+    };
+}
+
+// Run every guard on a status change. `refused` is the first tripped guard missing from `overrides`;
+// `overridden` lists the guards the change went past, so they can be recorded.
+async function checkMoveGuards(
+    tx: TransactionClient,
+    task: Task,
+    status: string,
+    overrides: MoveGuard[],
+    projectId = task.projectId,
+) {
+    const tripped = [
+        await checkBlocked(tx, task, status),
+        await checkWipLimit(tx, task, status, projectId),
+        await checkOpenSubtasks(tx, task, status),
+    ].filter((guard): guard is { guard: MoveGuard; error: string } => guard !== null);
+    return {
+        refused: tripped.find((guard) => !overrides.includes(guard.guard)) ?? null,
+        overridden: tripped.map((guard) => guard.guard),
+    };
+}
+
+// Record that a user moved a task past a hard WIP limit, so team leads can review overrides
+async function recordWipOverride(
+    tx: TransactionClient,
+    task: Task & { project: { key: string } },
+    status: string,
+    actorId: number,
+) {
+    await tx.taskEvent.create({
+        data: {
+            taskId: task.id,
+            taskKey: formatTaskKey(task.project.key, task.number),
+            actorId,
+            type: "wip_override",
+            field: "status",
+            fromValue: task.status,
+            toValue: status,
+        },
+    });
+}
+
+// Move a task to another project. It takes the next number there, so its key changes (e.g. PLAT-3 -> MOB-12).
+// Subtasks share their parent's project, so the task is detached from its parent and its own subtasks.
+async function moveToProject(
+    tx: TransactionClient,
+    task: Task & { project: { key: string } },
+    projectId: number,
+    actorId: number,
+) {
+    const { _max } = await tx.task.aggregate({ where: { projectId }, _max: { number: true } });
+    await tx.task.updateMany({ where: { parentId: task.id }, data: { parentId: null } });
+    const updated = await tx.task.update({
+        where: { id: task.id },
+        data: { projectId, number: (_max.number ?? 0) + 1, parentId: null },
+        include: { project: { select: { key: true } } },
+    });
+    const taskKey = formatTaskKey(updated.project.key, updated.number);
+    await tx.taskEvent.create({
+        data: {
+            taskId: task.id,
+            taskKey,
+            actorId,
+            type: "updated",
+            field: "key",
+            fromValue: formatTaskKey(task.project.key, task.number),
+            toValue: taskKey,
+        },
+    });
+}
+
+// Find a rank for a task placed between two neighbours in a board column.
+// Without neighbours the task goes to the given end of the column.
+async function rankForPosition(
+    tx: TransactionClient,
+    projectId: number,
+    status: string,
+    previousTaskId: number | null,
+    nextTaskId: number | null,
+    end: "top" | "bottom" = "bottom",
+) {
+    const [previous, next] = await Promise.all([
+        previousTaskId ? tx.task.findFirst({ where: { id: previousTaskId, projectId, status } }) : null,
+        nextTaskId ? tx.task.findFirst({ where: { id: nextTaskId, projectId, status } }) : null,
+    ]);
+
+    if (!previous && !next) {
+        const edge = await tx.task.findFirst({
+            where: { projectId, status },
+            orderBy: { rank: end === "top" ? "asc" : "desc" },
+        });
+        if (!edge) return rankBetween(null, null);
+        return end === "top" ? rankBetween(null, edge.rank) : rankBetween(edge.rank, null);
+    }
+
+    try {
+        return rankBetween(previous?.rank ?? null, next?.rank ?? null);
+    } catch (e) {
+        // Neighbours share a rank (e.g. tasks created before ranks existed), so
+        // renumber this one column and place the task between the new ranks
+        const column = await tx.task.findMany({
+            where: { projectId, status },
+            orderBy: [{ rank: "asc" }, { createdAt: "desc" }],
+            select: { id: true },
+        });
+        const ranks = generateRanks(column.length);
+        for (const [index, { id }] of column.entries()) {
+            await tx.task.update({ where: { id }, data: { rank: ranks[index] } });
+        }
+        const rankOf = (id: number | undefined) => (id === undefined ? null : ranks[column.findIndex((task) => task.id === id)]);
+        return rankBetween(rankOf(previous?.id), rankOf(next?.id));
+    }
+}
+
+const taskListInclude = {
+    project: { select: { id: true, key: true, name: true } },
+    parent: { select: { id: true, number: true, name: true } },
+    subtasks: {
+        select: { id: true, number: true, name: true, status: true },
+        orderBy: { createdAt: "asc" as const },
+    },
+    blockedBy: { select: { blocker: { select: { id: true, status: true } } } },
+    labels: { orderBy: { name: "asc" as const } },
+    assignee: { select: { id: true, name: true, email: true } },
+    creator: { select: { id: true, name: true, email: true } },
+};
+
+// Get tasks in the selected project with assignee and creator info,
+// optionally narrowed and sorted by the task list's filters
+export async function getAllTasks(filters?: TaskFilters) {
+    const { error } = await authorize("view_tasks");
+    if (error) return { tasks: [], error };
+
+    const project = await getCurrentProject();
+    if (!project) return { tasks: [], error: null };
+
     try {
         const tasks = await prisma.task.findMany({
-            include: {
-                assignee: { select: { id: true, name: true, email: true, password: true } },
-                creator: { select: { id: true, name: true, email: true, password: true } },
-            },
+            where: { projectId: project.id, ...(filters ? buildTaskWhere(filters) : {}) },
+            include: taskListInclude,
+            orderBy: buildTaskOrderBy(filters?.sort ?? "created"),
+        });
+        return { tasks, error: null };
+    } catch (e) {
+        return { tasks: [], error: "Failed to fetch tasks." };
+    }
+}
+
+// Get one page of the selected project's tasks for the task list.
+// `cursor` is the id of the last task already loaded; pass null for the first page.
+export async function getTaskPage(filters: TaskFilters, cursor: number | null, take = TASK_PAGE_SIZE) {
+    const { error } = await authorize("view_tasks");
+    if (error) return { tasks: [], nextCursor: null, error };
+
+    const project = await getCurrentProject();
+    if (!project) return { tasks: [], nextCursor: null, error: null };
+
+    // Reloading everything already on screen can ask for several pages at once, within reason
+    const limit = Math.min(take, TASK_PAGE_SIZE * 20);
+
+    try {
+        // Subtasks show inline under their parent, unless filters narrow the list and they match on their own
+        const rows = await prisma.task.findMany({
+            where: { projectId: project.id, ...(hasActiveFilters(filters) ? {} : { parentId: null }), ...buildTaskWhere(filters) },
+            include: taskListInclude,
+            orderBy: buildTaskOrderBy(filters.sort),
+            // Fetch one extra row to learn whether another page follows
+            take: limit + 1,
+            ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        });
+        const hasMore = rows.length > limit;
+        const tasks = hasMore ? rows.slice(0, limit) : rows;
+        return { tasks, nextCursor: hasMore ? tasks[tasks.length - 1].id : null, error: null };
+    } catch (e) {
+        return { tasks: [], nextCursor: null, error: "Failed to fetch tasks." };
+    }
+}
+
+// Get tasks across every project the user belongs to, for boards grouped by project
+export async function getMemberTasks(filters?: TaskFilters) {
+    const { user, error } = await authorize("view_tasks");
+    if (!user) return { tasks: [], error };
+
+    try {
+        const tasks = await prisma.task.findMany({
+            where: { project: { members: { some: { userId: user.id } } }, ...(filters ? buildTaskWhere(filters) : {}) },
+            include: taskListInclude,
             orderBy: { createdAt: "desc" },
         });
         return { tasks, error: null };
@@ -57,10 +582,64 @@ export async function getAllTasks() {
     }
 }
 
-// Delete a task by ID
+// Re-fetch tasks named by a live update, as a view would load them: the selected project's list or board,
+// or every project for a board grouped by project. Tasks the view would not show are left out.
+export async function getLiveTasks(taskIds: number[], filters: TaskFilters, view: "list" | "board" | "member_board") {
+    const { user, error } = await authorize("view_tasks");
+    if (!user) return { tasks: [], error };
+
+    const project = view === "member_board" ? null : await getCurrentProject();
+    if (view !== "member_board" && !project) return { tasks: [], error: null };
+
+    try {
+        const tasks = await prisma.task.findMany({
+            where: {
+                id: { in: taskIds },
+                ...(project ? { projectId: project.id } : { project: { members: { some: { userId: user.id } } } }),
+                ...(view === "list" && !hasActiveFilters(filters) ? { parentId: null } : {}),
+                ...buildTaskWhere(filters),
+            },
+            include: taskListInclude,
+        });
+        return { tasks, error: null };
+    } catch (e) {
+        return { tasks: [], error: "Failed to fetch tasks." };
+    }
+}
+
+// Delete a task by ID. Members can only delete tasks they created.
 export async function deleteTask(taskId: number) {
+    const { user, error } = await authorize("delete_tasks");
+    if (!user) return { error };
+
     try {
-        await prisma.task.delete({ where: { id: taskId } });
+        const { refused, task } = await prisma.$transaction(async (tx) => {
+            const task = await tx.task.findFirst({
+                where: { id: taskId, project: { members: { some: { userId: user.id } } } },
+                include: { project: { select: { key: true } }, attachments: { select: { storageKey: true } } },
+            });
+            if (!task) return { refused: "Task not found.", task: null };
+            const refused = authorizeTask(user, "delete_tasks", task);
+            if (refused) return { refused, task: null };
+
+            // The event keeps the task key, since taskId is cleared when the task row is deleted
+            await tx.taskEvent.create({
+                data: {
+                    taskId,
+                    taskKey: formatTaskKey(task.project.key, task.number),
+                    actorId: user.id,
+                    type: "deleted",
+                    fromValue: task.name,
+                },
+            });
+            await tx.task.delete({ where: { id: taskId } });
+            return { refused: null, task };
+        });
+        if (!task) return { error: refused };
+
+        // Attachment rows go with the task; their files are removed once the delete has committed
+        await removeStoredFiles(task.attachments);
+        broadcastTaskChange("deleted", [task]);
         revalidatePath("/tasks");
         return { error: null };
     } catch (e) {
@@ -68,10 +647,32 @@ export async function deleteTask(taskId: number) {
     }
 }
 
-// Update a task's status by ID
-export async function updateTaskStatus(taskId: number, status: string) {
+// Update a task's status by ID.
+// Starting a blocked task, moving past a hard WIP limit or closing a task with open subtasks
+// is refused unless the guard is in `overrides`.
+export async function updateTaskStatus(taskId: number, status: string, overrides: MoveGuard[] = []): Promise<GuardedResult> {
+    const { user, error } = await authorize("edit_tasks");
+    if (!user) return { error };
+    if (!(await isWorkflowStatus(status))) return { error: "Choose a valid status." };
+
     try {
-        await prisma.task.update({ where: { id: taskId }, data: { status } });
+        const { refused, task } = await prisma.$transaction(async (tx) => {
+            const before = await tx.task.findFirstOrThrow({
+                where: { id: taskId, project: { members: { some: { userId: user.id } } } },
+                include: { project: { select: { key: true } } },
+            });
+            const guards = await checkMoveGuards(tx, before, status, overrides);
+            if (guards.refused) return { refused: guards.refused, task: before };
+
+            await tx.task.update({ where: { id: taskId }, data: { status, version: { increment: 1 } } });
+            await recordTaskChanges(tx, before, { status }, user.id);
+            await notifyTaskChanges(tx, before, { status }, user.id);
+            if (guards.overridden.includes("wip_limit")) await recordWipOverride(tx, before, status, user.id);
+            return { refused: null, task: before };
+        });
+        if (refused) return refused;
+
+        broadcastTaskChange("moved", [task]);
         revalidatePath("/tasks");
         return { error: null };
     } catch (e) {
@@ -79,8 +680,207 @@ export async function updateTaskStatus(taskId: number, status: string) {
     }
 }
 
-// Update a task with all fields
-export async function updateTask(taskId: number, formData: FormData) {
+// Move a task to a position on the board, changing its status when it lands in another column.
+// Only the moved task gets a new rank; its neighbours keep theirs.
+// When the board is grouped into swimlanes, `lane` is the lane the task was dropped in and
+// the grouped field (assignee, priority or project) changes with it.
+export async function moveTask(
+    taskId: number,
+    status: string,
+    previousTaskId: number | null,
+    nextTaskId: number | null,
+    overrides: MoveGuard[] = [],
+    lane: { field: SwimlaneField; id: string } | null = null,
+): Promise<GuardedResult> {
+    const { user, error } = await authorize("edit_tasks");
+    if (!user) return { error };
+    if (!(await isWorkflowStatus(status))) return { error: "Choose a valid status." };
+
+    const laneFields: { projectId?: number; assigneeId?: number | null; priority?: string } | null = lane
+        ? getLaneFields(lane.field, lane.id)
+        : {};
+    if (!laneFields) return { error: "Choose a valid swimlane." };
+    if (laneFields.projectId !== undefined) {
+        const membership = await prisma.projectMember.findUnique({
+            where: { projectId_userId: { projectId: laneFields.projectId, userId: user.id } },
+        });
+        if (!membership) return { error: "You are not a member of this project." };
+    }
+
+    try {
+        const { refused, moved } = await prisma.$transaction(async (tx) => {
+            const before = await tx.task.findFirstOrThrow({
+                where: { id: taskId, project: { members: { some: { userId: user.id } } } },
+                include: { project: { select: { key: true } } },
+            });
+            const { projectId = before.projectId, ...fields } = laneFields;
+            // Dropping into an assignee lane, or into another project, must leave a member assigned
+            const assigneeId = fields.assigneeId !== undefined ? fields.assigneeId : before.assigneeId;
+            if (!(await isAssignable(tx, projectId, assigneeId))) {
+                return { refused: { error: ASSIGNEE_ERROR }, moved: [] };
+            }
+            const guards = await checkMoveGuards(tx, before, status, overrides, projectId);
+            if (guards.refused) return { refused: guards.refused, moved: [] };
+
+            const rank = await rankForPosition(tx, projectId, status, previousTaskId, nextTaskId);
+            const changes = { status, ...fields };
+            const priorityWeight = fields.priority ? getPriorityWeight(fields.priority) : undefined;
+            // Reordering within a column changes no edit form field, so it leaves open edit forms current
+            const version = diffTaskFields(before, changes).length > 0 ? { increment: 1 } : undefined;
+            await tx.task.update({ where: { id: taskId }, data: { ...changes, priorityWeight, rank, version } });
+            await recordTaskChanges(tx, before, changes, user.id);
+            await notifyTaskChanges(tx, before, changes, user.id);
+            if (guards.overridden.includes("wip_limit")) await recordWipOverride(tx, before, status, user.id);
+            if (projectId !== before.projectId) await moveToProject(tx, before, projectId, user.id);
+            // A task moved to another project leaves one board and joins the other
+            return { refused: null, moved: [before, { id: before.id, projectId, parentId: null }] };
+        });
+        if (refused) return refused;
+
+        broadcastTaskChange("moved", moved);
+        revalidatePath("/tasks");
+        revalidatePath("/board");
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to move task." };
+    }
+}
+
+// Thrown inside a bulk transaction to roll it back when a task trips a guard the user has not overridden
+class GuardRefusal extends Error {
+    constructor(readonly refusal: { guard: MoveGuard; error: string }) {
+        super(refusal.error);
+    }
+}
+
+// Apply the same changes to many tasks in one transaction.
+// Tasks that are missing or outside the user's projects are skipped and reported in `failures`;
+// a status change that trips a guard refuses the whole batch until the guard is in `overrides`.
+export async function bulkUpdateTasks(
+    taskIds: number[],
+    changes: BulkTaskChanges,
+    overrides: MoveGuard[] = [],
+): Promise<GuardedResult & { failures: BulkTaskFailure[] }> {
+    const { user, error } = await authorize("edit_tasks");
+    if (!user) return { error, failures: [] };
+    if (taskIds.length === 0) return { error: "Select at least one task.", failures: [] };
+
+    const data: Partial<TrackedTaskFields> & { priorityWeight?: number } = {};
+    if (changes.status !== undefined) {
+        if (!(await isWorkflowStatus(changes.status))) return { error: "Choose a valid status.", failures: [] };
+        data.status = changes.status;
+    }
+    if (changes.priority !== undefined) {
+        if (!PRIORITIES.includes(changes.priority as Priority)) return { error: "Choose a valid priority.", failures: [] };
+        data.priority = changes.priority;
+        data.priorityWeight = getPriorityWeight(changes.priority);
+    }
+    if (changes.assigneeId !== undefined) {
+        data.assigneeId = changes.assigneeId;
+    }
+    if (changes.dueDate !== undefined) {
+        data.dueDate = changes.dueDate ? parseDateString(changes.dueDate) : null;
+    }
+
+    try {
+        const { failures, tasks } = await prisma.$transaction(async (tx) => {
+            const tasks = await tx.task.findMany({
+                where: { id: { in: taskIds }, project: { members: { some: { userId: user.id } } } },
+                include: { project: { select: { key: true } } },
+            });
+            const failures: BulkTaskFailure[] = taskIds
+                .filter((taskId) => !tasks.some((task) => task.id === taskId))
+                .map((taskId) => ({ taskId, error: "Task not found." }));
+            // Tasks in projects the assignee isn't a member of are left as they are
+            if (data.assigneeId !== undefined) {
+                for (const task of [...tasks]) {
+                    if (await isAssignable(tx, task.projectId, data.assigneeId)) continue;
+                    failures.push({ taskId: task.id, error: ASSIGNEE_ERROR });
+                    tasks.splice(tasks.indexOf(task), 1);
+                }
+            }
+
+            // Subtasks go first, so closing a parent together with its subtasks is not refused
+            tasks.sort((a, b) => Number(b.parentId !== null) - Number(a.parentId !== null));
+            for (const task of tasks) {
+                if (data.status) {
+                    const guards = await checkMoveGuards(tx, task, data.status, overrides);
+                    if (guards.refused) throw new GuardRefusal(guards.refused);
+                    if (guards.overridden.includes("wip_limit")) await recordWipOverride(tx, task, data.status, user.id);
+                }
+                await tx.task.update({ where: { id: task.id }, data: { ...data, version: { increment: 1 } } });
+                await recordTaskChanges(tx, task, data, user.id);
+                await notifyTaskChanges(tx, task, data, user.id);
+            }
+            return { failures, tasks };
+        });
+        broadcastTaskChange(data.status ? "moved" : "updated", tasks);
+        revalidatePath("/tasks");
+        revalidatePath("/board");
+        return { error: null, failures };
+    } catch (e) {
+        if (e instanceof GuardRefusal) return { ...e.refusal, failures: [] };
+        return { error: "Failed to update tasks.", failures: [] };
+    }
+}
+
+// Delete many tasks in one transaction, reporting tasks that could not be deleted
+export async function bulkDeleteTasks(taskIds: number[]): Promise<{ error: string | null; failures: BulkTaskFailure[] }> {
+    const { user, error } = await authorize("delete_tasks");
+    if (!user) return { error, failures: [] };
+    if (taskIds.length === 0) return { error: "Select at least one task.", failures: [] };
+
+    try {
+        const { failures, tasks } = await prisma.$transaction(async (tx) => {
+            const found = await tx.task.findMany({
+                where: { id: { in: taskIds }, project: { members: { some: { userId: user.id } } } },
+                include: { project: { select: { key: true } }, attachments: { select: { storageKey: true } } },
+            });
+            const failures: BulkTaskFailure[] = taskIds
+                .filter((taskId) => !found.some((task) => task.id === taskId))
+                .map((taskId) => ({ taskId, error: "Task not found." }));
+            // Members can only delete tasks they created; the rest of the batch still goes ahead
+            for (const task of found) {
+                const refused = authorizeTask(user, "delete_tasks", task);
+                if (refused) failures.push({ taskId: task.id, error: refused });
+            }
+            const tasks = found.filter((task) => !failures.some((failure) => failure.taskId === task.id));
+
+            await tx.taskEvent.createMany({
+                data: tasks.map((task) => ({
+                    taskId: task.id,
+                    taskKey: formatTaskKey(task.project.key, task.number),
+                    actorId: user.id,
+                    type: "deleted",
+                    fromValue: task.name,
+                })),
+            });
+            await tx.task.deleteMany({ where: { id: { in: tasks.map((task) => task.id) } } });
+            return { failures, tasks };
+        });
+        await removeStoredFiles(tasks.flatMap((task) => task.attachments));
+        broadcastTaskChange("deleted", tasks);
+        revalidatePath("/tasks");
+        revalidatePath("/board");
+        return { error: null, failures };
+    } catch (e) {
+        return { error: "Failed to delete tasks.", failures: [] };
+    }
+}
+
+const EDIT_FORM_GUARD_HINTS: Record<MoveGuard, string> = {
+    wip_limit: "Move it from the board to override the limit.",
+    open_subtasks: "Close them first, or move the task from the board to close it anyway.",
+    blocked: "Finish its blockers first, or move it from the board to override.",
+};
+
+// Update a task with all fields.
+// The form submits the task version it was loaded with; if the task has changed since, nothing is saved
+// and `conflict` carries the current values for the form to merge with the user's.
+export async function updateTask(
+    taskId: number,
+    formData: FormData,
+): Promise<{ error: string | null; success: boolean; message?: string; conflict?: TaskEditConflict }> {
     const name = formData.get("title") as string; // form uses 'title' but model uses 'name'
     const description = formData.get("description") as string;
     const priority = formData.get("priority") as string;
@@ -88,42 +888,385 @@ export async function updateTask(taskId: number, formData: FormData) {
     const dueDate = formData.get("dueDate") as string;
     const assigneeIdRaw = formData.get("assigneeId") as string;
     const assigneeId = assigneeIdRaw ? parseInt(assigneeIdRaw, 10) : null;
+    const labels = await parseLabelIds(formData);
+    const files = getUploadedFiles(formData);
+    const version = parseInt(formData.get("version") as string, 10);
 
-    const user = await getCurrentUser();
-    if (!user) return { error: "Not authenticated.", success: false };
+    const { user, error } = await authorize("edit_tasks");
+    if (!user) return { error, success: false };
 
     if (!name) return { error: "Title is required.", success: false };
+    if (!(await isWorkflowStatus(status))) return { error: "Choose a valid status.", success: false };
+    if (Number.isNaN(version)) return { error: "Reload the task and try again.", success: false };
+
+    const uploadError = validateUploads(files);
+    if (uploadError) return { error: uploadError, success: false };
 
+    const current = await prisma.task.findFirst({
+        where: { id: taskId, project: { members: { some: { userId: user.id } } } },
+        select: { projectId: true },
+    });
+    if (!current) return { error: "Task not found.", success: false };
+    if (!(await isAssignable(prisma, current.projectId, assigneeId))) return { error: ASSIGNEE_ERROR, success: false };
+
+    const data = {
+        name,
+        description,
+        priority,
+        status,
+        dueDate: dueDate ? parseDateString(dueDate) : null,
+        assigneeId,
+    };
+
+    let stored: StoredFile[] = [];
     try {
-        await prisma.task.update({
-            where: { id: taskId },
-            data: {
-                name,
-                description,
-                priority,
-                status,
-                dueDate: dueDate ? parseDateString(dueDate) : null,
-                assigneeId,
-            },
+        stored = await storeFiles(files);
+        const { refused, conflict, task } = await prisma.$transaction(async (tx) => {
+            const before = await tx.task.findFirstOrThrow({
+                where: { id: taskId, project: { members: { some: { userId: user.id } } } },
+                include: { project: { select: { key: true } }, labels: { select: { id: true } } },
+            });
+            if (before.version !== version) {
+                const conflict: TaskEditConflict = { version: before.version, current: getEditableValues(before) };
+                return { refused: null, conflict, task: before };
+            }
+            // The edit form has no override prompt; guarded moves go through the board or task list
+            const guards = await checkMoveGuards(tx, before, status, []);
+            if (guards.refused) return { refused: guards.refused, conflict: null, task: before };
+
+            await tx.task.update({
+                where: { id: taskId, version },
+                data: {
+                    ...data,
+                    priorityWeight: getPriorityWeight(priority),
+                    labels: { set: labels },
+                    version: { increment: 1 },
+                },
+            });
+            await recordTaskChanges(tx, before, data, user.id);
+            await notifyTaskChanges(tx, before, data, user.id);
+            await notifyMentions(tx, before, before.description ?? "", data.description ?? "", user.id);
+            await recordAttachments(tx, taskId, stored, user.id);
+            return { refused: null, conflict: null, task: before };
         });
+        if (conflict) {
+            await removeStoredFiles(stored);
+            return { error: "Someone else changed this task while you were editing it.", success: false, conflict };
+        }
+        if (refused) {
+            await removeStoredFiles(stored);
+            return { error: `${refused.error} ${EDIT_FORM_GUARD_HINTS[refused.guard]}`, success: false };
+        }
+
+        broadcastTaskChange(status !== task.status ? "moved" : "updated", [task]);
         revalidatePath("/tasks");
+        revalidatePath(`/tasks/${taskId}`);
         return { error: null, success: true, message: "Task updated successfully!" };
     } catch (e) {
+        await removeStoredFiles(stored);
         return { error: "Failed to update task.", success: false };
     }
 }
 
-// Get team statistics
+// Get a single task with its comment thread and change history, limited to projects the user belongs to
+export async function getTask(taskId: number) {
+    const { user, error } = await authorize("view_tasks");
+    if (!user) return { task: null, error };
+
+    try {
+        const task = await prisma.task.findFirst({
+            where: { id: taskId, project: { members: { some: { userId: user.id } } } },
+            include: {
+                project: { select: { id: true, key: true, name: true } },
+                assignee: { select: { id: true, name: true, email: true } },
+                creator: { select: { id: true, name: true, email: true } },
+                parent: { select: { id: true, number: true, name: true, status: true } },
+                labels: { orderBy: { name: "asc" } },
+                attachments: {
+                    include: { uploader: { select: { id: true, name: true } } },
+                    orderBy: { createdAt: "asc" },
+                },
+                subtasks: {
+                    include: { assignee: { select: { id: true, name: true } } },
+                    orderBy: { createdAt: "asc" },
+                },
+                blockedBy: {
+                    include: { blocker: { include: { project: { select: { key: true } } } } },
+                    orderBy: { createdAt: "asc" },
+                },
+                blocking: {
+                    include: { blocked: { include: { project: { select: { key: true } } } } },
+                    orderBy: { createdAt: "asc" },
+                },
+                comments: {
+                    where: { parentId: null },
+                    include: {
+                        author: { select: { id: true, name: true } },
+                        replies: {
+                            include: { author: { select: { id: true, name: true } } },
+                            orderBy: { createdAt: "asc" },
+                        },
+                    },
+                    orderBy: { createdAt: "asc" },
+                },
+                events: {
+                    include: { actor: { select: { id: true, name: true } } },
+                    orderBy: { createdAt: "desc" },
+                },
+            },
+        });
+        return { task, error: null };
+    } catch (e) {
+        return { task: null, error: "Failed to fetch task." };
+    }
+}
+
+// Check or uncheck one checklist item in a task's description
+export async function toggleChecklistItem(taskId: number, index: number, checked: boolean) {
+    const { user, error } = await authorize("edit_tasks");
+    if (!user) return { error };
+
+    try {
+        const task = await prisma.$transaction(async (tx) => {
+            const before = await tx.task.findFirstOrThrow({
+                where: { id: taskId, project: { members: { some: { userId: user.id } } } },
+                include: { project: { select: { key: true } } },
+            });
+            const description = setChecklistItem(before.description, index, checked);
+            if (description === before.description) return null;
+
+            await tx.task.update({ where: { id: taskId }, data: { description, version: { increment: 1 } } });
+            await recordTaskChanges(tx, before, { description }, user.id);
+            return before;
+        });
+        if (task) broadcastTaskChange("updated", [task]);
+        revalidatePath(`/tasks/${taskId}`);
+        revalidatePath("/tasks");
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to update checklist." };
+    }
+}
+
+// Remove an attachment from a task and delete its file
+export async function deleteAttachment(attachmentId: number) {
+    const { user, error } = await authorize("edit_tasks");
+    if (!user) return { error };
+
+    try {
+        const attachment = await prisma.attachment.findFirst({
+            where: { id: attachmentId, task: { project: { members: { some: { userId: user.id } } } } },
+        });
+        if (!attachment) return { error: "Attachment not found." };
+
+        await prisma.attachment.delete({ where: { id: attachmentId } });
+        await removeStoredFiles([attachment]);
+        revalidatePath(`/tasks/${attachment.taskId}`);
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to delete attachment." };
+    }
+}
+
+// Tasks in the same project that can be linked to a task as a blocker or blocked task
+export async function getLinkableTasks(taskId: number) {
+    const { user } = await authorize("view_tasks");
+    if (!user) return [];
+
+    const task = await prisma.task.findFirst({
+        where: { id: taskId, project: { members: { some: { userId: user.id } } } },
+    });
+    if (!task) return [];
+
+    return prisma.task.findMany({
+        where: { projectId: task.projectId, id: { not: taskId } },
+        select: { id: true, number: true, name: true },
+        orderBy: { number: "asc" },
+    });
+}
+
+// Link two tasks so that `blockerId` blocks `blockedId`. Links that would form a cycle are rejected.
+export async function addDependency(blockerId: number, blockedId: number) {
+    const { user, error } = await authorize("edit_tasks");
+    if (!user) return { error };
+    if (blockerId === blockedId) return { error: "A task cannot block itself." };
+
+    try {
+        const tasks = await prisma.task.findMany({
+            where: { id: { in: [blockerId, blockedId] }, project: { members: { some: { userId: user.id } } } },
+            include: { project: { select: { key: true } } },
+        });
+        const blocker = tasks.find((task) => task.id === blockerId);
+        const blocked = tasks.find((task) => task.id === blockedId);
+        if (!blocker || !blocked) return { error: "Task not found." };
+
+        const refused = await prisma.$transaction(async (tx) => {
+            const existing = await tx.taskDependency.findUnique({
+                where: { blockerId_blockedId: { blockerId, blockedId } },
+            });
+            if (existing) return "These tasks are already linked.";
+
+            const edges = await tx.taskDependency.findMany({ select: { blockerId: true, blockedId: true } });
+            if (wouldCreateCycle(edges, blockerId, blockedId)) {
+                const blockerKey = formatTaskKey(blocker.project.key, blocker.number);
+                const blockedKey = formatTaskKey(blocked.project.key, blocked.number);
+                return `${blockedKey} already blocks ${blockerKey}, directly or through other tasks, so this link would create a cycle.`;
+            }
+
+            await tx.taskDependency.create({ data: { blockerId, blockedId } });
+            return null;
+        });
+        if (refused) return { error: refused };
+
+        broadcastTaskChange("updated", [blocker, blocked]);
+        revalidatePath(`/tasks/${blockerId}`);
+        revalidatePath(`/tasks/${blockedId}`);
+        revalidatePath("/tasks");
+        revalidatePath("/board");
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to link tasks." };
+    }
+}
+
+// Remove a "blocks" link between two tasks
+export async function removeDependency(blockerId: number, blockedId: number) {
+    const { user, error } = await authorize("edit_tasks");
+    if (!user) return { error };
+
+    try {
+        const tasks = await prisma.task.findMany({
+            where: { id: { in: [blockerId, blockedId] }, project: { members: { some: { userId: user.id } } } },
+        });
+        const { count } = await prisma.taskDependency.deleteMany({
+            where: {
+                blockerId,
+                blockedId,
+                blocked: { project: { members: { some: { userId: user.id } } } },
+            },
+        });
+        if (count > 0) broadcastTaskChange("updated", tasks);
+        revalidatePath(`/tasks/${blockerId}`);
+        revalidatePath(`/tasks/${blockedId}`);
+        revalidatePath("/tasks");
+        revalidatePath("/board");
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to remove link." };
+    }
+}
+
+// Add a comment to a task, optionally as a reply to another comment
+export async function addComment(taskId: number, formData: FormData) {
+    const body = (formData.get("body") as string)?.trim();
+    const parentIdRaw = formData.get("parentId") as string;
+    const parentId = parentIdRaw ? parseInt(parentIdRaw, 10) : null;
+
+    const { user, error } = await authorize("edit_tasks");
+    if (!user) return { error, success: false };
+
+    if (!body) return { error: "Comment cannot be empty.", success: false };
+
+    try {
+        const task = await prisma.task.findFirst({
+            where: { id: taskId, project: { members: { some: { userId: user.id } } } },
+            select: { id: true, projectId: true },
+        });
+        if (!task) return { error: "Task not found.", success: false };
+
+        // Threads are one level deep: replying to a reply attaches to its parent
+        let threadId: number | null = null;
+        if (parentId) {
+            const parent = await prisma.comment.findFirst({ where: { id: parentId, taskId } });
+            if (!parent) return { error: "Comment not found.", success: false };
+            threadId = parent.parentId ?? parent.id;
+        }
+
+        await prisma.$transaction(async (tx) => {
+            await tx.comment.create({
+                data: { body, taskId, authorId: user.id, parentId: threadId },
+            });
+            await notifyMentions(tx, task, "", body, user.id);
+        });
+        revalidatePath(`/tasks/${taskId}`);
+        return { error: null, success: true, message: "Comment added." };
+    } catch (e) {
+        return { error: "Failed to add comment.", success: false };
+    }
+}
+
+// Edit a comment; only its author may change it
+export async function updateComment(commentId: number, formData: FormData) {
+    const body = (formData.get("body") as string)?.trim();
+
+    const { user, error } = await authorize("edit_tasks");
+    if (!user) return { error, success: false };
+
+    if (!body) return { error: "Comment cannot be empty.", success: false };
+
+    try {
+        const comment = await prisma.comment.findUnique({
+            where: { id: commentId },
+            include: { task: { select: { id: true, projectId: true } } },
+        });
+        if (!comment) return { error: "Comment not found.", success: false };
+        if (comment.authorId !== user.id) return { error: "You can only edit your own comments.", success: false };
+
+        await prisma.$transaction(async (tx) => {
+            await tx.comment.update({
+                where: { id: commentId },
+                data: { body, editedAt: new Date() },
+            });
+            await notifyMentions(tx, comment.task, comment.body, body, user.id);
+        });
+        revalidatePath(`/tasks/${comment.taskId}`);
+        return { error: null, success: true, message: "Comment updated." };
+    } catch (e) {
+        return { error: "Failed to update comment.", success: false };
+    }
+}
+
+// Delete a comment and its replies; only its author may delete it
+export async function deleteComment(commentId: number) {
+    const { user, error } = await authorize("edit_tasks");
+    if (!user) return { error };
+
+    try {
+        const comment = await prisma.comment.findUnique({ where: { id: commentId } });
+        if (!comment) return { error: "Comment not found." };
+        if (comment.authorId !== user.id) return { error: "You can only delete your own comments." };
+
+        await prisma.comment.delete({ where: { id: commentId } });
+        revalidatePath(`/tasks/${comment.taskId}`);
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to delete comment." };
+    }
+}
+
+// Get team statistics for the projects the current user belongs to
 export async function getTeamStats() {
+    const { user, error } = await authorize("view_tasks");
+    if (!user) return { totalMembers: 0, openTasks: 0, tasksCompleted: 0, topPerformer: null, error };
+
+    const inUserProjects = { project: { members: { some: { userId: user.id } } } };
+
     try {
-        // Get total members count
-        const totalMembers = await prisma.user.count();
+        // Count everyone who shares a project with the user
+        const totalMembers = await prisma.user.count({
+            where: { projects: { some: inUserProjects } },
+        });
+
+        // Statuses count as open or completed by their workflow category
+        const statuses = await prisma.workflowStatus.findMany();
+        const doneStatuses = getStatusKeys(statuses, "done");
 
-        // Get open tasks count (todo, in_progress, review)
+        // Get open tasks count (not started or active)
         const openTasks = await prisma.task.count({
             where: {
+                ...inUserProjects,
                 status: {
-                    in: ["todo", "in_progress", "review"],
+                    notIn: doneStatuses,
                 },
             },
         });
@@ -131,36 +1274,22 @@ export async function getTeamStats() {
         // Get completed tasks count
         const tasksCompleted = await prisma.task.count({
             where: {
-                status: "done",
+                ...inUserProjects,
+                status: { in: doneStatuses },
             },
         });
 
-        // Get top performer (user with most completed tasks)
-        const topPerformer = await prisma.user.findFirst({
-            include: {
-                _count: {
-                    select: {
-                        assignedTasks: {
-                            where: {
-                                status: "done",
-                            }
-                        }
-                    }
-                }
-            },
-            orderBy: {
-                assignedTasks: {
-                    _count: "desc",
-                },
-            },
-            where: {
-                assignedTasks: {
-                    some: {
-                        status: "done",
-                    },
-                },
-            },
+        // Get top performer (assignee with most completed tasks in these projects)
+        const [top] = await prisma.task.groupBy({
+            by: ["assigneeId"],
+            where: { ...inUserProjects, assigneeId: { not: null }, status: { in: doneStatuses } },
+            _count: { _all: true },
+            orderBy: { _count: { assigneeId: "desc" } },
+            take: 1,
         });
+        const topPerformer = top
+            ? await prisma.user.findUnique({ where: { id: top.assigneeId! }, select: { name: true } })
+            : null;
 
         return {
             totalMembers,
@@ -169,7 +1298,7 @@ export async function getTeamStats() {
             topPerformer: topPerformer
                 ? {
                     name: topPerformer.name,
-                    completedCount: topPerformer._count.assignedTasks,
+                    completedCount: top._count._all,
                 }
                 : null,
             error: null,
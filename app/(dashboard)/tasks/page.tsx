@@ -1,19 +1,32 @@
 import { Suspense } from "react"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
-import { Plus, Search } from "lucide-react"
+import { Plus } from "lucide-react"
 import Link from "next/link"
 import { TaskList } from "@/components/task-list"
+import { TaskFilterBar } from "@/components/task-filter-bar"
 import { poppins } from "@/lib/fonts"
+import { hasActiveFilters, parseTaskFilters, type TaskSearchParams } from "@/lib/task-filters"
+import { can } from "@/lib/permissions"
 
-import { getAllTasks } from "@/app/(dashboard)/tasks/actions"
+import { getTaskPage } from "@/app/(dashboard)/tasks/actions"
+import { getWorkflowStatuses } from "@/app/(dashboard)/settings/workflow/actions"
+import { getLabels } from "@/app/(dashboard)/settings/labels/actions"
+import { getCurrentUser } from "@/app/login/actions"
+import { getProjectMembers } from "@/app/(dashboard)/projects/actions"
 
 export const revalidate = 0
 
 
-export default async function TasksPage() {
-    const { tasks, error } = await getAllTasks();
-    if (error) {
+export default async function TasksPage({ searchParams }: { searchParams: Promise<TaskSearchParams> }) {
+    const filters = parseTaskFilters(await searchParams)
+    const [{ tasks, nextCursor, error }, statuses, users, labels, currentUser] = await Promise.all([
+        getTaskPage(filters, null),
+        getWorkflowStatuses(),
+        getProjectMembers(),
+        getLabels(),
+        getCurrentUser(),
+    ]);
+    if (error || !currentUser) {
         console.error("Error fetching data:", error)
         return <p className="p-8">Could not load data. Please try again later.</p>
     }
@@ -22,17 +35,35 @@ export default async function TasksPage() {
         <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
             <div className="flex items-center justify-between">
                 <h2 className={`text-3xl font-bold tracking-tight ${poppins.className}`}>Tasks</h2>
-                <Link href="/tasks/new">
-                    <Button>
-                        <Plus className="mr-2 h-4 w-4" />
-                        New Task
-                    </Button>
-                </Link>
+                {can(currentUser, "edit_tasks") && (
+                    <Link href="/tasks/new">
+                        <Button>
+                            <Plus className="mr-2 h-4 w-4" />
+                            New Task
+                        </Button>
+                    </Link>
+                )}
             </div>
 
-            <Suspense fallback={<div>Loading tasks...</div>}>
-                <TaskList initialTasks={tasks || []} />
-            </Suspense>
+            <TaskFilterBar filters={filters} statuses={statuses} users={users} labels={labels} />
+
+            {tasks.length === 0 && hasActiveFilters(filters) ? (
+                <p className="text-sm text-muted-foreground">No tasks match these filters.</p>
+            ) : (
+                <Suspense fallback={<div>Loading tasks...</div>}>
+                    {/* Keyed by the filters so loaded pages reset when they change */}
+                    <TaskList
+                        key={JSON.stringify(filters)}
+                        initialTasks={tasks}
+                        initialCursor={nextCursor}
+                        filters={filters}
+                        statuses={statuses}
+                        users={users}
+                        labels={labels}
+                        currentUser={{ id: currentUser.id, role: currentUser.role }}
+                    />
+                </Suspense>
+            )}
         </div>
     )
 }
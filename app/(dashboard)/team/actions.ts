@@ -0,0 +1,27 @@
+"use server";
+
+import { PrismaClient } from "@/app/generated/prisma";
+import { revalidatePath } from "next/cache";
+import { authorize } from "@/lib/authorization";
+import { getAssignableRoles, isRole } from "@/lib/permissions";
+const prisma = new PrismaClient();
+
+// Change a teammate's workspace role. Owners and admins can do this for anyone but the owner and themselves.
+// Roles are read on every request, so the change applies to the teammate's open sessions straight away.
+export async function updateMemberRole(userId: number, role: string) {
+    const { user, error } = await authorize("manage_members");
+    if (!user) return { error };
+    if (!isRole(role)) return { error: "Choose a valid role." };
+
+    try {
+        const member = await prisma.user.findUnique({ where: { id: userId }, select: { id: true, role: true } });
+        if (!member) return { error: "User not found." };
+        if (!getAssignableRoles(user, member).includes(role)) return { error: "You can't give this person that role." };
+
+        await prisma.user.update({ where: { id: userId }, data: { role } });
+        revalidatePath("/team");
+        return { error: null };
+    } catch (e) {
+        return { error: "Failed to change role." };
+    }
+}
@@ -6,12 +6,16 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Avatar } from "@radix-ui/react-avatar";
 import { Mail } from "lucide-react";
 import { poppins } from "@/lib/fonts";
+import { MemberRoleSelect } from "@/components/member-role-select";
+import { getCurrentUser } from "@/app/login/actions";
+import { getAssignableRoles } from "@/lib/permissions";
 
 export default async function TeamPage() {
     const prisma = new PrismaClient();
     const users = await prisma.user.findMany({
         orderBy: { name: "asc" },
     });
+    const currentUser = await getCurrentUser();
 
     return (
         <div className="p-8">
@@ -36,6 +40,11 @@ export default async function TeamPage() {
                             </div>
 
                             <div className="flex items-center space-x-2">
+                                <MemberRoleSelect
+                                    userId={user.id}
+                                    role={user.role}
+                                    assignableRoles={currentUser ? getAssignableRoles(currentUser, user) : []}
+                                />
                                 <Button variant="outline" size="sm" asChild>
                                     <a href={`mailto:${user.email}`}>
                                         <Mail className="h-4 w-4 mr-2" />
@@ -0,0 +1,37 @@
+import { PrismaClient } from "@/app/generated/prisma/client";
+import { getCurrentUser } from "@/app/login/actions";
+import { isImageAttachment } from "@/lib/attachments";
+import { getFileStorage } from "@/lib/storage";
+
+const prisma = new PrismaClient();
+
+// Serve an attachment's file to members of the task's project
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const user = await getCurrentUser();
+    if (!user) return new Response("Not authenticated.", { status: 401 });
+
+    const { id } = await params;
+    const attachmentId = Number.parseInt(id);
+    if (Number.isNaN(attachmentId)) return new Response("Attachment not found.", { status: 404 });
+
+    // Attachments outside the user's projects look the same as missing ones
+    const attachment = await prisma.attachment.findFirst({
+        where: { id: attachmentId, task: { project: { members: { some: { userId: user.id } } } } },
+    });
+    if (!attachment) return new Response("Attachment not found.", { status: 404 });
+
+    const data = await getFileStorage().get(attachment.storageKey);
+    if (!data) return new Response("Attachment not found.", { status: 404 });
+
+    // Only images open in the browser; everything else is downloaded
+    const disposition = isImageAttachment(attachment.contentType) ? "inline" : "attachment";
+    return new Response(new Uint8Array(data), {
+        headers: {
+            "Content-Type": attachment.contentType,
+            "Content-Length": attachment.size.toString(),
+            "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+            "X-Content-Type-Options": "nosniff",
+            "Cache-Control": "private, max-age=0, must-revalidate",
+        },
+    });
+}
@@ -0,0 +1,18 @@
+import { deliverOutbox } from "@/lib/outbox";
+import { queueDailyDigests } from "@/lib/notification-emails";
+import { createAllDueSoonNotifications } from "@/lib/due-soon";
+
+// Run by a scheduler (e.g. every few minutes) to create due-soon reminders, queue daily digests and
+// retry failed emails.
+// Requires "Authorization: Bearer <CRON_SECRET>"; without CRON_SECRET set the route is disabled.
+export async function POST(request: Request) {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+        return new Response("Unauthorized.", { status: 401 });
+    }
+
+    const dueSoon = await createAllDueSoonNotifications();
+    const digests = await queueDailyDigests();
+    const { sent, failed } = await deliverOutbox();
+    return Response.json({ dueSoon, digests, sent, failed });
+}
@@ -0,0 +1,81 @@
+import { PrismaClient } from "@/app/generated/prisma/client";
+import type { TaskChange } from "@/lib/live-updates";
+import { isSessionExpired } from "@/lib/sessions";
+import { getSession } from "@/lib/session-store";
+import { subscribeTaskChanges } from "@/lib/task-broadcast";
+
+const prisma = new PrismaClient();
+
+// Comment lines keep proxies from closing an idle stream; each one also re-checks the session
+const HEARTBEAT_MS = 25_000;
+
+export const dynamic = "force-dynamic";
+
+// Server-sent events stream of task changes in the user's projects, used by the board and task list
+export async function GET(request: Request) {
+    const session = await getSession();
+    if (!session) return new Response("Not authenticated.", { status: 401 });
+    const user = session.user;
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            const send = (text: string) => {
+                try {
+                    controller.enqueue(encoder.encode(text));
+                } catch (e) {
+                    // The client went away between the event and the write
+                    cleanup();
+                }
+            };
+
+            // Membership is checked per event, so leaving a project stops its updates right away
+            // Nothing awaits these callbacks, so a failed lookup ends the stream and the client reconnects
+            const unsubscribe = subscribeTaskChanges(async (change: TaskChange) => {
+                try {
+                    const membership = await prisma.projectMember.findUnique({
+                        where: { projectId_userId: { projectId: change.projectId, userId: user.id } },
+                    });
+                    if (membership) send(`event: task\ndata: ${JSON.stringify(change)}\n\n`);
+                } catch (e) {
+                    cleanup();
+                }
+            });
+            // A signed-out, revoked or expired session stops receiving updates
+            const heartbeat = setInterval(async () => {
+                try {
+                    const current = await prisma.session.findUnique({ where: { id: session.id } });
+                    if (!current || isSessionExpired(current)) cleanup();
+                    else send(": keep-alive\n\n");
+                } catch (e) {
+                    cleanup();
+                }
+            }, HEARTBEAT_MS);
+
+            cleanup = () => {
+                unsubscribe();
+                clearInterval(heartbeat);
+                try {
+                    controller.close();
+                } catch (e) {
+                    // Already closed
+                }
+            };
+            request.signal.addEventListener("abort", () => cleanup());
+            send(": connected\n\n");
+        },
+        cancel() {
+            cleanup();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+        },
+    });
+}
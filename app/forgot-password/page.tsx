@@ -0,0 +1,56 @@
+"use client";
+
+import { useActionState } from "react";
+import Link from "next/link";
+import { requestPasswordReset } from "@/app/reset-password/actions";
+import { AuthCard } from "@/components/auth-card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+type ActionState = {
+    error: string | null;
+    success: boolean;
+    message?: string;
+};
+
+const initialState: ActionState = { error: null, success: false };
+
+async function requestPasswordResetAction(prevState: ActionState, formData: FormData): Promise<ActionState> {
+    return requestPasswordReset(formData);
+}
+
+export default function ForgotPasswordPage() {
+    const [state, formAction, isPending] = useActionState(requestPasswordResetAction, initialState);
+
+    return (
+        <AuthCard description="Enter your email and we'll send you a link to choose a new password">
+            {state.success ? (
+                <div className="space-y-4 text-center">
+                    <p className="text-sm">{state.message}</p>
+                    <Link href="/login" className="text-sm text-primary hover:underline">
+                        Back to log in
+                    </Link>
+                </div>
+            ) : (
+                <form className="space-y-4" action={formAction}>
+                    <div className="space-y-2">
+                        <Label htmlFor="email">Email</Label>
+                        <Input id="email" name="email" type="email" placeholder="m@example.com" required />
+                    </div>
+
+                    {state.error && <div className="text-red-500 text-sm text-center">{state.error}</div>}
+
+                    <Button className="w-full" disabled={isPending}>
+                        {isPending ? "Sending..." : "Send Reset Link"}
+                    </Button>
+                    <p className="text-center text-sm">
+                        <Link href="/login" className="text-primary hover:underline">
+                            Back to log in
+                        </Link>
+                    </p>
+                </form>
+            )}
+        </AuthCard>
+    );
+}
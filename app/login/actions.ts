@@ -1,9 +1,11 @@
 "use server"
 
-import { cookies } from "next/headers";
 import { PrismaClient } from "@/app/generated/prisma";
 import bcrypt from "bcryptjs";
-import { randomBytes } from "crypto";
+import { createSession, endSession, getClientInfo, getSession } from "@/lib/session-store";
+import { beginLoginAttempt, finishLoginAttempt } from "@/lib/login-attempts";
+import { describeThrottle } from "@/lib/login-throttle";
+import { getSecondStep, SECOND_STEP_PATHS, startLoginChallenge } from "@/lib/login-challenge";
 
 const prisma = new PrismaClient();
 
@@ -13,48 +15,43 @@ export async function login(formData: FormData) {
     if (!email) return { error: "Email is required." };
     if (!password) return { error: "Password is required." };
 
+    // Repeated failures for this email or from this address have to wait before the password is checked.
+    // The attempt is saved first, so sending many at once doesn't get around the wait.
     const user = await prisma.user.findUnique({ where: { email } });
-    if (!user) {
+    const { attemptId, throttle } = await beginLoginAttempt({ email, userId: user?.id ?? null, ...(await getClientInfo()) });
+    if (throttle) return { error: describeThrottle(throttle) };
+
+    const valid = user ? await bcrypt.compare(password, user.password) : false;
+    if (!user || !valid) {
+        await finishLoginAttempt(attemptId, "failed");
         return { error: "Invalid email or password." };
     }
-    const valid = await bcrypt.compare(password, user.password);
-    if (!valid) {
-        return { error: "Invalid email or password." };
+
+    const { redirect } = await import("next/navigation");
+    // With two-factor, the session waits for the code. The attempt isn't recorded as a success yet,
+    // so a known password doesn't reset the limit on guessing codes.
+    const secondStep = await getSecondStep(user);
+    if (secondStep) {
+        await finishLoginAttempt(attemptId, "pending");
+        await startLoginChallenge(user.id);
+        redirect(SECOND_STEP_PATHS[secondStep]);
     }
-    // Simple session: set a cookie with a random token
-    const sessionToken = randomBytes(32).toString("hex");
-    await prisma.session.create({
-        data: {
-            token: sessionToken,
-            userId: user.id,
-        },
-    });
-    const cookieStore = await cookies();
-    cookieStore.set("session", sessionToken, { httpOnly: true, path: "/" });
+
+    await finishLoginAttempt(attemptId, "succeeded");
+    await createSession(user.id);
     // Redirect to /home after successful login
-    const { redirect } = await import("next/navigation");
     redirect("/");
 }
 
 export async function logout() {
-    const cookieStore = await cookies();
-    const sessionToken = cookieStore.get("session")?.value;
-    if (sessionToken) {
-        await prisma.session.deleteMany({ where: { token: sessionToken } });
-        cookieStore.set("session", "", { maxAge: 0, path: "/" });
-    }
+    await endSession();
     const { redirect } = await import("next/navigation");
     redirect("/login");
 }
 
+// The signed-in user, or null when the session is missing, expired or revoked
 export async function getCurrentUser() {
-    const cookieStore = await cookies();
-    const sessionToken = cookieStore.get("session")?.value;
-    if (!sessionToken) return null;
-    const session = await prisma.session.findUnique({
-        where: { token: sessionToken },
-        include: { user: true },
-    });
+    const session = await getSession();
     return session?.user || null;
 }
 
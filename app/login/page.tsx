@@ -54,7 +54,12 @@ export default function LoginPage() {
                             />
                         </div>
                         <div className="space-y-2">
-                            <Label htmlFor="password">Password</Label>
+                            <div className="flex items-center justify-between">
+                                <Label htmlFor="password">Password</Label>
+                                <a href="/forgot-password" className="text-sm text-primary hover:underline">
+                                    Forgot password?
+                                </a>
+                            </div>
                             <Input
                                 id="password"
                                 name="password"
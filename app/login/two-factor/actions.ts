@@ -0,0 +1,59 @@
+"use server"
+
+import { beginLoginAttempt, finishLoginAttempt } from "@/lib/login-attempts";
+import { completeLoginChallenge, getLoginChallengeUser } from "@/lib/login-challenge";
+import { describeThrottle } from "@/lib/login-throttle";
+import { getClientInfo } from "@/lib/session-store";
+import { enableTwoFactor, verifySecondFactor } from "@/lib/two-factor-store";
+
+const EXPIRED_ERROR = "Your sign-in has expired. Log in again.";
+
+// Wrong codes count as failed sign-ins, so guessing codes is rate limited like guessing passwords
+async function beginCodeAttempt(user: { id: number; email: string }) {
+    const { attemptId, throttle } = await beginLoginAttempt({ email: user.email, userId: user.id, ...(await getClientInfo()) });
+    return throttle ? { attemptId: null, error: describeThrottle(throttle) } : { attemptId, error: null };
+}
+
+// Finish signing in with a code from the user's authenticator app, or one of their recovery codes
+export async function verifyLoginCode(formData: FormData) {
+    const code = (formData.get("code") as string)?.trim();
+    if (!code) return { error: "Enter the code from your authenticator app." };
+
+    const user = await getLoginChallengeUser();
+    if (!user) return { error: EXPIRED_ERROR };
+
+    const { attemptId, error } = await beginCodeAttempt(user);
+    if (attemptId === null) return { error };
+
+    const factor = await verifySecondFactor(user.id, code);
+    await finishLoginAttempt(attemptId, factor ? "succeeded" : "failed");
+    if (!factor) return { error: "That code didn't work. Check your authenticator app and try again." };
+    if (!(await completeLoginChallenge())) return { error: EXPIRED_ERROR };
+
+    const { redirect } = await import("next/navigation");
+    redirect("/");
+}
+
+// Set up two-factor while signing in, when the workspace requires it. Signs the user in and returns
+// their recovery codes to show once.
+export async function confirmLoginEnrollment(formData: FormData): Promise<{ error: string | null; recoveryCodes?: string[] }> {
+    const code = (formData.get("code") as string)?.trim();
+    if (!code) return { error: "Enter the code from your authenticator app." };
+
+    const user = await getLoginChallengeUser();
+    if (!user) return { error: EXPIRED_ERROR };
+
+    const { attemptId, error } = await beginCodeAttempt(user);
+    if (attemptId === null) return { error };
+
+    try {
+        const recoveryCodes = await enableTwoFactor(user.id, code);
+        await finishLoginAttempt(attemptId, recoveryCodes ? "succeeded" : "failed");
+        if (!recoveryCodes) return { error: "That code didn't work. Check the code in your authenticator app and try again." };
+        if (!(await completeLoginChallenge())) return { error: EXPIRED_ERROR };
+
+        return { error: null, recoveryCodes };
+    } catch (e) {
+        return { error: "Failed to set up two-factor authentication." };
+    }
+}
@@ -0,0 +1,24 @@
+import { redirect } from "next/navigation"
+import Link from "next/link"
+import { AuthCard } from "@/components/auth-card"
+import { TwoFactorLoginForm } from "@/components/two-factor-login-form"
+import { getLoginChallengeUser } from "@/lib/login-challenge"
+
+export const revalidate = 0
+
+export default async function TwoFactorLoginPage() {
+    const user = await getLoginChallengeUser()
+    if (!user) redirect("/login")
+    if (!user.totpEnabledAt) redirect("/login/two-factor/setup")
+
+    return (
+        <AuthCard description="Enter the code from your authenticator app to finish signing in">
+            <TwoFactorLoginForm />
+            <p className="mt-4 text-center text-sm">
+                <Link href="/login" className="text-primary hover:underline">
+                    Back to log in
+                </Link>
+            </p>
+        </AuthCard>
+    )
+}
@@ -0,0 +1,29 @@
+import { redirect } from "next/navigation"
+import Link from "next/link"
+import { AuthCard } from "@/components/auth-card"
+import { Button } from "@/components/ui/button"
+import { TwoFactorSetupForm } from "@/components/two-factor-setup-form"
+import { confirmLoginEnrollment } from "@/app/login/two-factor/actions"
+import { getLoginChallengeUser } from "@/lib/login-challenge"
+import { getEnrollment } from "@/lib/two-factor-store"
+
+export const revalidate = 0
+
+// Reached from login or signup when the workspace requires two-factor and the user hasn't set it up
+export default async function TwoFactorSetupPage() {
+    const user = await getLoginChallengeUser()
+    if (!user) redirect("/login")
+    if (user.totpEnabledAt) redirect("/login/two-factor")
+
+    const enrollment = await getEnrollment(user)
+
+    return (
+        <AuthCard description="Your workspace requires two-factor authentication. Set it up to finish signing in.">
+            <TwoFactorSetupForm enrollment={enrollment} action={confirmLoginEnrollment}>
+                <Button asChild className="w-full">
+                    <Link href="/">Continue to TaskFlow</Link>
+                </Button>
+            </TwoFactorSetupForm>
+        </AuthCard>
+    )
+}
@@ -0,0 +1,65 @@
+"use server"
+
+import { PrismaClient } from "@/app/generated/prisma";
+import bcrypt from "bcryptjs";
+import { redeemAuthToken, reservePasswordResetRequest, sendAuthTokenEmail } from "@/lib/auth-token-store";
+import { recordLoginAttempt } from "@/lib/login-attempts";
+import { getClientInfo } from "@/lib/session-store";
+
+const prisma = new PrismaClient();
+
+// Email a password reset link. The reply is the same whether or not the address has an account,
+// so the form can't be used to find out who has signed up.
+export async function requestPasswordReset(formData: FormData) {
+    const email = (formData.get("email") as string)?.trim();
+    if (!email) return { error: "Email is required.", success: false };
+
+    try {
+        const { ipAddress } = await getClientInfo();
+        if (!(await reservePasswordResetRequest(email, ipAddress))) {
+            return { error: "Too many reset requests. Check your inbox for the links already sent, or try again in an hour.", success: false };
+        }
+
+        const user = await prisma.user.findUnique({ where: { email } });
+        if (user) {
+            await prisma.$transaction((tx) => sendAuthTokenEmail(tx, user, "password_reset"));
+        }
+        return { error: null, success: true, message: "If an account uses that email, we've sent it a link to reset the password." };
+    } catch (e) {
+        return { error: "Failed to send the reset email.", success: false };
+    }
+}
+
+// Set a new password with the token from a reset email, then sign the user out everywhere
+export async function resetPassword(formData: FormData) {
+    const token = formData.get("token") as string;
+    const password = formData.get("password") as string;
+    const confirmPassword = formData.get("confirmPassword") as string;
+    if (!token) return { error: "This reset link is incomplete. Ask for a new one.", success: false };
+    if (!password) return { error: "Password is required.", success: false };
+    if (password !== confirmPassword) return { error: "The passwords don't match.", success: false };
+
+    try {
+        const hashed = await bcrypt.hash(password, 10);
+        const user = await prisma.$transaction(async (tx) => {
+            const userId = await redeemAuthToken(tx, "password_reset", token);
+            if (!userId) return null;
+
+            const now = new Date();
+            const user = await tx.user.update({ where: { id: userId }, data: { password: hashed } });
+            // Following the emailed link shows the user owns the address
+            await tx.user.updateMany({ where: { id: userId, emailVerifiedAt: null }, data: { emailVerifiedAt: now } });
+            // A reset is often because someone else got in, so every existing session ends
+            await tx.session.deleteMany({ where: { userId } });
+            return user;
+        });
+        if (!user) return { error: "This reset link has expired or was already used. Ask for a new one.", success: false };
+
+        // Counts as a successful sign-in, so a lockout from failed attempts ends with the reset
+        await recordLoginAttempt({ email: user.email, userId: user.id, ...(await getClientInfo()), succeeded: true });
+
+        return { error: null, success: true, message: "Your password has been changed. Log in with your new password." };
+    } catch (e) {
+        return { error: "Failed to reset password.", success: false };
+    }
+}
@@ -0,0 +1,27 @@
+import Link from "next/link"
+import { AuthCard } from "@/components/auth-card"
+import { ResetPasswordForm } from "@/components/reset-password-form"
+import { isAuthTokenValid } from "@/lib/auth-token-store"
+
+export const revalidate = 0
+
+export default async function ResetPasswordPage({ searchParams }: { searchParams: Promise<{ token?: string }> }) {
+    const { token } = await searchParams
+    // Checked up front so a stale link says so before the user types a new password
+    const valid = token ? await isAuthTokenValid("password_reset", token) : false
+
+    return (
+        <AuthCard description="Choose a new password for your account">
+            {token && valid ? (
+                <ResetPasswordForm token={token} />
+            ) : (
+                <div className="space-y-4 text-center">
+                    <p className="text-sm text-red-600">This reset link has expired or was already used.</p>
+                    <Link href="/forgot-password" className="text-sm text-primary hover:underline">
+                        Send a new link
+                    </Link>
+                </div>
+            )}
+        </AuthCard>
+    )
+}
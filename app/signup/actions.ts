@@ -1,9 +1,11 @@
 "use server"
 
-import { cookies } from "next/headers";
 import { PrismaClient } from "@/app/generated/prisma";
 import bcrypt from "bcryptjs";
-import { randomBytes } from "crypto";
+import { createSession } from "@/lib/session-store";
+import { sendAuthTokenEmail } from "@/lib/auth-token-store";
+import { SECOND_STEP_PATHS, startLoginChallenge } from "@/lib/login-challenge";
+import { isTwoFactorRequired } from "@/lib/two-factor-store";
 
 const prisma = new PrismaClient();
 
@@ -19,24 +21,29 @@ export async function signup(formData: FormData) {
     if (existing) return { error: "User already exists." };
 
     const hashed = await bcrypt.hash(password, 10);
-    const user = await prisma.user.create({
-        data: {
-            email,
-            password: hashed,
-            name: name || "User",
-        },
+    // The first account owns the workspace; later sign-ups join as members
+    const isFirstUser = (await prisma.user.count()) === 0;
+    const user = await prisma.$transaction(async (tx) => {
+        const user = await tx.user.create({
+            data: {
+                email,
+                password: hashed,
+                name: name || "User",
+                role: isFirstUser ? "owner" : "member",
+            },
+        });
+        // The account works straight away; the email asks them to confirm the address is theirs
+        await sendAuthTokenEmail(tx, user, "email_verification");
+        return user;
     });
-    // Log them in: create session and set cookie
-    const sessionToken = randomBytes(32).toString("hex");
-    await prisma.session.create({
-        data: {
-            token: sessionToken,
-            userId: user.id,
-        },
-    });
-    const cookieStore = await cookies();
-    cookieStore.set("session", sessionToken, { httpOnly: true, path: "/" });
-    // Redirect to /home after successful signup
     const { redirect } = await import("next/navigation");
+    // When the workspace requires two-factor, new accounts set it up before their first session
+    if (await isTwoFactorRequired()) {
+        await startLoginChallenge(user.id);
+        redirect(SECOND_STEP_PATHS.setup);
+    }
+    // Log them in
+    await createSession(user.id);
+    // Redirect to /home after successful signup
     redirect("/");
 }
\ No newline at end of file
@@ -0,0 +1,25 @@
+"use server"
+
+import { PrismaClient } from "@/app/generated/prisma";
+import { redeemAuthToken } from "@/lib/auth-token-store";
+
+const prisma = new PrismaClient();
+
+// Mark an email address as confirmed with the token from a verification email
+export async function verifyEmail(formData: FormData) {
+    const token = formData.get("token") as string;
+    if (!token) return { error: "This confirmation link is incomplete.", success: false };
+
+    try {
+        const userId = await prisma.$transaction(async (tx) => {
+            const userId = await redeemAuthToken(tx, "email_verification", token);
+            if (userId) await tx.user.update({ where: { id: userId }, data: { emailVerifiedAt: new Date() } });
+            return userId;
+        });
+        if (!userId) return { error: "This confirmation link has expired or was already used.", success: false };
+
+        return { error: null, success: true, message: "Your email address is confirmed." };
+    } catch (e) {
+        return { error: "Failed to confirm email address.", success: false };
+    }
+}
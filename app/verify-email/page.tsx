@@ -0,0 +1,26 @@
+import Link from "next/link"
+import { AuthCard } from "@/components/auth-card"
+import { VerifyEmailForm } from "@/components/verify-email-form"
+import { isAuthTokenValid } from "@/lib/auth-token-store"
+
+export const revalidate = 0
+
+export default async function VerifyEmailPage({ searchParams }: { searchParams: Promise<{ token?: string }> }) {
+    const { token } = await searchParams
+    const valid = token ? await isAuthTokenValid("email_verification", token) : false
+
+    return (
+        <AuthCard description="Confirm the email address for your TaskFlow account">
+            {token && valid ? (
+                <VerifyEmailForm token={token} />
+            ) : (
+                <div className="space-y-4 text-center">
+                    <p className="text-sm text-red-600">This confirmation link has expired or was already used.</p>
+                    <Link href="/settings/security" className="text-sm text-primary hover:underline">
+                        Send a new link from your security settings
+                    </Link>
+                </div>
+            )}
+        </AuthCard>
+    )
+}
@@ -0,0 +1,14 @@
+import { Input } from "@/components/ui/input"
+import { ATTACHMENT_TYPES, formatFileSize, MAX_ATTACHMENT_SIZE, MAX_ATTACHMENTS_PER_UPLOAD } from "@/lib/attachments"
+
+// File picker for task forms. The limits are only hints here; the server checks them again.
+export function AttachmentInput() {
+  return (
+    <>
+      <Input id="attachments" name="attachments" type="file" multiple accept={ATTACHMENT_TYPES.join(",")} />
+      <p className="text-xs text-muted-foreground">
+        Images, PDF, text, CSV or ZIP. Up to {MAX_ATTACHMENTS_PER_UPLOAD} files, {formatFileSize(MAX_ATTACHMENT_SIZE)} each.
+      </p>
+    </>
+  )
+}
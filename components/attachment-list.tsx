@@ -0,0 +1,78 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { Button } from "@/components/ui/button"
+import { FileText, X } from "lucide-react"
+import { deleteAttachment } from "@/app/(dashboard)/tasks/actions"
+import { formatFileSize, isImageAttachment } from "@/lib/attachments"
+
+import type { Attachment, User } from "@/app/generated/prisma/client";
+
+type TaskAttachment = Attachment & {
+  uploader: Pick<User, "id" | "name">;
+};
+
+// Files attached to a task. Images show a thumbnail; every file links to the download route.
+// Only users who can edit tasks get the delete buttons.
+export function AttachmentList({ attachments, canEdit }: { attachments: TaskAttachment[]; canEdit: boolean }) {
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const handleDelete = (attachmentId: number) => {
+    setError(null)
+    startTransition(async () => {
+      const result = await deleteAttachment(attachmentId)
+      if (result.error) setError(result.error)
+    })
+  }
+
+  if (attachments.length === 0) {
+    return <p className="text-sm text-muted-foreground">{canEdit ? "No attachments. Add files by editing the task." : "No attachments."}</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="grid gap-3 sm:grid-cols-2">
+        {attachments.map((attachment) => {
+          const href = `/api/attachments/${attachment.id}`
+          return (
+            <li key={attachment.id} className="flex items-center gap-3 rounded-md border p-2">
+              <a href={href} target="_blank" rel="noopener noreferrer" className="shrink-0">
+                {isImageAttachment(attachment.contentType) ? (
+                  // Served by the authenticated route, so next/image's optimizer cannot fetch it
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={href} alt={attachment.fileName} className="h-12 w-12 rounded object-cover" />
+                ) : (
+                  <span className="flex h-12 w-12 items-center justify-center rounded bg-muted">
+                    <FileText className="h-5 w-5 text-muted-foreground" />
+                  </span>
+                )}
+              </a>
+              <div className="min-w-0 flex-1 text-sm">
+                <a href={href} download={attachment.fileName} className="block truncate font-medium hover:underline">
+                  {attachment.fileName}
+                </a>
+                <p className="text-xs text-muted-foreground">
+                  {formatFileSize(attachment.size)} · {attachment.uploader.name}
+                </p>
+              </div>
+              {canEdit && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  disabled={isPending}
+                  onClick={() => handleDelete(attachment.id)}
+                  aria-label={`Delete ${attachment.fileName}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+      {error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">{error}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { CheckSquare } from "lucide-react"
+
+// The centred TaskFlow card that signed-out pages (password reset, email confirmation) are laid out in
+export function AuthCard({ description, children }: { description: string; children: React.ReactNode }) {
+  return (
+    <div className="flex items-center justify-center min-h-screen">
+      <Card className="w-sm">
+        <CardHeader className="text-center">
+          <div className="flex justify-center items-center mb-4">
+            <CheckSquare className="h-8 w-8 mr-2 text-primary" />
+            <CardTitle className="text-2xl">TaskFlow</CardTitle>
+          </div>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        <CardContent>{children}</CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+import { Ban } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+
+// Marks a task that waits on an unfinished blocker
+export function BlockedBadge({ className }: { className?: string }) {
+  return (
+    <Badge variant="destructive" className={cn("gap-1", className)}>
+      <Ban className="h-3 w-3" />
+      Blocked
+    </Badge>
+  )
+}
@@ -0,0 +1,41 @@
+"use client"
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { SWIMLANE_FIELDS, SWIMLANE_LABELS, type SwimlaneField } from "@/lib/swimlanes"
+
+const NO_GROUPING = "none"
+
+// Choose how the board is split into swimlanes; the choice lives in the "group" search param
+export function BoardGroupSelect({ groupBy }: { groupBy: SwimlaneField | null }) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const handleChange = (value: string) => {
+    const params = new URLSearchParams(searchParams.toString())
+    if (value === NO_GROUPING) {
+      params.delete("group")
+    } else {
+      params.set("group", value)
+    }
+    const query = params.toString()
+    router.push(query ? `${pathname}?${query}` : pathname)
+  }
+
+  return (
+    <Select value={groupBy ?? NO_GROUPING} onValueChange={handleChange}>
+      <SelectTrigger className="w-48" aria-label="Group board by">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_GROUPING}>No swimlanes</SelectItem>
+        {SWIMLANE_FIELDS.map((field) => (
+          <SelectItem key={field} value={field}>
+            Group by {SWIMLANE_LABELS[field].toLowerCase()}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,42 @@
+"use client"
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+import type { Label } from "@/app/generated/prisma/client"
+
+const ALL_LABELS = "all"
+
+// Show only cards with a label; the choice lives in the "label" search param, as on the task list
+export function BoardLabelSelect({ labelId, labels }: { labelId: string | null; labels: Label[] }) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  const handleChange = (value: string) => {
+    const params = new URLSearchParams(searchParams.toString())
+    if (value === ALL_LABELS) {
+      params.delete("label")
+    } else {
+      params.set("label", value)
+    }
+    const query = params.toString()
+    router.push(query ? `${pathname}?${query}` : pathname)
+  }
+
+  return (
+    <Select value={labelId ?? ALL_LABELS} onValueChange={handleChange}>
+      <SelectTrigger className="w-40" aria-label="Filter board by label">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_LABELS}>Any label</SelectItem>
+        {labels.map((label) => (
+          <SelectItem key={label.id} value={label.id.toString()}>
+            {label.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,116 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Trash2, X } from "lucide-react"
+import { PRIORITIES } from "@/lib/priority"
+import type { BulkTaskChanges } from "@/lib/types"
+
+import type { User, WorkflowStatus } from "@/app/generated/prisma/client";
+
+const UNASSIGNED = "none"
+
+// Actions applied to every selected task in the task list. Delete is left out when `onDelete` is,
+// e.g. when the selection includes tasks the user may not delete.
+export function BulkActionBar({
+  count,
+  statuses,
+  users,
+  disabled,
+  error,
+  onUpdate,
+  onDelete,
+  onClear,
+}: {
+  count: number
+  statuses: WorkflowStatus[]
+  users: Pick<User, "id" | "name">[]
+  disabled: boolean
+  error: string | null
+  onUpdate: (changes: BulkTaskChanges) => void
+  onDelete?: () => void
+  onClear: () => void
+}) {
+  const [dueDate, setDueDate] = useState("")
+
+  return (
+    <div className="sticky top-0 z-10 space-y-2 rounded-lg border border-border bg-background p-3 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">{count} selected</span>
+
+        {/* Selects are reset after each action, so they always read as a prompt */}
+        <Select value="" onValueChange={(status) => onUpdate({ status })} disabled={disabled}>
+          <SelectTrigger className="w-36" aria-label="Set status">
+            <SelectValue placeholder="Set status" />
+          </SelectTrigger>
+          <SelectContent>
+            {statuses.map((status) => (
+              <SelectItem key={status.key} value={status.key}>
+                {status.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value="" onValueChange={(priority) => onUpdate({ priority })} disabled={disabled}>
+          <SelectTrigger className="w-36" aria-label="Set priority">
+            <SelectValue placeholder="Set priority" />
+          </SelectTrigger>
+          <SelectContent>
+            {PRIORITIES.map((priority) => (
+              <SelectItem key={priority} value={priority} className="capitalize">
+                {priority}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value=""
+          onValueChange={(value) => onUpdate({ assigneeId: value === UNASSIGNED ? null : Number.parseInt(value) })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-40" aria-label="Set assignee">
+            <SelectValue placeholder="Set assignee" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+            {users.map((user) => (
+              <SelectItem key={user.id} value={user.id.toString()}>
+                {user.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-1">
+          <Input
+            type="date"
+            aria-label="Due date"
+            value={dueDate}
+            onChange={(event) => setDueDate(event.target.value)}
+            className="w-36"
+          />
+          <Button variant="outline" size="sm" disabled={disabled} onClick={() => onUpdate({ dueDate: dueDate || null })}>
+            {dueDate ? "Set due date" : "Clear due date"}
+          </Button>
+        </div>
+
+        {onDelete && (
+          <Button variant="outline" size="sm" className="text-primary" disabled={disabled} onClick={onDelete}>
+            <Trash2 className="mr-1 h-4 w-4" />
+            Delete
+          </Button>
+        )}
+
+        <Button variant="ghost" size="sm" onClick={onClear}>
+          <X className="mr-1 h-4 w-4" />
+          Clear selection
+        </Button>
+      </div>
+      {error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">{error}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,225 @@
+"use client"
+
+import { useActionState, useState, useTransition } from "react"
+import { useFormStatus } from "react-dom"
+import { formatDistanceToNow } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Avatar, AvatarName } from "@/components/ui/avatar"
+import { addComment, deleteComment, updateComment } from "@/app/(dashboard)/tasks/actions"
+import { MentionTextarea } from "./mention-textarea"
+import { MentionText, type MentionUser } from "./mention"
+
+import type { Comment as PrismaComment, User } from "@/app/generated/prisma/client";
+
+type CommentWithAuthor = PrismaComment & {
+  author: Pick<User, "id" | "name">;
+};
+
+type CommentWithReplies = CommentWithAuthor & {
+  replies: CommentWithAuthor[];
+};
+
+type ActionState = {
+  error: string | null;
+  success: boolean;
+  message?: string;
+}
+
+const initialState: ActionState = {
+  message: "",
+  success: false,
+  error: null,
+}
+
+function SubmitButton({ label }: { label: string }) {
+  const { pending } = useFormStatus()
+  return (
+    <Button type="submit" size="sm" disabled={pending}>
+      {pending ? "Saving..." : label}
+    </Button>
+  )
+}
+
+function CommentForm({
+  submit,
+  users,
+  defaultValue = "",
+  submitLabel,
+  onFinish,
+  onCancel,
+}: {
+  submit: (formData: FormData) => Promise<ActionState>
+  users: MentionUser[]
+  defaultValue?: string
+  submitLabel: string
+  onFinish?: () => void
+  onCancel?: () => void
+}) {
+  const [formKey, setFormKey] = useState(0)
+
+  // Create a wrapper function that matches useActionState signature
+  const commentAction = async (prevState: ActionState, formData: FormData): Promise<ActionState> => {
+    const result = await submit(formData)
+    if (result.success) {
+      // Remount the form to clear the textarea after a successful submit
+      setFormKey((key) => key + 1)
+      onFinish?.()
+    }
+    return result
+  }
+
+  const [state, formAction] = useActionState(commentAction, initialState)
+
+  return (
+    <form key={formKey} action={formAction} className="space-y-2">
+      <MentionTextarea
+        name="body"
+        users={users}
+        defaultValue={defaultValue}
+        placeholder="Write a comment... Type @ to mention someone."
+        aria-label="Comment"
+        required
+      />
+      {state.error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+          {state.error}
+        </div>
+      )}
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <SubmitButton label={submitLabel} />
+      </div>
+    </form>
+  )
+}
+
+function CommentItem({
+  comment,
+  currentUserId,
+  users,
+  canEdit,
+  onReply,
+}: {
+  comment: CommentWithAuthor
+  currentUserId: number
+  users: MentionUser[]
+  canEdit: boolean
+  onReply: () => void
+}) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [isPending, startTransition] = useTransition()
+  const isAuthor = comment.authorId === currentUserId
+
+  const handleDelete = () => {
+    if (!confirm("Delete this comment?")) return
+    startTransition(async () => {
+      await deleteComment(comment.id)
+    })
+  }
+
+  return (
+    <div className="flex items-start space-x-3">
+      <Avatar className="h-8 w-8">
+        <AvatarName name={comment.author.name} className="text-xs" />
+      </Avatar>
+      <div className="flex-1 space-y-1">
+        <div className="flex items-center space-x-2 text-sm">
+          <span className="font-medium">{comment.author.name}</span>
+          <span className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+          </span>
+          {comment.editedAt && (
+            <span className="text-xs text-muted-foreground" title={new Date(comment.editedAt).toLocaleString()}>
+              (edited)
+            </span>
+          )}
+        </div>
+        {isEditing ? (
+          <CommentForm
+            submit={(formData) => updateComment(comment.id, formData)}
+            users={users}
+            defaultValue={comment.body}
+            submitLabel="Save"
+            onFinish={() => setIsEditing(false)}
+            onCancel={() => setIsEditing(false)}
+          />
+        ) : (
+          <p className="text-sm whitespace-pre-wrap">
+            <MentionText text={comment.body} users={users} />
+          </p>
+        )}
+        {!isEditing && canEdit && (
+          <div className="flex items-center space-x-1 text-xs">
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onReply}>
+              Reply
+            </Button>
+            {isAuthor && (
+              <>
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setIsEditing(true)}>
+                  Edit
+                </Button>
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs text-primary" disabled={isPending} onClick={handleDelete}>
+                  Delete
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export function CommentThread({
+  taskId,
+  comments,
+  currentUserId,
+  users,
+  canEdit,
+}: {
+  taskId: number
+  comments: CommentWithReplies[]
+  currentUserId: number
+  users: MentionUser[]
+  canEdit: boolean
+}) {
+  const [replyingTo, setReplyingTo] = useState<number | null>(null)
+
+  const submitReply = (parentId: number) => (formData: FormData) => {
+    formData.set("parentId", parentId.toString())
+    return addComment(taskId, formData)
+  }
+
+  return (
+    <div className="space-y-6">
+      {comments.length === 0 && <p className="text-sm text-muted-foreground">No comments yet.</p>}
+      {comments.map((comment) => (
+        <div key={comment.id} className="space-y-3">
+          <CommentItem comment={comment} currentUserId={currentUserId} users={users} canEdit={canEdit} onReply={() => setReplyingTo(comment.id)} />
+          {(comment.replies.length > 0 || replyingTo === comment.id) && (
+            <div className="ml-11 space-y-3 border-l border-border pl-4">
+              {comment.replies.map((reply) => (
+                // Replies are one level deep, so replying to a reply continues the same thread
+                <CommentItem key={reply.id} comment={reply} currentUserId={currentUserId} users={users} canEdit={canEdit} onReply={() => setReplyingTo(comment.id)} />
+              ))}
+              {replyingTo === comment.id && (
+                <CommentForm
+                  submit={submitReply(comment.id)}
+                  users={users}
+                  submitLabel="Reply"
+                  onFinish={() => setReplyingTo(null)}
+                  onCancel={() => setReplyingTo(null)}
+                />
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+      {canEdit && <CommentForm submit={(formData) => addComment(taskId, formData)} users={users} submitLabel="Comment" />}
+    </div>
+  )
+}
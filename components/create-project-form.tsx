@@ -0,0 +1,103 @@
+"use client"
+
+import { useActionState } from "react"
+import { useFormStatus } from "react-dom"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { createProject, getMemberCandidates } from "@/app/(dashboard)/projects/actions"
+import type { User } from "@/app/generated/prisma/client"
+import { useEffect, useState } from "react"
+
+type ActionState = {
+    error: string | null;
+    success: boolean;
+    message?: string;
+}
+
+const initialState: ActionState = {
+    message: "",
+    success: false,
+    error: null,
+}
+
+function SubmitButton() {
+    const { pending } = useFormStatus()
+    return (
+        <Button type="submit" disabled={pending}>
+            {pending ? "Creating..." : "Create Project"}
+        </Button>
+    )
+}
+
+export function CreateProjectForm({ onFinish }: { onFinish?: () => void }) {
+    const [users, setUsers] = useState<Pick<User, "id" | "name">[]>([])
+
+    // Create a wrapper function that matches useActionState signature
+    const createProjectAction = async (prevState: ActionState, formData: FormData): Promise<ActionState> => {
+        return createProject(formData)
+    }
+
+    const [state, formAction] = useActionState(createProjectAction, initialState)
+
+    useEffect(() => {
+        // Fetch users when component mounts; none come back for users who can't manage members
+        getMemberCandidates().then(setUsers)
+    }, [])
+
+    useEffect(() => {
+        if (state.message) {
+            if (state.success && onFinish) {
+                onFinish()
+            }
+        }
+    }, [state, onFinish])
+
+    return (
+        <form action={formAction} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2 col-span-2">
+                    <Label htmlFor="name">Name</Label>
+                    <Input id="name" name="name" required />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="key">Key</Label>
+                    <Input id="key" name="key" placeholder="PLAT" maxLength={10} className="uppercase" required />
+                </div>
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="description">Description</Label>
+                <Textarea id="description" name="description" />
+            </div>
+            {users.length > 0 && (
+                <div className="space-y-2">
+                    <Label>Members</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                        {users.map((user) => (
+                            <label key={user.id} className="flex items-center space-x-2 text-sm">
+                                <Checkbox name="memberIds" value={user.id.toString()} />
+                                <span>{user.name}</span>
+                            </label>
+                        ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">You are added to every project you create.</p>
+                </div>
+            )}
+            {state.error && (
+                <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+                    {state.error}
+                </div>
+            )}
+            {state.success && state.message && (
+                <div className="text-sm text-green-600 bg-green-50 p-3 rounded-md">
+                    {state.message}
+                </div>
+            )}
+            <div className="flex justify-end">
+                <SubmitButton />
+            </div>
+        </form>
+    )
+}
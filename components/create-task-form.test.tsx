@@ -5,7 +5,9 @@ import { CreateTaskForm } from './create-task-form'
 // Mock the react hooks and server actions
 const mockUseActionState = jest.fn()
 const mockUseFormStatus = jest.fn()
-const mockGetAllUsers = jest.fn()
+const mockGetProjectMembers = jest.fn()
+const mockGetWorkflowStatuses = jest.fn()
+const mockGetLabels = jest.fn()
 
 jest.mock('react', () => ({
   ...jest.requireActual('react'),
@@ -17,10 +19,25 @@ jest.mock('react-dom', () => ({
   useFormStatus: () => mockUseFormStatus(),
 }))
 
-jest.mock('@/app/login/actions', () => ({
-  getAllUsers: () => mockGetAllUsers(),
+jest.mock('@/app/(dashboard)/projects/actions', () => ({
+  getProjectMembers: () => mockGetProjectMembers(),
 }))
 
+jest.mock('@/app/(dashboard)/settings/workflow/actions', () => ({
+  getWorkflowStatuses: () => mockGetWorkflowStatuses(),
+}))
+
+jest.mock('@/app/(dashboard)/settings/labels/actions', () => ({
+  getLabels: () => mockGetLabels(),
+}))
+
+const workflowStatuses = [
+  { id: 1, key: 'todo', name: 'Todo', order: 0, color: '#B9BFCC', category: 'not_started' },
+  { id: 2, key: 'in_progress', name: 'In Progress', order: 1, color: '#4BBEC5', category: 'active' },
+  { id: 3, key: 'review', name: 'Review', order: 2, color: '#F5532C', category: 'active' },
+  { id: 4, key: 'done', name: 'Done', order: 3, color: '#00848B', category: 'done' },
+]
+
 describe('CreateTaskForm Component', () => {
   beforeEach(() => {
     // Setup default mocks
@@ -29,7 +46,9 @@ describe('CreateTaskForm Component', () => {
       jest.fn()
     ])
     mockUseFormStatus.mockReturnValue({ pending: false })
-    mockGetAllUsers.mockResolvedValue([])
+    mockGetProjectMembers.mockResolvedValue([])
+    mockGetWorkflowStatuses.mockResolvedValue(workflowStatuses)
+    mockGetLabels.mockResolvedValue([])
   })
 
   afterEach(() => {
@@ -301,10 +320,13 @@ describe('CreateTaskForm Component', () => {
     
     mockUseFormStatus.mockReturnValue({ pending: false })
     
-    mockGetAllUsers.mockResolvedValue([
+    mockGetProjectMembers.mockResolvedValue([
       { id: 1, name: 'John Doe' },
       { id: 2, name: 'Jane Smith' }
     ])
+
+    mockGetWorkflowStatuses.mockResolvedValue(workflowStatuses)
+    mockGetLabels.mockResolvedValue([])
   })
 
   describe('Rendering', () => {
@@ -350,7 +372,7 @@ describe('CreateTaskForm Component', () => {
       
       // Assert
       await waitFor(() => {
-        expect(mockGetAllUsers).toHaveBeenCalledTimes(1)
+        expect(mockGetProjectMembers).toHaveBeenCalledTimes(1)
       })
     })
   })
@@ -419,7 +441,7 @@ describe('CreateTaskForm Component', () => {
       
       // Wait for users to load
       await waitFor(() => {
-        expect(mockGetAllUsers).toHaveBeenCalled()
+        expect(mockGetProjectMembers).toHaveBeenCalled()
       })
       
       // Act
@@ -533,14 +555,14 @@ describe('CreateTaskForm Component', () => {
 
     it('should handle empty users list gracefully', async () => {
       // Arrange
-      mockGetAllUsers.mockResolvedValue([])
+      mockGetProjectMembers.mockResolvedValue([])
       
       // Act
       render(<CreateTaskForm />)
       
       // Assert
       await waitFor(() => {
-        expect(mockGetAllUsers).toHaveBeenCalled()
+        expect(mockGetProjectMembers).toHaveBeenCalled()
       })
       
       // Assignee dropdown should still be rendered but empty
@@ -549,14 +571,14 @@ describe('CreateTaskForm Component', () => {
 
     it('should handle users loading error gracefully', async () => {
       // Arrange
-      mockGetAllUsers.mockRejectedValue(new Error('Failed to load users'))
+      mockGetProjectMembers.mockRejectedValue(new Error('Failed to load users'))
       
       // Act
       render(<CreateTaskForm />)
       
       // Assert
       await waitFor(() => {
-        expect(mockGetAllUsers).toHaveBeenCalled()
+        expect(mockGetProjectMembers).toHaveBeenCalled()
       })
       
       // Form should still render without crashing
@@ -6,11 +6,15 @@ import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { createTask } from "@/app/(dashboard)/tasks/actions"
-import { getAllUsers } from "@/app/login/actions"
-import type { User } from "@/app/generated/prisma/client"
+import { getProjectMembers } from "@/app/(dashboard)/projects/actions"
+import { getWorkflowStatuses } from "@/app/(dashboard)/settings/workflow/actions"
+import { getLabels } from "@/app/(dashboard)/settings/labels/actions"
+import { LabelPicker } from "./label-picker"
+import { MarkdownEditor } from "./markdown-editor"
+import { AttachmentInput } from "./attachment-input"
+import type { Label as TaskLabel, User, WorkflowStatus } from "@/app/generated/prisma/client"
 import { useEffect, useState } from "react"
 
 type ActionState = {
@@ -36,6 +40,8 @@ function SubmitButton() {
 
 export function CreateTaskForm({ onFinish }: { onFinish?: () => void }) {
     const [users, setUsers] = useState<Pick<User, "id" | "name">[]>([])
+    const [statuses, setStatuses] = useState<WorkflowStatus[]>([])
+    const [labels, setLabels] = useState<TaskLabel[]>([])
 
     // Create a wrapper function that matches useActionState signature
     const createTaskAction = async (prevState: ActionState, formData: FormData): Promise<ActionState> => {
@@ -45,8 +51,10 @@ export function CreateTaskForm({ onFinish }: { onFinish?: () => void }) {
     const [state, formAction] = useActionState(createTaskAction, initialState)
 
     useEffect(() => {
-        // Fetch users when component mounts
-        getAllUsers().then(setUsers)
+        // Fetch users, statuses and labels when component mounts
+        getProjectMembers().then(setUsers)
+        getWorkflowStatuses().then(setStatuses)
+        getLabels().then(setLabels)
     }, [])
 
     useEffect(() => {
@@ -65,20 +73,22 @@ export function CreateTaskForm({ onFinish }: { onFinish?: () => void }) {
             </div>
             <div className="space-y-2">
                 <Label htmlFor="description">Description</Label>
-                <Textarea id="description" name="description" />
+                <MarkdownEditor id="description" name="description" users={users} />
             </div>
             <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                     <Label htmlFor="status">Status</Label>
-                    <Select name="status" defaultValue="todo">
+                    {/* Keyed so the default is applied once statuses have loaded */}
+                    <Select key={statuses.length} name="status" defaultValue={statuses.find((status) => status.category === "not_started")?.key ?? statuses[0]?.key}>
                         <SelectTrigger>
                             <SelectValue placeholder="Select status" />
                         </SelectTrigger>
                         <SelectContent>
-                            <SelectItem value="todo">Todo</SelectItem>
-                            <SelectItem value="in_progress">In Progress</SelectItem>
-                            <SelectItem value="review">Review</SelectItem>
-                            <SelectItem value="done">Done</SelectItem>
+                            {statuses.map((status) => (
+                                <SelectItem key={status.key} value={status.key}>
+                                    {status.name}
+                                </SelectItem>
+                            ))}
                         </SelectContent>
                     </Select>
                 </div>
@@ -121,6 +131,14 @@ export function CreateTaskForm({ onFinish }: { onFinish?: () => void }) {
                     />
                 </div>
             </div>
+            <div className="space-y-2">
+                <Label htmlFor="labels">Labels</Label>
+                <LabelPicker labels={labels} />
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="attachments">Attachments</Label>
+                <AttachmentInput />
+            </div>
             {state.error && (
                 <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
                     {state.error}
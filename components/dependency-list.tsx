@@ -0,0 +1,185 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import Link from "next/link"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { X } from "lucide-react"
+import { addDependency, removeDependency } from "@/app/(dashboard)/tasks/actions"
+import { cn, formatTaskKey } from "@/lib/utils"
+import { getStatusName, isDoneStatus } from "@/lib/workflow"
+
+import type { Project, Task as PrismaTask, WorkflowStatus } from "@/app/generated/prisma/client";
+
+type LinkedTask = PrismaTask & {
+  project: Pick<Project, "key">;
+};
+
+type Relation = "blocked_by" | "blocks"
+
+const RELATION_LABELS: Record<Relation, string> = {
+  blocked_by: "Blocked by",
+  blocks: "Blocks",
+}
+
+function LinkedTaskRow({
+  task,
+  statuses,
+  disabled,
+  onRemove,
+}: {
+  task: LinkedTask
+  statuses: WorkflowStatus[]
+  disabled: boolean
+  onRemove?: () => void
+}) {
+  const done = isDoneStatus(statuses, task.status)
+  return (
+    <li className="flex items-center gap-2 text-sm">
+      <Badge variant="outline" className="text-xs text-foreground-muted">
+        {formatTaskKey(task.project.key, task.number)}
+      </Badge>
+      <Link href={`/tasks/${task.id}`} className={cn("hover:underline", done && "line-through text-muted-foreground")}>
+        {task.name}
+      </Link>
+      <Badge variant="secondary" className="capitalize">
+        {getStatusName(statuses, task.status)}
+      </Badge>
+      {onRemove && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="ml-auto h-7 w-7"
+          disabled={disabled}
+          onClick={onRemove}
+          aria-label={`Remove link to ${task.name}`}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </li>
+  )
+}
+
+// "Blocked by" and "Blocks" links of a task, with a picker to add links to other tasks in its project.
+// Viewers (`canEdit` false) see the links without the picker or remove buttons.
+export function DependencyList({
+  taskId,
+  projectKey,
+  blockedBy,
+  blocking,
+  linkableTasks,
+  statuses,
+  canEdit,
+}: {
+  taskId: number
+  projectKey: string
+  blockedBy: LinkedTask[]
+  blocking: LinkedTask[]
+  linkableTasks: Pick<PrismaTask, "id" | "number" | "name">[]
+  statuses: WorkflowStatus[]
+  canEdit: boolean
+}) {
+  const [relation, setRelation] = useState<Relation>("blocked_by")
+  const [otherTaskId, setOtherTaskId] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const linkedIds = new Set([...blockedBy, ...blocking].map((task) => task.id))
+
+  const handleAdd = () => {
+    const otherId = Number.parseInt(otherTaskId)
+    if (Number.isNaN(otherId)) return
+
+    setError(null)
+    startTransition(async () => {
+      const result = relation === "blocked_by" ? await addDependency(otherId, taskId) : await addDependency(taskId, otherId)
+      if (result.error) setError(result.error)
+      else setOtherTaskId("")
+    })
+  }
+
+  const handleRemove = (blockerId: number, blockedId: number) => {
+    setError(null)
+    startTransition(async () => {
+      const result = await removeDependency(blockerId, blockedId)
+      if (result.error) setError(result.error)
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      {blockedBy.length === 0 && blocking.length === 0 && (
+        <p className="text-sm text-muted-foreground">This task has no dependencies.</p>
+      )}
+      {blockedBy.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">{RELATION_LABELS.blocked_by}</h4>
+          <ul className="space-y-2">
+            {blockedBy.map((blocker) => (
+              <LinkedTaskRow
+                key={blocker.id}
+                task={blocker}
+                statuses={statuses}
+                disabled={isPending}
+                onRemove={canEdit ? () => handleRemove(blocker.id, taskId) : undefined}
+              />
+            ))}
+          </ul>
+        </div>
+      )}
+      {blocking.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">{RELATION_LABELS.blocks}</h4>
+          <ul className="space-y-2">
+            {blocking.map((blocked) => (
+              <LinkedTaskRow
+                key={blocked.id}
+                task={blocked}
+                statuses={statuses}
+                disabled={isPending}
+                onRemove={canEdit ? () => handleRemove(taskId, blocked.id) : undefined}
+              />
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={relation} onValueChange={(value) => setRelation(value as Relation)}>
+            <SelectTrigger className="w-36" aria-label="Link type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RELATION_LABELS) as Relation[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {RELATION_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={otherTaskId} onValueChange={setOtherTaskId}>
+            <SelectTrigger className="w-72" aria-label="Task to link">
+              <SelectValue placeholder="Choose a task" />
+            </SelectTrigger>
+            <SelectContent>
+              {linkableTasks
+                .filter((task) => !linkedIds.has(task.id))
+                .map((task) => (
+                  <SelectItem key={task.id} value={task.id.toString()}>
+                    {formatTaskKey(projectKey, task.number)} {task.name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" disabled={isPending || !otherTaskId} onClick={handleAdd}>
+            {isPending ? "Saving..." : "Add link"}
+          </Button>
+        </div>
+      )}
+      {error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">{error}</div>}
+    </div>
+  )
+}
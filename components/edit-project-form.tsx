@@ -0,0 +1,102 @@
+"use client"
+
+import { useActionState } from "react"
+import { useFormStatus } from "react-dom"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { getMemberCandidates, updateProject } from "@/app/(dashboard)/projects/actions"
+import type { Project, User } from "@/app/generated/prisma/client"
+import { useEffect, useState } from "react"
+
+type ProjectWithMembers = Project & {
+    members: { userId: number }[];
+};
+
+type ActionState = {
+    error: string | null;
+    success: boolean;
+    message?: string;
+}
+
+const initialState: ActionState = {
+    message: "",
+    success: false,
+    error: null,
+}
+
+function SubmitButton() {
+    const { pending } = useFormStatus()
+    return (
+        <Button type="submit" disabled={pending}>
+            {pending ? "Saving..." : "Save Changes"}
+        </Button>
+    )
+}
+
+export function EditProjectForm({ project, onFinish }: { project: ProjectWithMembers; onFinish?: () => void }) {
+    const [users, setUsers] = useState<Pick<User, "id" | "name">[]>([])
+    const memberIds = new Set(project.members.map((member) => member.userId))
+
+    // Create a wrapper function that matches useActionState signature
+    const updateProjectAction = async (prevState: ActionState, formData: FormData): Promise<ActionState> => {
+        return updateProject(project.id, formData)
+    }
+
+    const [state, formAction] = useActionState(updateProjectAction, initialState)
+
+    useEffect(() => {
+        // Fetch users when component mounts; none come back for users who can't manage members
+        getMemberCandidates().then(setUsers)
+    }, [])
+
+    useEffect(() => {
+        if (state.message) {
+            if (state.success && onFinish) {
+                onFinish()
+            }
+        }
+    }, [state, onFinish])
+
+    return (
+        <form action={formAction} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2 col-span-2">
+                    <Label htmlFor="name">Name</Label>
+                    <Input id="name" name="name" defaultValue={project.name} required />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="key">Key</Label>
+                    <Input id="key" value={project.key} disabled />
+                </div>
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="description">Description</Label>
+                <Textarea id="description" name="description" defaultValue={project.description} />
+            </div>
+            {users.length > 0 && (
+                <div className="space-y-2">
+                    <Label>Members</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                        {users.map((user) => (
+                            <label key={user.id} className="flex items-center space-x-2 text-sm">
+                                <Checkbox name="memberIds" value={user.id.toString()} defaultChecked={memberIds.has(user.id)} />
+                                <span>{user.name}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            )}
+            {state.error && (
+                <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+                    {state.error}
+                </div>
+            )}
+            <div className="flex justify-end">
+                <SubmitButton />
+            </div>
+        </form>
+    )
+}
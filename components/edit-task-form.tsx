@@ -1,26 +1,47 @@
 "use client"
 
-import { useActionState } from "react"
+import { useActionState, useRef, useState } from "react"
 import { useFormStatus } from "react-dom"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { updateTask } from "@/app/(dashboard)/tasks/actions"
-import { getAllUsers } from "@/app/login/actions"
-import { formatDateForInput } from "@/lib/date-utils"
-import type { Task as PrismaTask, User } from "@/app/generated/prisma/client"
-import { useEffect, useState } from "react"
+import { formatDateForDisplay, parseDateString } from "@/lib/date-utils"
+import {
+    EDITABLE_TASK_FIELD_LABELS,
+    findConflicts,
+    getEditableValues,
+    mergeEdits,
+    readEditableValues,
+    type EditableTaskField,
+    type EditableTaskValues,
+    type TaskEditConflict,
+} from "@/lib/task-conflicts"
+import { cn } from "@/lib/utils"
+import { LabelPicker } from "./label-picker"
+import { MarkdownEditor } from "./markdown-editor"
+import { AttachmentInput } from "./attachment-input"
+import type { Label as TaskLabel, Task as PrismaTask, User, WorkflowStatus } from "@/app/generated/prisma/client"
+import { useEffect } from "react"
 
 type TaskWithProfile = PrismaTask & {
     assignee?: Pick<User, "name"> | null;
+    labels?: Pick<TaskLabel, "id">[];
 };
 
 type ActionState = {
     error: string | null;
     success: boolean;
     message?: string;
+    conflict?: TaskEditConflict;
+}
+
+type FieldConflict = {
+    field: EditableTaskField;
+    mine: EditableTaskValues[EditableTaskField];
+    theirs: EditableTaskValues[EditableTaskField];
+    choice: "mine" | "theirs";
 }
 
 const initialState: ActionState = {
@@ -38,20 +59,72 @@ function SubmitButton() {
     )
 }
 
-export function EditTaskForm({ task, onFinish }: { task: TaskWithProfile; onFinish?: () => void }) {
-    const [users, setUsers] = useState<Pick<User, "id" | "name">[]>([])
+// Users, statuses and labels come from the caller, so a list can load them once for every task it edits
+export function EditTaskForm({
+    task,
+    users,
+    statuses,
+    labels,
+    onFinish,
+}: {
+    task: TaskWithProfile;
+    users: Pick<User, "id" | "name">[];
+    statuses: WorkflowStatus[];
+    labels: TaskLabel[];
+    onFinish?: () => void;
+}) {
+    // Each save is based on `version`. When someone else saved in between, their changes are merged
+    // into the form and fields changed on both sides are listed for the user to pick a value.
+    const [version, setVersion] = useState(task.version)
+    const [base, setBase] = useState(() => getEditableValues(task))
+    const [values, setValues] = useState(base)
+    const [conflicts, setConflicts] = useState<FieldConflict[]>([])
+    const [hadFiles, setHadFiles] = useState(false)
+    // Remounts the fields so they show `values` again
+    const [fieldsKey, setFieldsKey] = useState(0)
+    const formRef = useRef<HTMLFormElement>(null)
 
     // Create a wrapper function that matches useActionState signature
     const updateTaskAction = async (prevState: ActionState, formData: FormData): Promise<ActionState> => {
-        return updateTask(task.id, formData)
+        const result = await updateTask(task.id, formData)
+        if (result.conflict) {
+            const mine = readEditableValues(formData)
+            const theirs = result.conflict.current
+            setConflicts(
+                findConflicts(base, mine, theirs).map((field) => ({ field, mine: mine[field], theirs: theirs[field], choice: "mine" })),
+            )
+            setValues(mergeEdits(base, mine, theirs))
+            setBase(theirs)
+            setVersion(result.conflict.version)
+            setHadFiles(formData.getAll("attachments").some((file) => file instanceof File && file.size > 0))
+            setFieldsKey((key) => key + 1)
+        }
+        return result
     }
 
-    const [state, formAction] = useActionState(updateTaskAction, initialState)
+    // Put the picked side's value into the form, keeping whatever else the user has typed since
+    const chooseValue = (field: EditableTaskField, choice: "mine" | "theirs") => {
+        const conflict = conflicts.find((c) => c.field === field)
+        if (!conflict || !formRef.current) return
+        setValues({ ...readEditableValues(new FormData(formRef.current)), [field]: conflict[choice] })
+        setConflicts((prev) => prev.map((c) => (c.field === field ? { ...c, choice } : c)))
+        setFieldsKey((key) => key + 1)
+    }
 
-    useEffect(() => {
-        // Fetch users when component mounts
-        getAllUsers().then(setUsers)
-    }, [])
+    const formatValue = (field: EditableTaskField, value: EditableTaskValues[EditableTaskField]) => {
+        if (Array.isArray(value)) {
+            return value.length === 0 ? "No labels" : value.map((id) => labels.find((label) => label.id === id)?.name ?? `#${id}`).join(", ")
+        }
+        if (value === null || value === "") {
+            return field === "assigneeId" ? "Unassigned" : field === "dueDate" ? "No due date" : "Empty"
+        }
+        if (field === "status") return statuses.find((status) => status.key === value)?.name ?? String(value)
+        if (field === "assigneeId") return users.find((user) => user.id === value)?.name ?? "Unknown user"
+        if (field === "dueDate") return formatDateForDisplay(parseDateString(String(value)))
+        return String(value)
+    }
+
+    const [state, formAction] = useActionState(updateTaskAction, initialState)
 
     useEffect(() => {
         if (state.message) {
@@ -62,68 +135,121 @@ export function EditTaskForm({ task, onFinish }: { task: TaskWithProfile; onFini
     }, [state, onFinish])
 
     return (
-        <form action={formAction} className="space-y-4">
-            <div className="space-y-2">
-                <Label htmlFor="title">Title</Label>
-                <Input id="title" name="title" defaultValue={task.name} required />
-            </div>
-            <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea id="description" name="description" defaultValue={task.description || ""} />
-            </div>
-            <div className="grid grid-cols-2 gap-4">
+        <form ref={formRef} action={formAction} className="space-y-4">
+            <input type="hidden" name="version" value={version} />
+            {state.error && (
+                <div className="space-y-3 text-sm text-red-600 bg-red-50 p-3 rounded-md">
+                    <p>{state.error}</p>
+                    {state.conflict && (
+                        <>
+                            <p>
+                                {conflicts.length > 0
+                                    ? "Their changes are merged into the form. You both changed the fields below; pick a value for each, then save again."
+                                    : "Their changes are merged into the form and none of them clash with yours. Review the task, then save again."}
+                                {hadFiles && " Attach your files again, too."}
+                            </p>
+                            {conflicts.map((conflict) => (
+                                <fieldset key={conflict.field} className="space-y-1">
+                                    <legend className="font-medium">{EDITABLE_TASK_FIELD_LABELS[conflict.field]}</legend>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        {(["mine", "theirs"] as const).map((side) => (
+                                            <button
+                                                key={side}
+                                                type="button"
+                                                onClick={() => chooseValue(conflict.field, side)}
+                                                aria-pressed={conflict.choice === side}
+                                                className={cn(
+                                                    "rounded-md border bg-background p-2 text-left text-foreground",
+                                                    conflict.choice === side && "ring-2 ring-primary",
+                                                )}
+                                            >
+                                                <span className="block text-xs text-muted-foreground">
+                                                    {side === "mine" ? "Your version" : "Their version"}
+                                                </span>
+                                                <span className="block max-h-24 overflow-y-auto whitespace-pre-wrap break-words">
+                                                    {formatValue(conflict.field, conflict[side])}
+                                                </span>
+                                            </button>
+                                        ))}
+                                    </div>
+                                </fieldset>
+                            ))}
+                        </>
+                    )}
+                </div>
+            )}
+            <div key={fieldsKey} className="space-y-4">
                 <div className="space-y-2">
-                    <Label htmlFor="status">Status</Label>
-                    <Select name="status" defaultValue={task.status}>
-                        <SelectTrigger>
-                            <SelectValue placeholder="Select status" />
-                        </SelectTrigger>
-                        <SelectContent>
-                            <SelectItem value="todo">Todo</SelectItem>
-                            <SelectItem value="in_progress">In Progress</SelectItem>
-                            <SelectItem value="review">Review</SelectItem>
-                            <SelectItem value="done">Done</SelectItem>
-                        </SelectContent>
-                    </Select>
+                    <Label htmlFor="title">Title</Label>
+                    <Input id="title" name="title" defaultValue={values.name} required />
                 </div>
                 <div className="space-y-2">
-                    <Label htmlFor="priority">Priority</Label>
-                    <Select name="priority" defaultValue={task.priority}>
-                        <SelectTrigger>
-                            <SelectValue placeholder="Select priority" />
-                        </SelectTrigger>
-                        <SelectContent>
-                            <SelectItem value="low">Low</SelectItem>
-                            <SelectItem value="medium">Medium</SelectItem>
-                            <SelectItem value="high">High</SelectItem>
-                        </SelectContent>
-                    </Select>
+                    <Label htmlFor="description">Description</Label>
+                    <MarkdownEditor id="description" name="description" users={users} defaultValue={values.description} />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="status">Status</Label>
+                        <Select name="status" defaultValue={values.status}>
+                            <SelectTrigger>
+                                <SelectValue placeholder="Select status" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {statuses.map((status) => (
+                                    <SelectItem key={status.key} value={status.key}>
+                                        {status.name}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="priority">Priority</Label>
+                        <Select name="priority" defaultValue={values.priority}>
+                            <SelectTrigger>
+                                <SelectValue placeholder="Select priority" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="low">Low</SelectItem>
+                                <SelectItem value="medium">Medium</SelectItem>
+                                <SelectItem value="high">High</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="assigneeId">Assignee</Label>
+                        <Select name="assigneeId" defaultValue={values.assigneeId?.toString() || undefined}>
+                            <SelectTrigger>
+                                <SelectValue placeholder="Select assignee" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {users.map((user) => (
+                                    <SelectItem key={user.id} value={user.id.toString()}>
+                                        {user.name}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="dueDate">Due Date</Label>
+                        <Input
+                            id="dueDate"
+                            name="dueDate"
+                            type="date"
+                            defaultValue={values.dueDate ?? ""}
+                        />
+                    </div>
                 </div>
-            </div>
-            <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                    <Label htmlFor="assigneeId">Assignee</Label>
-                    <Select name="assigneeId" defaultValue={task.assigneeId?.toString() || undefined}>
-                        <SelectTrigger>
-                            <SelectValue placeholder="Select assignee" />
-                        </SelectTrigger>
-                        <SelectContent>
-                            {users.map((user) => (
-                                <SelectItem key={user.id} value={user.id.toString()}>
-                                    {user.name}
-                                </SelectItem>
-                            ))}
-                        </SelectContent>
-                    </Select>
+                    <Label htmlFor="labels">Labels</Label>
+                    <LabelPicker labels={labels} defaultValue={values.labelIds} />
                 </div>
                 <div className="space-y-2">
-                    <Label htmlFor="dueDate">Due Date</Label>
-                    <Input
-                        id="dueDate"
-                        name="dueDate"
-                        type="date"
-                        defaultValue={task.dueDate ? formatDateForInput(task.dueDate) : ""}
-                    />
+                    <Label htmlFor="attachments">Attachments</Label>
+                    <AttachmentInput />
                 </div>
             </div>
             <div className="flex justify-end">
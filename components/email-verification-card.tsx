@@ -0,0 +1,53 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { MailCheck } from "lucide-react"
+import { resendVerificationEmail } from "@/app/(dashboard)/settings/security/actions"
+
+// Whether the current user's email address is confirmed, with a button to send a new confirmation link
+export function EmailVerificationCard({ email, verifiedAt }: { email: string; verifiedAt: Date | null }) {
+  const [error, setError] = useState<string | null>(null)
+  const [sent, setSent] = useState(false)
+  const [isPending, startTransition] = useTransition()
+
+  const handleResend = () => {
+    setError(null)
+    startTransition(async () => {
+      const result = await resendVerificationEmail()
+      if (result.error) setError(result.error)
+      else setSent(true)
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Email Address</CardTitle>
+          <CardDescription>Password reset links and notification emails are sent to {email}.</CardDescription>
+        </div>
+        {verifiedAt ? (
+          <Badge variant="secondary">
+            <MailCheck className="mr-1 h-3 w-3" />
+            Confirmed
+          </Badge>
+        ) : (
+          <Button variant="outline" onClick={handleResend} disabled={isPending || sent}>
+            {sent ? "Link Sent" : "Send Confirmation Link"}
+          </Button>
+        )}
+      </CardHeader>
+      {(error || (!verifiedAt && !sent)) && (
+        <CardContent className="space-y-2">
+          {error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">{error}</div>}
+          {!verifiedAt && !sent && (
+            <p className="text-sm text-muted-foreground">Your address isn&apos;t confirmed yet, so notification emails are on hold. Check your inbox for the link we sent when you signed up.</p>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,40 @@
+import { formatDistanceToNow } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ShieldAlert } from "lucide-react"
+import { describeUserAgent } from "@/lib/sessions"
+
+export type FailedLoginSummary = {
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: Date
+}
+
+// Recent sign-ins to the current user's account that used the wrong password
+export function FailedLoginList({ attempts }: { attempts: FailedLoginSummary[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Failed Sign-in Attempts</CardTitle>
+        <CardDescription>
+          Wrong passwords and two-factor codes entered for your account in the last 30 days. If you don&apos;t recognise them, change your
+          password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {attempts.length === 0 && <p className="text-sm text-muted-foreground">No failed attempts.</p>}
+        {attempts.map((attempt, index) => (
+          <div key={index} className="flex items-center space-x-3 rounded-md border border-border p-3">
+            <ShieldAlert className="h-5 w-5 text-muted-foreground" />
+            <div className="space-y-0.5">
+              <p className="text-sm font-medium">{describeUserAgent(attempt.userAgent)}</p>
+              <p className="text-xs text-muted-foreground">
+                {attempt.ipAddress ?? "Unknown address"} ·{" "}
+                {formatDistanceToNow(new Date(attempt.createdAt), { addSuffix: true })}
+              </p>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,18 +1,42 @@
 "use client"
 
-import { useState, useTransition } from "react"
-import { DragDropContext, Droppable, Draggable, type DropResult } from "@hello-pangea/dnd"
+import { useRef, useState, useTransition } from "react"
+import { DragDropContext, Droppable, Draggable, type DragStart, type DropResult } from "@hello-pangea/dnd"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarFallback, AvatarImage, AvatarName } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
-import { Plus, Clock } from "lucide-react"
-import { updateTaskStatus } from "@/app/(dashboard)/tasks/actions"
+import { Plus, Clock, Lock, ChevronDown, ChevronRight, X } from "lucide-react"
+import Link from "next/link"
+import { getLiveTasks, moveTask } from "@/app/(dashboard)/tasks/actions"
 import { cn } from "@/lib/utils"
+import { getSubtaskProgress, isOverWipLimit } from "@/lib/workflow"
+import { getChecklistProgress } from "@/lib/checklist"
+import { isBlocked } from "@/lib/dependencies"
+import { getLaneFields, getLaneId, UNASSIGNED_LANE, type Swimlane, type SwimlaneField } from "@/lib/swimlanes"
+import { mergeBoardColumns } from "@/lib/live-updates"
+import { can } from "@/lib/permissions"
+import type { TaskFilters } from "@/lib/task-filters"
+import { useMoveGuard } from "./move-guard-dialog"
+import { useTaskChanges } from "./use-task-changes"
+import { ProgressCount } from "./progress-count"
+import { BlockedBadge } from "./blocked-badge"
+import { LabelBadge } from "./label-badge"
 import type { KanbanColumn, KanbanData, } from "@/lib/types"
 import { poppins } from "@/lib/fonts"
 
+type KanbanTask = KanbanColumn["tasks"][number]
 
+// Lane id used when the board is not grouped into swimlanes
+const ALL_LANE = "all"
+
+// Droppables are identified by lane and column, e.g. "12:in_progress"
+const toDroppableId = (laneId: string, status: string) => `${laneId}:${status}`
+
+const parseDroppableId = (droppableId: string) => {
+  const separator = droppableId.indexOf(":")
+  return { laneId: droppableId.slice(0, separator), status: droppableId.slice(separator + 1) }
+}
 
 // Helper to get initials from a name
 const getInitials = (name: string | null | undefined) => {
@@ -24,133 +48,381 @@ const getInitials = (name: string | null | undefined) => {
     .toUpperCase()
 }
 
-export function KanbanBoard({ initialData }: { initialData: KanbanData }) {
+function ColumnHeader({ column }: { column: KanbanColumn }) {
+  const overLimit = isOverWipLimit(column.tasks.length, column.wipLimit)
+  return (
+    <CardTitle className="flex items-center text-sm font-medium">
+      <span className="mr-2 h-2.5 w-2.5 rounded-full" style={{ backgroundColor: column.color }} />
+      {column.title}
+      <Badge variant={overLimit ? "destructive" : "secondary"} className="ml-2">
+        {column.tasks.length}
+      </Badge>
+      {column.wipLimit !== null && (
+        <span
+          className={cn("ml-2 flex items-center text-xs font-normal", overLimit ? "text-red-600" : "text-muted-foreground")}
+          title={column.wipLimitHard ? "Hard WIP limit" : "WIP limit"}
+        >
+          {column.wipLimitHard && <Lock className="mr-1 h-3 w-3" />}
+          max {column.wipLimit}
+        </span>
+      )}
+    </CardTitle>
+  )
+}
+
+function TaskCard({
+  task,
+  index,
+  subtaskProgress,
+  blocked,
+  readOnly,
+}: {
+  task: KanbanTask
+  index: number
+  subtaskProgress: { done: number; total: number }
+  blocked: boolean
+  readOnly: boolean
+}) {
+  const checklistProgress = getChecklistProgress(task.description)
+  return (
+    <Draggable draggableId={String(task.id)} index={index} isDragDisabled={readOnly}>
+      {(provided, snapshot) => (
+        <div ref={provided.innerRef} {...provided.draggableProps} {...provided.dragHandleProps}>
+          <Card
+            className={cn(
+              "cursor-pointer hover:shadow-md transition-shadow",
+              snapshot.isDragging && "shadow-lg ring-2 ring-primary",
+            )}
+          >
+            <CardContent className="p-3">
+              <div className="space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <h4 className={`font-medium text-sm leading-tight ${poppins.className}`}>
+                    <Link href={`/tasks/${task.id}`} className="hover:underline">
+                      {task.name}
+                    </Link>
+                  </h4>
+                  <Badge
+                    variant={
+                      task.priority === "high"
+                        ? "destructive"
+                        : task.priority === "medium"
+                          ? "default"
+                          : "secondary"
+                    }
+                    className="text-xs flex-shrink-0 capitalize"
+                  >
+                    {task.priority}
+                  </Badge>
+                </div>
+                {task.labels && task.labels.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {task.labels.map((label) => (
+                      <LabelBadge key={label.id} label={label} className="text-xs" />
+                    ))}
+                  </div>
+                )}
+                {(blocked || subtaskProgress.total > 0 || checklistProgress.total > 0) && (
+                  <div className="flex items-center gap-3">
+                    {blocked && <BlockedBadge className="text-xs" />}
+                    <ProgressCount kind="subtasks" {...subtaskProgress} />
+                    <ProgressCount kind="checklist" {...checklistProgress} />
+                  </div>
+                )}
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Avatar className="h-6 w-6">
+                      <AvatarName name={task.assignee?.name || "??"} />
+                    </Avatar>
+                    <span className="text-xs text-muted-foreground">
+                      {task.assignee?.name || "Unassigned"}
+                    </span>
+                  </div>
+                  {task.dueDate && (
+                    <div className="flex items-center space-x-1 text-xs text-muted-foreground">
+                      <Clock className="h-3 w-3" />
+                      <span>
+                        {new Date(task.dueDate).toLocaleDateString("en-US", {
+                          month: "short",
+                          day: "numeric",
+                        })}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </Draggable>
+  )
+}
+
+// Pass `groupBy` and `lanes` to split the columns into horizontal swimlanes.
+// `filters` are the ones the board was loaded with, so live updates only add cards that match them.
+// Cards can't be dragged by users whose role doesn't allow editing tasks.
+export function KanbanBoard({
+  initialData,
+  filters,
+  currentUser,
+  groupBy = null,
+  lanes = [],
+}: {
+  initialData: KanbanData
+  filters: TaskFilters
+  currentUser: { id: number; role: string }
+  groupBy?: SwimlaneField | null
+  lanes?: Swimlane[]
+}) {
   const [columns, setColumns] = useState(initialData)
+  const [collapsedLanes, setCollapsedLanes] = useState<Record<string, boolean>>({})
+  const [liveNotice, setLiveNotice] = useState<string | null>(null)
   const [isPending, startTransition] = useTransition()
+  const { runGuarded, guardDialog } = useMoveGuard()
+  const readOnly = !can(currentUser, "edit_tasks")
+
+  // Live changes wait while a card is being dragged, since the drag library expects the columns to hold still.
+  // The dragged card stays held until its move has saved, so a remote change can't race the user's own.
+  const isDragging = useRef(false)
+  const pendingIds = useRef(new Set<number>())
+  const heldIds = useRef(new Set<number>())
+  const deferredIds = useRef(new Set<number>())
+
+  // Re-fetch tasks and fold them into the columns, leaving held cards for later
+  const refreshTasks = async (taskIds: number[]) => {
+    const { tasks, error } = await getLiveTasks(taskIds, filters, groupBy === "project" ? "member_board" : "board")
+    if (error) return null
+    const held = new Set(taskIds.filter((id) => heldIds.current.has(id)))
+    held.forEach((id) => deferredIds.current.add(id))
+    setColumns((prev) => mergeBoardColumns(prev, taskIds, tasks, held))
+    return tasks
+  }
+
+  useTaskChanges(
+    async (change) => {
+      if (isDragging.current) {
+        change.taskIds.forEach((id) => pendingIds.current.add(id))
+        return
+      }
+      await refreshTasks(change.taskIds)
+    },
+    // Changes made while disconnected were missed, so re-check every card on the board
+    async () => {
+      await refreshTasks(Object.values(columns).flatMap((column) => column.tasks.map((task) => task.id)))
+    },
+  )
+
+  // Apply changes to a card that arrived while it was held, and tell the user when they override their move
+  const releaseTask = async (task: KanbanTask, status: string) => {
+    heldIds.current.delete(task.id)
+    if (!deferredIds.current.delete(task.id)) return
+
+    const tasks = await refreshTasks([task.id])
+    const latest = tasks?.find((t) => t.id === task.id)
+    if (tasks && !latest) setLiveNotice(`"${task.name}" was removed from this board by someone else while you were moving it.`)
+    else if (latest && latest.status !== status) setLiveNotice(`"${task.name}" was moved by someone else while you were moving it.`)
+  }
+
+  const findTask = (taskId: number) =>
+    Object.values(columns).flatMap((column) => column.tasks).find((task) => task.id === taskId)
+
+  const onDragStart = (start: DragStart) => {
+    isDragging.current = true
+    heldIds.current.add(Number.parseInt(start.draggableId))
+  }
+
+  // Subtask progress and blocked markers follow the board's own state, so they update as cards are dragged
+  const columnStatuses = Object.values(columns).map((column) => ({ key: column.id, category: column.category }))
+  const statusById = new Map(
+    Object.values(columns).flatMap((column) => column.tasks.map((task) => [task.id, task.status] as const)),
+  )
+  const getTaskProgress = (task: KanbanTask) =>
+    getSubtaskProgress(
+      columnStatuses,
+      (task.subtasks ?? []).map((subtask) => ({ status: statusById.get(subtask.id) ?? subtask.status })),
+    )
+  const isTaskBlocked = (task: KanbanTask) =>
+    isBlocked(
+      columnStatuses,
+      (task.blockedBy ?? []).map(({ blocker }) => ({ status: statusById.get(blocker.id) ?? blocker.status })),
+    )
+
+  const boardLanes = groupBy ? lanes : [{ id: ALL_LANE, title: "" }]
+
+  const getLaneTasks = (tasks: KanbanTask[], laneId: string) =>
+    groupBy ? tasks.filter((task) => getLaneId(task, groupBy) === laneId) : tasks
+
+  const toggleLane = (laneId: string) => {
+    setCollapsedLanes((prev) => ({ ...prev, [laneId]: !prev[laneId] }))
+  }
 
   const onDragEnd = (result: DropResult) => {
     const { source, destination, draggableId } = result
 
-    if (!destination) return
-    if (source.droppableId === destination.droppableId && source.index === destination.index) return
+    // Catch up on changes that arrived during the drag; the dragged card stays held
+    isDragging.current = false
+    const pending = [...pendingIds.current]
+    pendingIds.current.clear()
+    if (pending.length > 0) refreshTasks(pending)
 
-    const startColId = source.droppableId as keyof KanbanData
-    const finishColId = destination.droppableId as keyof KanbanData
+    const taskId = Number.parseInt(draggableId)
+    const movedTask = findTask(taskId)
+    if (!movedTask) {
+      heldIds.current.delete(taskId)
+      return
+    }
+    if (!destination || (source.droppableId === destination.droppableId && source.index === destination.index)) {
+      releaseTask(movedTask, movedTask.status)
+      return
+    }
 
-    const startCol = columns[startColId]
-    const finishCol = columns[finishColId]
+    const start = parseDroppableId(source.droppableId)
+    const finish = parseDroppableId(destination.droppableId)
+    const changesLane = !!groupBy && start.laneId !== finish.laneId
 
-    const startTasks = Array.from(startCol.tasks)
-    const [movedTask] = startTasks.splice(source.index, 1)
+    // The card takes on its new column's status and, across lanes, the lane's grouped field
+    let droppedTask: KanbanTask = { ...movedTask, status: finish.status }
+    if (groupBy && changesLane) {
+      droppedTask = { ...droppedTask, ...getLaneFields(groupBy, finish.laneId) }
+      if (groupBy === "assignee") {
+        const lane = lanes.find((lane) => lane.id === finish.laneId)
+        droppedTask.assignee = finish.laneId === UNASSIGNED_LANE ? null : { name: lane?.title ?? "" }
+      }
+    }
 
     // Optimistically update UI
-    if (startColId === finishColId) {
-      startTasks.splice(destination.index, 0, movedTask)
-      const newCol = { ...startCol, tasks: startTasks }
-      setColumns({ ...columns, [startColId]: newCol })
-    } else {
-      const finishTasks = Array.from(finishCol.tasks)
-      finishTasks.splice(destination.index, 0, movedTask)
-      const newStartCol = { ...startCol, tasks: startTasks }
-      const newFinishCol = { ...finishCol, tasks: finishTasks }
-      setColumns({ ...columns, [startColId]: newStartCol, [finishColId]: newFinishCol })
+    const nextColumns = {
+      ...columns,
+      [start.status]: { ...columns[start.status], tasks: columns[start.status].tasks.filter((task) => task.id !== movedTask.id) },
     }
+    const finishTasks = Array.from(nextColumns[finish.status].tasks)
+
+    // Positions are relative to the cards in the same lane; the rest of the column keeps its order
+    const laneTasks = getLaneTasks(finishTasks, finish.laneId)
+    const previousTask = laneTasks[destination.index - 1]
+    const nextTask = laneTasks[destination.index]
+    const insertAt = previousTask
+      ? finishTasks.indexOf(previousTask) + 1
+      : nextTask
+        ? finishTasks.indexOf(nextTask)
+        : finishTasks.length
+    finishTasks.splice(insertAt, 0, droppedTask)
+    nextColumns[finish.status] = { ...nextColumns[finish.status], tasks: finishTasks }
+    setColumns(nextColumns)
+
+    const lane = groupBy && changesLane ? { field: groupBy, id: finish.laneId } : null
 
     // Update the database
     startTransition(async () => {
-      await updateTaskStatus(Number.parseInt(draggableId), finishColId)
+      const result = await runGuarded((overrides) =>
+        moveTask(taskId, finish.status, previousTask?.id ?? null, nextTask?.id ?? null, overrides, lane),
+      )
+      // A refused move puts just this card back, keeping live changes to other cards made in the meantime
+      const saved = !!result && !result.error
+      if (!saved) setColumns((prev) => mergeBoardColumns(prev, [movedTask.id], [movedTask]))
+      await releaseTask(movedTask, saved ? finish.status : movedTask.status)
     })
   }
 
   return (
-    <DragDropContext onDragEnd={onDragEnd}>
-      <div className="flex space-x-6 overflow-x-auto pb-4">
-        {Object.values(columns).map((column) => (
-          <Droppable key={column.id} droppableId={column.id}>
-            {(provided, snapshot) => (
-              <div
-                ref={provided.innerRef}
-                {...provided.droppableProps}
-                className={cn(
-                  "flex-shrink-0 w-80 transition-colors rounded-lg",
-                  snapshot.isDraggingOver ? "bg-background-light" : "bg-background-dark",
-                )}
-              >
-                <Card className="bg-transparent border-0 shadow-none">
-                  <CardHeader className="pb-3 px-4 pt-4">
-                    <div className="flex items-center justify-between">
-                      <CardTitle className="text-sm font-medium">
-                        {column.title}
-                        <Badge variant="secondary" className="ml-2">
-                          {column.tasks.length}
-                        </Badge>
-                      </CardTitle>
+    <DragDropContext onDragStart={onDragStart} onDragEnd={onDragEnd}>
+      {liveNotice && (
+        <div className="mb-4 flex items-center justify-between text-sm text-muted-foreground bg-muted p-3 rounded-md" role="status">
+          {liveNotice}
+          <Button variant="ghost" size="sm" onClick={() => setLiveNotice(null)} aria-label="Dismiss">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+      <div className="overflow-x-auto pb-4">
+        <div className="inline-flex min-w-full flex-col space-y-4">
+          {groupBy && (
+            <div className="flex space-x-6">
+              {Object.values(columns).map((column) => (
+                <div key={column.id} className="flex-shrink-0 w-80 px-4">
+                  <ColumnHeader column={column} />
+                </div>
+              ))}
+            </div>
+          )}
+          {boardLanes.map((lane) => {
+            const collapsed = !!collapsedLanes[lane.id]
+            return (
+              <section key={lane.id} className="space-y-2">
+                {groupBy && (
+                  <div className="flex items-center space-x-4 border-b border-border pb-2">
+                    <button
+                      type="button"
+                      onClick={() => toggleLane(lane.id)}
+                      className="flex items-center text-sm font-medium"
+                      aria-expanded={!collapsed}
+                    >
+                      {collapsed ? <ChevronRight className="mr-1 h-4 w-4" /> : <ChevronDown className="mr-1 h-4 w-4" />}
+                      {lane.title}
+                    </button>
+                    {/* Per-column counts stay visible while the lane is collapsed */}
+                    <div className="flex items-center space-x-3 text-xs text-muted-foreground">
+                      {Object.values(columns).map((column) => (
+                        <span key={column.id} className="flex items-center" title={column.title}>
+                          <span className="mr-1 h-2 w-2 rounded-full" style={{ backgroundColor: column.color }} />
+                          {getLaneTasks(column.tasks, lane.id).length}
+                        </span>
+                      ))}
                     </div>
-                  </CardHeader>
-                  <CardContent className="space-y-3 min-h-[100px] px-4 pb-4">
-                    {column.tasks.map((task, index) => (
-                      <Draggable key={task.id} draggableId={String(task.id)} index={index}>
-                        {(provided, snapshot) => (
-                          <div ref={provided.innerRef} {...provided.draggableProps} {...provided.dragHandleProps}>
-                            <Card
+                  </div>
+                )}
+                {!collapsed && (
+                  <div className="flex space-x-6">
+                    {Object.values(columns).map((column) => {
+                      const overLimit = isOverWipLimit(column.tasks.length, column.wipLimit)
+                      return (
+                        <Droppable key={column.id} droppableId={toDroppableId(lane.id, column.id)}>
+                          {(provided, snapshot) => (
+                            <div
+                              ref={provided.innerRef}
+                              {...provided.droppableProps}
                               className={cn(
-                                "cursor-pointer hover:shadow-md transition-shadow",
-                                snapshot.isDragging && "shadow-lg ring-2 ring-primary",
+                                "flex-shrink-0 w-80 transition-colors rounded-lg",
+                                snapshot.isDraggingOver ? "bg-background-light" : "bg-background-dark",
+                                overLimit && "ring-2 ring-inset ring-red-400",
                               )}
                             >
-                              <CardContent className="p-3">
-                                <div className="space-y-3">
-                                  <div className="flex items-start justify-between gap-2">
-                                    <h4 className={`font-medium text-sm leading-tight ${poppins.className}`}>{task.name}</h4>
-                                    <Badge
-                                      variant={
-                                        task.priority === "high"
-                                          ? "destructive"
-                                          : task.priority === "medium"
-                                            ? "default"
-                                            : "secondary"
-                                      }
-                                      className="text-xs flex-shrink-0 capitalize"
-                                    >
-                                      {task.priority}
-                                    </Badge>
-                                  </div>
-                                  <div className="flex items-center justify-between">
-                                    <div className="flex items-center space-x-2">
-                                      <Avatar className="h-6 w-6">
-                                        <AvatarName name={task.assignee?.name || "??"} />
-                                      </Avatar>
-                                      <span className="text-xs text-muted-foreground">
-                                        {task.assignee?.name || "Unassigned"}
-                                      </span>
+                              <Card className="bg-transparent border-0 shadow-none">
+                                {!groupBy && (
+                                  <CardHeader className="pb-3 px-4 pt-4">
+                                    <div className="flex items-center justify-between">
+                                      <ColumnHeader column={column} />
                                     </div>
-                                    {task.dueDate && (
-                                      <div className="flex items-center space-x-1 text-xs text-muted-foreground">
-                                        <Clock className="h-3 w-3" />
-                                        <span>
-                                          {new Date(task.dueDate).toLocaleDateString("en-US", {
-                                            month: "short",
-                                            day: "numeric",
-                                          })}
-                                        </span>
-                                      </div>
-                                    )}
-                                  </div>
-                                </div>
-                              </CardContent>
-                            </Card>
-                          </div>
-                        )}
-                      </Draggable>
-                    ))}
-                    {provided.placeholder}
-                  </CardContent>
-                </Card>
-              </div>
-            )}
-          </Droppable>
-        ))}
+                                  </CardHeader>
+                                )}
+                                <CardContent className={cn("space-y-3 min-h-[100px] px-4 pb-4", groupBy && "pt-4")}>
+                                  {getLaneTasks(column.tasks, lane.id).map((task, index) => (
+                                    <TaskCard
+                                      key={task.id}
+                                      task={task}
+                                      index={index}
+                                      subtaskProgress={getTaskProgress(task)}
+                                      blocked={isTaskBlocked(task)}
+                                      readOnly={readOnly}
+                                    />
+                                  ))}
+                                  {provided.placeholder}
+                                </CardContent>
+                              </Card>
+                            </div>
+                          )}
+                        </Droppable>
+                      )
+                    })}
+                  </div>
+                )}
+              </section>
+            )
+          })}
+        </div>
       </div>
+      {guardDialog}
     </DragDropContext>
   )
 }
@@ -0,0 +1,18 @@
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+
+import type { Label } from "@/app/generated/prisma/client"
+
+// A label chip tinted with the label's color
+export function LabelBadge({ label, className }: { label: Pick<Label, "name" | "color">; className?: string }) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn("gap-1 font-normal", className)}
+      style={{ borderColor: label.color, backgroundColor: `${label.color}1A` }}
+    >
+      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: label.color }} />
+      {label.name}
+    </Badge>
+  )
+}
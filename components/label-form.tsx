@@ -0,0 +1,71 @@
+"use client"
+
+import { useActionState, useEffect } from "react"
+import { useFormStatus } from "react-dom"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { createLabel, updateLabel } from "@/app/(dashboard)/settings/labels/actions"
+import type { Label as TaskLabel } from "@/app/generated/prisma/client"
+
+type ActionState = {
+    error: string | null;
+    success: boolean;
+    message?: string;
+}
+
+const initialState: ActionState = {
+    message: "",
+    success: false,
+    error: null,
+}
+
+function SubmitButton({ isEditing }: { isEditing: boolean }) {
+    const { pending } = useFormStatus()
+    return (
+        <Button type="submit" disabled={pending}>
+            {pending ? "Saving..." : isEditing ? "Save Changes" : "Add Label"}
+        </Button>
+    )
+}
+
+// Create a new label, or rename/recolor `label` when given
+export function LabelForm({ label, onFinish }: { label?: TaskLabel; onFinish?: () => void }) {
+    // Create a wrapper function that matches useActionState signature
+    const labelAction = async (prevState: ActionState, formData: FormData): Promise<ActionState> => {
+        return label ? updateLabel(label.id, formData) : createLabel(formData)
+    }
+
+    const [state, formAction] = useActionState(labelAction, initialState)
+
+    useEffect(() => {
+        if (state.message) {
+            if (state.success && onFinish) {
+                onFinish()
+            }
+        }
+    }, [state, onFinish])
+
+    return (
+        <form action={formAction} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2 col-span-2">
+                    <Label htmlFor="label-name">Name</Label>
+                    <Input id="label-name" name="name" defaultValue={label?.name} required />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="label-color">Color</Label>
+                    <Input id="label-color" name="color" type="color" defaultValue={label?.color ?? "#4BBEC5"} className="p-1" />
+                </div>
+            </div>
+            {state.error && (
+                <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+                    {state.error}
+                </div>
+            )}
+            <div className="flex justify-end">
+                <SubmitButton isEditing={!!label} />
+            </div>
+        </form>
+    )
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ChevronDown } from "lucide-react"
+import { LabelBadge } from "./label-badge"
+
+import type { Label } from "@/app/generated/prisma/client"
+
+// Multi-select for task labels. Selected ids are submitted as repeated "labelIds" form fields.
+export function LabelPicker({ labels, defaultValue = [] }: { labels: Label[]; defaultValue?: number[] }) {
+  const [selectedIds, setSelectedIds] = useState<number[]>(defaultValue)
+  const selected = labels.filter((label) => selectedIds.includes(label.id))
+
+  const toggle = (labelId: number, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, labelId] : prev.filter((id) => id !== labelId)))
+  }
+
+  return (
+    <>
+      {selectedIds.map((id) => (
+        <input key={id} type="hidden" name="labelIds" value={id} />
+      ))}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button id="labels" type="button" variant="outline" className="h-auto min-h-9 w-full justify-between font-normal">
+            <span className="flex flex-wrap gap-1">
+              {selected.length === 0 ? (
+                <span className="text-muted-foreground">Select labels</span>
+              ) : (
+                selected.map((label) => <LabelBadge key={label.id} label={label} />)
+              )}
+            </span>
+            <ChevronDown className="h-4 w-4 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          {labels.length === 0 && <p className="px-2 py-1.5 text-sm text-muted-foreground">No labels yet. Add them in Settings.</p>}
+          {labels.map((label) => (
+            <DropdownMenuCheckboxItem
+              key={label.id}
+              checked={selectedIds.includes(label.id)}
+              onCheckedChange={(checked) => toggle(label.id, checked)}
+              // Keep the menu open so several labels can be picked in a row
+              onSelect={(event) => event.preventDefault()}
+            >
+              <span className="mr-2 h-2 w-2 rounded-full" style={{ backgroundColor: label.color }} />
+              {label.name}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  )
+}
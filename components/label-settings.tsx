@@ -0,0 +1,186 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Edit, Merge, Plus, Trash2 } from "lucide-react"
+import { deleteLabel, mergeLabel } from "@/app/(dashboard)/settings/labels/actions"
+import { LabelBadge } from "./label-badge"
+import { LabelForm } from "./label-form"
+
+import type { Label as TaskLabel } from "@/app/generated/prisma/client"
+
+function MergeLabelDialog({
+  label,
+  labels,
+  taskCount,
+  onClose,
+}: {
+  label: TaskLabel
+  labels: TaskLabel[]
+  taskCount: number
+  onClose: () => void
+}) {
+  const [targetId, setTargetId] = useState<string>()
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+  const otherLabels = labels.filter((l) => l.id !== label.id)
+
+  const handleMerge = () => {
+    if (!targetId) return
+    startTransition(async () => {
+      const result = await mergeLabel(label.id, Number.parseInt(targetId))
+      if (result.error) {
+        setError(result.error)
+      } else {
+        onClose()
+      }
+    })
+  }
+
+  return (
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>Merge &ldquo;{label.name}&rdquo;</DialogTitle>
+        <DialogDescription>
+          {taskCount} task(s) will get the chosen label instead, and &ldquo;{label.name}&rdquo; will be deleted.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-2">
+        <Label htmlFor="target-label">Merge into</Label>
+        <Select value={targetId} onValueChange={setTargetId}>
+          <SelectTrigger id="target-label">
+            <SelectValue placeholder="Select label" />
+          </SelectTrigger>
+          <SelectContent>
+            {otherLabels.map((l) => (
+              <SelectItem key={l.id} value={l.id.toString()}>
+                {l.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">{error}</div>}
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={handleMerge} disabled={isPending || !targetId}>
+          {isPending ? "Merging..." : "Merge Label"}
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  )
+}
+
+// `canEdit` is false for viewers, who see the labels read-only
+export function LabelSettings({
+  labels,
+  taskCounts,
+  canEdit,
+}: {
+  labels: TaskLabel[]
+  taskCounts: Record<number, number>
+  canEdit: boolean
+}) {
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [mergingId, setMergingId] = useState<number | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const editingLabel = labels.find((label) => label.id === editingId)
+  const mergingLabel = labels.find((label) => label.id === mergingId)
+
+  const handleDelete = (label: TaskLabel) => {
+    const count = taskCounts[label.id] ?? 0
+    if (count > 0 && !confirm(`Remove "${label.name}" from ${count} task(s) and delete it?`)) return
+
+    setError(null)
+    startTransition(async () => {
+      const result = await deleteLabel(label.id)
+      if (result.error) setError(result.error)
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Labels</CardTitle>
+          <CardDescription>Labels tag tasks across every project.</CardDescription>
+        </div>
+        {canEdit && (
+          <Button onClick={() => setIsCreating(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Label
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {labels.length === 0 && <p className="text-sm text-muted-foreground">No labels yet.</p>}
+        {labels.map((label) => (
+          <div key={label.id} className="flex items-center justify-between rounded-md border border-border p-3">
+            <div className="flex items-center space-x-3">
+              <LabelBadge label={label} />
+              <span className="text-xs text-muted-foreground">{taskCounts[label.id] ?? 0} tasks</span>
+            </div>
+            {canEdit && (
+              <div className="flex items-center space-x-1">
+                <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Edit ${label.name}`}
+                  onClick={() => setEditingId(label.id)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Merge ${label.name}`}
+                  disabled={labels.length <= 1} onClick={() => setMergingId(label.id)}>
+                  <Merge className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8 text-primary" aria-label={`Delete ${label.name}`}
+                  disabled={isPending} onClick={() => handleDelete(label)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+        {error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">{error}</div>}
+      </CardContent>
+
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Label</DialogTitle>
+          </DialogHeader>
+          <LabelForm onFinish={() => setIsCreating(false)} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editingLabel} onOpenChange={(open) => !open && setEditingId(null)}>
+        {editingLabel && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Edit Label</DialogTitle>
+            </DialogHeader>
+            <LabelForm key={editingLabel.id} label={editingLabel} onFinish={() => setEditingId(null)} />
+          </DialogContent>
+        )}
+      </Dialog>
+
+      <Dialog open={!!mergingLabel} onOpenChange={(open) => !open && setMergingId(null)}>
+        {mergingLabel && (
+          <MergeLabelDialog
+            key={mergingLabel.id}
+            label={mergingLabel}
+            labels={labels}
+            taskCount={taskCounts[mergingLabel.id] ?? 0}
+            onClose={() => setMergingId(null)}
+          />
+        )}
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Markdown } from "./markdown"
+import { MentionTextarea } from "./mention-textarea"
+import type { MentionUser } from "./mention"
+import { parseChecklist, setChecklistItem } from "@/lib/checklist"
+import { cn } from "@/lib/utils"
+
+type Mode = "write" | "preview"
+
+// Textarea with a Write/Preview toggle and @mention suggestions. The Markdown is submitted under `name`,
+// including checkboxes ticked in the preview.
+export function MarkdownEditor({
+  id,
+  name,
+  users,
+  defaultValue = "",
+}: {
+  id: string
+  name: string
+  users: MentionUser[]
+  defaultValue?: string
+}) {
+  const [value, setValue] = useState(defaultValue)
+  const [mode, setMode] = useState<Mode>("write")
+
+  const handleToggle = (line: number, checked: boolean) => {
+    const item = parseChecklist(value).find((candidate) => candidate.line === line)
+    if (item) setValue(setChecklistItem(value, item.index, checked))
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-1" role="tablist">
+        {(["write", "preview"] as const).map((option) => (
+          <Button
+            key={option}
+            type="button"
+            role="tab"
+            size="sm"
+            variant={mode === option ? "secondary" : "ghost"}
+            aria-selected={mode === option}
+            onClick={() => setMode(option)}
+            className="capitalize"
+          >
+            {option}
+          </Button>
+        ))}
+      </div>
+      {/* Kept mounted while previewing so the value is still submitted */}
+      <MentionTextarea
+        id={id}
+        name={name}
+        users={users}
+        value={value}
+        onValueChange={setValue}
+        placeholder="Markdown is supported, e.g. **bold**, lists and - [ ] checklists. Type @ to mention someone."
+        className={cn(mode === "preview" && "hidden")}
+      />
+      {mode === "preview" && (
+        <div className="min-h-[80px] rounded-md border px-3 py-2">
+          {value.trim() ? <Markdown source={value} users={users} onToggleTask={handleToggle} /> : <p className="text-sm text-muted-foreground">Nothing to preview.</p>}
+        </div>
+      )}
+    </div>
+  )
+}
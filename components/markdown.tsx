@@ -0,0 +1,136 @@
+import { Fragment } from "react"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Mention, type MentionUser } from "./mention"
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from "@/lib/markdown"
+import { cn } from "@/lib/utils"
+
+const HEADING_CLASSES = ["text-lg font-semibold", "text-base font-semibold", "text-sm font-semibold"]
+
+function Inline({ nodes, users }: { nodes: MarkdownInline[]; users: MentionUser[] }) {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={index}>{node.text}</Fragment>
+      case "code":
+        return (
+          <code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-xs">
+            {node.text}
+          </code>
+        )
+      case "strong":
+        return (
+          <strong key={index} className="font-semibold text-foreground">
+            <Inline nodes={node.children} users={users} />
+          </strong>
+        )
+      case "emphasis":
+        return (
+          <em key={index}>
+            <Inline nodes={node.children} users={users} />
+          </em>
+        )
+      case "link":
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary underline">
+            <Inline nodes={node.children} users={users} />
+          </a>
+        )
+      case "mention":
+        return <Mention key={index} userId={node.userId} name={node.name} users={users} />
+    }
+  })
+}
+
+function Block({
+  block,
+  users,
+  onToggleTask,
+}: {
+  block: MarkdownBlock
+  users: MentionUser[]
+  onToggleTask?: (line: number, checked: boolean) => void
+}) {
+  switch (block.type) {
+    case "heading": {
+      const Heading = `h${Math.min(block.level + 2, 6)}` as "h3" | "h4" | "h5" | "h6"
+      return (
+        <Heading className={cn("text-foreground", HEADING_CLASSES[Math.min(block.level, 3) - 1])}>
+          <Inline nodes={block.children} users={users} />
+        </Heading>
+      )
+    }
+    case "paragraph":
+      return (
+        <p className="whitespace-pre-line">
+          <Inline nodes={block.children} users={users} />
+        </p>
+      )
+    case "code":
+      return (
+        <pre className="overflow-x-auto rounded-md bg-muted p-3 font-mono text-xs">
+          <code>{block.text}</code>
+        </pre>
+      )
+    case "list": {
+      const List = block.ordered ? "ol" : "ul"
+      const hasTasks = block.items.some((item) => item.task)
+      return (
+        <List className={cn("space-y-1 pl-5", block.ordered ? "list-decimal" : "list-disc", hasTasks && "list-none pl-0")}>
+          {block.items.map((item, index) =>
+            item.task ? (
+              <li key={index}>
+                <label className={cn("flex items-center gap-2", onToggleTask && "cursor-pointer")}>
+                  <Checkbox
+                    checked={item.task.checked}
+                    disabled={!onToggleTask}
+                    onCheckedChange={() => onToggleTask?.(item.task!.line, !item.task!.checked)}
+                  />
+                  <span className={cn(item.task.checked && "line-through")}>
+                    <Inline nodes={item.children} users={users} />
+                  </span>
+                </label>
+              </li>
+            ) : (
+              <li key={index}>
+                <Inline nodes={item.children} users={users} />
+              </li>
+            ),
+          )}
+        </List>
+      )
+    }
+    case "quote":
+      return (
+        <blockquote className="space-y-2 border-l-2 pl-3 italic">
+          {block.children.map((child, index) => (
+            <Block key={index} block={child} users={users} />
+          ))}
+        </blockquote>
+      )
+    case "rule":
+      return <hr className="border-border" />
+  }
+}
+
+// Renders Markdown as React elements, so HTML in the source is shown as text rather than injected.
+// Task-list checkboxes are only clickable when onToggleTask is given; it receives the item's source line.
+// `users` supplies the current names of mentioned users.
+export function Markdown({
+  source,
+  users = [],
+  onToggleTask,
+  className,
+}: {
+  source: string
+  users?: MentionUser[]
+  onToggleTask?: (line: number, checked: boolean) => void
+  className?: string
+}) {
+  return (
+    <div className={cn("space-y-2 text-sm text-muted-foreground break-words", className)}>
+      {parseMarkdown(source).map((block, index) => (
+        <Block key={index} block={block} users={users} onToggleTask={onToggleTask} />
+      ))}
+    </div>
+  )
+}
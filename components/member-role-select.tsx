@@ -0,0 +1,50 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { updateMemberRole } from "@/app/(dashboard)/team/actions"
+import { isRole, ROLE_LABELS, type Role } from "@/lib/permissions"
+
+// A teammate's role, as a picker when the current user may change it and a badge otherwise
+export function MemberRoleSelect({
+  userId,
+  role,
+  assignableRoles,
+}: {
+  userId: number
+  role: string
+  assignableRoles: Role[]
+}) {
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+  const title = isRole(role) ? ROLE_LABELS[role].title : role
+
+  if (assignableRoles.length === 0) return <Badge variant="secondary">{title}</Badge>
+
+  const handleChange = (value: string) => {
+    setError(null)
+    startTransition(async () => {
+      const result = await updateMemberRole(userId, value)
+      if (result.error) setError(result.error)
+    })
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <Select value={role} onValueChange={handleChange} disabled={isPending}>
+        <SelectTrigger className="w-32" aria-label="Role">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {assignableRoles.map((option) => (
+            <SelectItem key={option} value={option} title={ROLE_LABELS[option].description}>
+              {ROLE_LABELS[option].title}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Textarea, type TextareaProps } from "@/components/ui/textarea"
+import { Avatar, AvatarName } from "@/components/ui/avatar"
+import { findMentionQuery, insertMention } from "@/lib/mentions"
+import { cn } from "@/lib/utils"
+import type { MentionUser } from "./mention"
+
+const MAX_SUGGESTIONS = 6
+
+type MentionTextareaProps = Omit<TextareaProps, "value" | "defaultValue" | "onChange"> & {
+  users: MentionUser[]
+  value?: string
+  defaultValue?: string
+  onValueChange?: (value: string) => void
+}
+
+// Textarea that suggests users after "@" and inserts the picked one as a mention.
+// Works controlled (value + onValueChange) or uncontrolled (defaultValue).
+export function MentionTextarea({ users, value, defaultValue = "", onValueChange, className, ...props }: MentionTextareaProps) {
+  const ref = useRef<HTMLTextAreaElement>(null)
+  const [innerValue, setInnerValue] = useState(defaultValue)
+  const [query, setQuery] = useState<{ start: number; query: string } | null>(null)
+  const [highlighted, setHighlighted] = useState(0)
+  const [pendingCaret, setPendingCaret] = useState<number | null>(null)
+  const text = value ?? innerValue
+
+  const suggestions = query
+    ? users.filter((user) => user.name.toLowerCase().includes(query.query.toLowerCase())).slice(0, MAX_SUGGESTIONS)
+    : []
+
+  // Put the caret after an inserted mention once the new text has rendered
+  useEffect(() => {
+    if (pendingCaret === null || !ref.current) return
+    ref.current.focus()
+    ref.current.setSelectionRange(pendingCaret, pendingCaret)
+    setPendingCaret(null)
+  }, [pendingCaret])
+
+  const change = (next: string, caret: number) => {
+    setInnerValue(next)
+    onValueChange?.(next)
+    setQuery(findMentionQuery(next, caret))
+    setHighlighted(0)
+  }
+
+  const pick = (user: MentionUser) => {
+    if (!query || !ref.current) return
+    const inserted = insertMention(text, query.start, ref.current.selectionStart, user)
+    setInnerValue(inserted.text)
+    onValueChange?.(inserted.text)
+    setQuery(null)
+    setPendingCaret(inserted.caret)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault()
+      const step = event.key === "ArrowDown" ? 1 : -1
+      setHighlighted((index) => (index + step + suggestions.length) % suggestions.length)
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault()
+      pick(suggestions[highlighted])
+    } else if (event.key === "Escape") {
+      event.preventDefault()
+      setQuery(null)
+    }
+  }
+
+  return (
+    <div className={cn("relative", className)}>
+      <Textarea
+        {...props}
+        ref={ref}
+        value={text}
+        onChange={(event) => change(event.target.value, event.target.selectionStart)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setQuery(null)}
+        aria-autocomplete="list"
+        aria-expanded={suggestions.length > 0}
+      />
+      {suggestions.length > 0 && (
+        <ul role="listbox" className="absolute left-0 z-50 mt-1 w-64 rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((user, index) => (
+            <li
+              key={user.id}
+              role="option"
+              aria-selected={index === highlighted}
+              // Pick on mouse down, before the textarea's blur closes the list
+              onMouseDown={(event) => {
+                event.preventDefault()
+                pick(user)
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                "flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm",
+                index === highlighted && "bg-accent text-accent-foreground",
+              )}
+            >
+              <Avatar className="h-6 w-6">
+                <AvatarName name={user.name} className="text-xs" />
+              </Avatar>
+              {user.name}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
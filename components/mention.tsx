@@ -0,0 +1,23 @@
+import { Fragment } from "react"
+import { splitMentions } from "@/lib/mentions"
+
+import type { User } from "@/app/generated/prisma/client";
+
+export type MentionUser = Pick<User, "id" | "name">
+
+// A highlighted @name. The current name is looked up by id; the name stored with the mention is the fallback.
+export function Mention({ userId, name, users }: { userId: number; name: string; users: MentionUser[] }) {
+  const user = users.find((candidate) => candidate.id === userId)
+  return <span className="rounded bg-primary/10 px-1 font-medium text-primary">@{user?.name ?? name}</span>
+}
+
+// Plain text with its mentions highlighted
+export function MentionText({ text, users }: { text: string; users: MentionUser[] }) {
+  return splitMentions(text).map((part, index) =>
+    part.type === "text" ? (
+      <Fragment key={index}>{part.text}</Fragment>
+    ) : (
+      <Mention key={index} userId={part.userId} name={part.name} users={users} />
+    ),
+  )
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { useCallback, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import type { GuardedResult, MoveGuard } from "@/lib/workflow"
+
+type Prompt = {
+  message: string
+  guard: MoveGuard
+  resolve: (confirmed: boolean) => void
+}
+
+const GUARD_NOTES: Record<MoveGuard, string> = {
+  wip_limit: "The override is recorded in the task's activity.",
+  open_subtasks: "Its subtasks will stay open.",
+  blocked: "Its blockers stay linked until they are removed.",
+}
+
+// Run a status change, asking the user to confirm each guard it trips and retrying with that override.
+// Resolves with the action's final result, or null when the user cancels.
+export function useMoveGuard() {
+  const [prompt, setPrompt] = useState<Prompt | null>(null)
+
+  const runGuarded = useCallback(async <T extends GuardedResult>(action: (overrides: MoveGuard[]) => Promise<T>) => {
+    const overrides: MoveGuard[] = []
+    for (;;) {
+      const result = await action(overrides)
+      const guard = result.guard
+      if (!guard || overrides.includes(guard)) return result
+
+      const confirmed = await new Promise<boolean>((resolve) => setPrompt({ message: result.error ?? "", guard, resolve }))
+      setPrompt(null)
+      if (!confirmed) return null
+      overrides.push(guard)
+    }
+  }, [])
+
+  const guardDialog = (
+    <Dialog open={!!prompt} onOpenChange={(open) => !open && prompt?.resolve(false)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Move anyway?</DialogTitle>
+          <DialogDescription>
+            {prompt?.message} {prompt && GUARD_NOTES[prompt.guard]}
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => prompt?.resolve(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => prompt?.resolve(true)}>Move Anyway</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+
+  return { runGuarded, guardDialog }
+}
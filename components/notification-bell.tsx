@@ -0,0 +1,115 @@
+"use client"
+
+import { useTransition } from "react"
+import Link from "next/link"
+import { formatDistanceToNow } from "date-fns"
+import { Bell } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { markAllNotificationsRead, markNotificationRead } from "@/app/(dashboard)/notifications/actions"
+import { describeNotification } from "@/lib/notifications"
+import { cn, formatTaskKey } from "@/lib/utils"
+
+import type { Notification, Project, Task, User } from "@/app/generated/prisma/client";
+
+export type NotificationWithTask = Notification & {
+  actor: Pick<User, "id" | "name"> | null;
+  task: (Pick<Task, "id" | "number" | "name"> & { project: Pick<Project, "key"> }) | null;
+};
+
+// Bell with the unread count; opens the latest notifications
+export function NotificationBell({
+  notifications,
+  unreadCount,
+}: {
+  notifications: NotificationWithTask[]
+  unreadCount: number
+}) {
+  const [isPending, startTransition] = useTransition()
+
+  const markRead = (notification: NotificationWithTask) => {
+    if (notification.readAt) return
+    startTransition(async () => {
+      await markNotificationRead(notification.id)
+    })
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-8 w-8" aria-label={`Notifications (${unreadCount} unread)`}>
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-medium text-primary-foreground">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="start">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={isPending || unreadCount === 0}
+            onClick={() =>
+              startTransition(async () => {
+                await markAllNotificationsRead()
+              })
+            }
+          >
+            Mark all read
+          </Button>
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 && <p className="px-2 py-4 text-center text-sm text-muted-foreground">You&apos;re all caught up.</p>}
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.map((notification) => {
+            const taskKey = notification.task ? formatTaskKey(notification.task.project.key, notification.task.number) : "A task"
+            return (
+              <DropdownMenuItem key={notification.id} asChild className="cursor-pointer">
+                <Link
+                  href={notification.task ? `/tasks/${notification.task.id}` : "#"}
+                  onClick={() => markRead(notification)}
+                  className="flex items-start gap-2"
+                >
+                  <span
+                    className={cn("mt-1.5 h-2 w-2 shrink-0 rounded-full", notification.readAt ? "bg-transparent" : "bg-primary")}
+                    aria-label={notification.readAt ? undefined : "Unread"}
+                  />
+                  <span className="min-w-0 flex-1">
+                    <span className={cn("block text-sm", !notification.readAt && "font-medium")}>
+                      {describeNotification({
+                        type: notification.type,
+                        detail: notification.detail,
+                        actorName: notification.actor?.name ?? null,
+                        taskKey,
+                      })}
+                    </span>
+                    {notification.task && <span className="block truncate text-xs text-muted-foreground">{notification.task.name}</span>}
+                    <span className="block text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </span>
+                  </span>
+                </Link>
+              </DropdownMenuItem>
+            )
+          })}
+        </div>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild className="cursor-pointer text-xs text-muted-foreground">
+          <Link href="/settings/notifications">Notification preferences</Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,101 @@
+"use client"
+
+import { useActionState } from "react"
+import { useFormStatus } from "react-dom"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { updateNotificationPreferences } from "@/app/(dashboard)/settings/notifications/actions"
+import { NOTIFICATION_TYPE_LABELS, NOTIFICATION_TYPES, type NotificationType } from "@/lib/notifications"
+import { EMAIL_DELIVERIES, EMAIL_DELIVERY_LABELS, EMAIL_NOTIFICATION_TYPES, type EmailDelivery } from "@/lib/email"
+
+type ActionState = {
+    error: string | null;
+    success: boolean;
+    message?: string;
+}
+
+const initialState: ActionState = {
+    message: "",
+    success: false,
+    error: null,
+}
+
+function SubmitButton() {
+    const { pending } = useFormStatus()
+    return (
+        <Button type="submit" disabled={pending}>
+            {pending ? "Saving..." : "Save Preferences"}
+        </Button>
+    )
+}
+
+// Checkboxes for the notification types the current user wants to receive, and how they get email
+export function NotificationPreferencesForm({
+    preferences,
+}: {
+    preferences: { types: Record<NotificationType, boolean>; emailDelivery: EmailDelivery }
+}) {
+    // Create a wrapper function that matches useActionState signature
+    const preferencesAction = async (prevState: ActionState, formData: FormData): Promise<ActionState> => {
+        return updateNotificationPreferences(formData)
+    }
+
+    const [state, formAction] = useActionState(preferencesAction, initialState)
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Notifications</CardTitle>
+                <CardDescription>Choose what shows up under the bell in the sidebar and what is emailed to you.</CardDescription>
+            </CardHeader>
+            <CardContent>
+                <form action={formAction} className="space-y-4">
+                    {NOTIFICATION_TYPES.map((type) => (
+                        <label key={type} className="flex items-start gap-3 cursor-pointer">
+                            <Checkbox name="types" value={type} defaultChecked={preferences.types[type]} className="mt-0.5" />
+                            <span className="space-y-1">
+                                <span className="block text-sm font-medium">{NOTIFICATION_TYPE_LABELS[type].title}</span>
+                                <span className="block text-sm text-muted-foreground">{NOTIFICATION_TYPE_LABELS[type].description}</span>
+                            </span>
+                        </label>
+                    ))}
+                    <div className="space-y-2 border-t pt-4">
+                        <Label htmlFor="emailDelivery">Email</Label>
+                        <Select name="emailDelivery" defaultValue={preferences.emailDelivery}>
+                            <SelectTrigger id="emailDelivery" className="w-48">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {EMAIL_DELIVERIES.map((delivery) => (
+                                    <SelectItem key={delivery} value={delivery}>
+                                        {EMAIL_DELIVERY_LABELS[delivery]}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <p className="text-sm text-muted-foreground">
+                            {EMAIL_NOTIFICATION_TYPES.map((type) => NOTIFICATION_TYPE_LABELS[type].title).join(" and ")} are also sent
+                            by email.
+                        </p>
+                    </div>
+                    {state.error && (
+                        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+                            {state.error}
+                        </div>
+                    )}
+                    {state.success && state.message && (
+                        <div className="text-sm text-green-600 bg-green-50 p-3 rounded-md">
+                            {state.message}
+                        </div>
+                    )}
+                    <div className="flex justify-end">
+                        <SubmitButton />
+                    </div>
+                </form>
+            </CardContent>
+        </Card>
+    )
+}
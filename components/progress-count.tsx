@@ -0,0 +1,29 @@
+import { ListChecks, ListTree } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+// Compact "3/5" count of finished subtasks or checked checklist items; renders nothing when there are none
+export function ProgressCount({
+  done,
+  total,
+  kind,
+  className,
+}: {
+  done: number
+  total: number
+  kind: "subtasks" | "checklist"
+  className?: string
+}) {
+  if (total === 0) return null
+
+  const Icon = kind === "subtasks" ? ListTree : ListChecks
+  const label = kind === "subtasks" ? "subtasks" : "checklist items"
+  return (
+    <span
+      className={cn("flex items-center gap-1 text-xs text-muted-foreground", done === total && "text-green-600", className)}
+      title={`${done} of ${total} ${label} done`}
+    >
+      <Icon className="h-3 w-3" />
+      {done}/{total}
+    </span>
+  )
+}
@@ -0,0 +1,85 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Avatar, AvatarName } from "@/components/ui/avatar"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Edit } from "lucide-react"
+import { EditProjectForm } from "./edit-project-form"
+import { poppins } from "@/lib/fonts"
+
+import type { Project, User } from "@/app/generated/prisma/client";
+
+type ProjectWithMembers = Project & {
+  members: { userId: number; user: Pick<User, "id" | "name"> }[];
+  _count: { tasks: number };
+};
+
+// `canEdit` is false for viewers, who can't change projects
+export function ProjectList({
+  projects,
+  currentProjectId,
+  canEdit,
+}: {
+  projects: ProjectWithMembers[]
+  currentProjectId: number | null
+  canEdit: boolean
+}) {
+  const [openDialogs, setOpenDialogs] = useState<Record<number, boolean>>({})
+
+  const handleCloseDialog = (projectId: number) => {
+    setOpenDialogs(prev => ({ ...prev, [projectId]: false }))
+  }
+
+  if (projects.length === 0) {
+    return <p className="text-sm text-muted-foreground">No projects yet. Create one to start adding tasks.</p>
+  }
+
+  return (
+    <div className="grid gap-4">
+      {projects.map((project) => (
+        <Dialog key={project.id} open={openDialogs[project.id]} onOpenChange={(open) =>
+          setOpenDialogs(prev => ({ ...prev, [project.id]: open }))
+        }>
+          <Card>
+            <CardContent className="p-6 flex items-start justify-between">
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <h3 className={`font-semibold ${poppins.className}`}>{project.name}</h3>
+                  <Badge variant="outline" className="text-xs text-foreground-muted">{project.key}</Badge>
+                  {project.id === currentProjectId && <Badge className="text-xs">Selected</Badge>}
+                </div>
+                {project.description && <p className="text-sm text-muted-foreground">{project.description}</p>}
+                <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+                  <span>{project._count.tasks} tasks</span>
+                  <div className="flex -space-x-2">
+                    {project.members.map((member) => (
+                      <Avatar key={member.userId} className="h-7 w-7 border-2 border-border" title={member.user.name}>
+                        <AvatarName name={member.user.name} className="text-xs" />
+                      </Avatar>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              {canEdit && (
+                <DialogTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Edit ${project.name}`}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                </DialogTrigger>
+              )}
+            </CardContent>
+          </Card>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Edit Project</DialogTitle>
+            </DialogHeader>
+            <EditProjectForm project={project} onFinish={() => handleCloseDialog(project.id)} />
+          </DialogContent>
+        </Dialog>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+"use client"
+
+import { useTransition } from "react"
+import { useRouter } from "next/navigation"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { selectProject } from "@/app/(dashboard)/projects/actions"
+import type { Project } from "@/app/generated/prisma/client"
+
+type ProjectOption = Pick<Project, "id" | "name" | "key">
+
+export function ProjectSwitcher({ projects, currentProjectId }: { projects: ProjectOption[]; currentProjectId: number | null }) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+
+  const handleChange = (value: string) => {
+    startTransition(async () => {
+      const { error } = await selectProject(Number.parseInt(value))
+      if (!error) router.refresh()
+    })
+  }
+
+  if (projects.length === 0) {
+    return <p className="px-3 text-xs text-muted-foreground">You are not a member of any project yet.</p>
+  }
+
+  return (
+    <Select value={currentProjectId?.toString()} onValueChange={handleChange} disabled={isPending}>
+      <SelectTrigger aria-label="Select project">
+        <SelectValue placeholder="Select project" />
+      </SelectTrigger>
+      <SelectContent>
+        {projects.map((project) => (
+          <SelectItem key={project.id} value={project.id.toString()}>
+            <span className="font-mono text-xs text-foreground-muted mr-2">{project.key}</span>
+            {project.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
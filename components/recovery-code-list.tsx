@@ -0,0 +1,33 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Copy } from "lucide-react"
+
+// Freshly generated recovery codes; they can't be shown again once the user moves on
+export function RecoveryCodeList({ codes }: { codes: string[] }) {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"))
+    setCopied(true)
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app, and
+        they won&apos;t be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-md border border-border bg-muted/50 p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+        <Copy className="mr-2 h-4 w-4" />
+        {copied ? "Copied" : "Copy Codes"}
+      </Button>
+    </div>
+  )
+}
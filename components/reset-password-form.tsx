@@ -0,0 +1,57 @@
+"use client"
+
+import { useActionState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { resetPassword } from "@/app/reset-password/actions"
+
+type ActionState = {
+    error: string | null;
+    success: boolean;
+    message?: string;
+}
+
+const initialState: ActionState = { error: null, success: false }
+
+async function resetPasswordAction(prevState: ActionState, formData: FormData): Promise<ActionState> {
+    return resetPassword(formData)
+}
+
+// New password form for the token from a reset email
+export function ResetPasswordForm({ token }: { token: string }) {
+    const [state, formAction, isPending] = useActionState(resetPasswordAction, initialState)
+
+    if (state.success) {
+        return (
+            <div className="space-y-4 text-center">
+                <p className="text-sm">{state.message}</p>
+                <Button asChild className="w-full">
+                    <Link href="/login">Log In</Link>
+                </Button>
+            </div>
+        )
+    }
+
+    return (
+        <form className="space-y-4" action={formAction}>
+            <input type="hidden" name="token" value={token} />
+            <div className="space-y-2">
+                <Label htmlFor="password">New password</Label>
+                <Input id="password" name="password" type="password" autoComplete="new-password" required />
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm new password</Label>
+                <Input id="confirmPassword" name="confirmPassword" type="password" autoComplete="new-password" required />
+            </div>
+
+            {state.error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">{state.error}</div>}
+
+            <Button className="w-full" disabled={isPending}>
+                {isPending ? "Saving..." : "Set Password"}
+            </Button>
+            <p className="text-center text-xs text-muted-foreground">You&apos;ll be signed out on every device.</p>
+        </form>
+    )
+}
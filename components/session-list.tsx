@@ -0,0 +1,85 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { LogOut, Monitor } from "lucide-react"
+import { revokeOtherSessions, revokeSession } from "@/app/(dashboard)/settings/security/actions"
+import { describeUserAgent } from "@/lib/sessions"
+
+export type SessionSummary = {
+  id: number
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: Date
+  lastSeenAt: Date
+  current: boolean
+}
+
+// The current user's signed-in browsers, with buttons to sign out one or all of the others
+export function SessionList({ sessions }: { sessions: SessionSummary[] }) {
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+  const otherCount = sessions.filter((session) => !session.current).length
+
+  const handleRevoke = (sessionId: number) => {
+    setError(null)
+    startTransition(async () => {
+      const result = await revokeSession(sessionId)
+      if (result.error) setError(result.error)
+    })
+  }
+
+  const handleRevokeOthers = () => {
+    if (!confirm(`Sign out ${otherCount} other session(s)?`)) return
+
+    setError(null)
+    startTransition(async () => {
+      const result = await revokeOtherSessions()
+      if (result.error) setError(result.error)
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Sessions</CardTitle>
+          <CardDescription>Browsers signed in to your account. Sign out any you don&apos;t recognise.</CardDescription>
+        </div>
+        <Button variant="outline" onClick={handleRevokeOthers} disabled={isPending || otherCount === 0}>
+          <LogOut className="mr-2 h-4 w-4" />
+          Sign Out Other Sessions
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">{error}</div>}
+        {sessions.map((session) => (
+          <div key={session.id} className="flex items-center justify-between rounded-md border border-border p-3">
+            <div className="flex items-center space-x-3">
+              <Monitor className="h-5 w-5 text-muted-foreground" />
+              <div className="space-y-0.5">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  {describeUserAgent(session.userAgent)}
+                  {session.current && <Badge variant="secondary">This browser</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {session.ipAddress ?? "Unknown address"} · Last active{" "}
+                  {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })} · Signed in{" "}
+                  {new Date(session.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+            </div>
+            {!session.current && (
+              <Button variant="ghost" size="sm" onClick={() => handleRevoke(session.id)} disabled={isPending}>
+                Sign Out
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
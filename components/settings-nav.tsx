@@ -0,0 +1,45 @@
+"use client"
+
+import Link from "next/link"
+import { usePathname } from "next/navigation"
+import { cn } from "@/lib/utils"
+
+const settingsNavItems = [
+  {
+    title: "Workflow",
+    href: "/settings/workflow",
+  },
+  {
+    title: "Labels",
+    href: "/settings/labels",
+  },
+  {
+    title: "Notifications",
+    href: "/settings/notifications",
+  },
+  {
+    title: "Security",
+    href: "/settings/security",
+  },
+]
+
+export function SettingsNav() {
+  const pathname = usePathname()
+
+  return (
+    <nav className="flex space-x-2 border-b border-border text-sm font-medium">
+      {settingsNavItems.map((item) => (
+        <Link
+          key={item.href}
+          href={item.href}
+          className={cn(
+            "px-3 py-2 -mb-px border-b-2 border-transparent text-muted-foreground transition-all hover:text-primary",
+            pathname === item.href && "border-primary text-primary",
+          )}
+        >
+          {item.title}
+        </Link>
+      ))}
+    </nav>
+  )
+}
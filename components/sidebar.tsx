@@ -1,10 +1,12 @@
 "use client"
 
 import { cn } from "@/lib/utils"
-import { LayoutDashboard, CheckSquare, Kanban, Users, Settings, BarChart3 } from "lucide-react"
+import { LayoutDashboard, CheckSquare, Kanban, Users, Settings, BarChart3, FolderKanban } from "lucide-react"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
 import { AuthDropdown } from "./auth-dropdown"
+import { ProjectSwitcher } from "./project-switcher"
+import { NotificationBell, type NotificationWithTask } from "./notification-bell"
 import { poppins } from "@/lib/fonts"
 
 const sidebarNavItems = [
@@ -23,14 +25,31 @@ const sidebarNavItems = [
     href: "/board",
     icon: Kanban,
   },
+  {
+    title: "Projects",
+    href: "/projects",
+    icon: FolderKanban,
+  },
   {
     title: "Team",
     href: "/team",
     icon: Users,
   },
+  {
+    title: "Settings",
+    href: "/settings",
+    icon: Settings,
+  },
 ]
 
-export function Sidebar() {
+type SidebarProps = {
+  projects: { id: number; name: string; key: string }[]
+  currentProjectId: number | null
+  notifications: NotificationWithTask[]
+  unreadCount: number
+}
+
+export function Sidebar({ projects, currentProjectId, notifications, unreadCount }: SidebarProps) {
   const pathname = usePathname()
 
   return (
@@ -42,7 +61,14 @@ export function Sidebar() {
               <CheckSquare className="h-6 w-6 mr-2 text-primary" />
               <h2 className={`text-lg font-semibold ${poppins.className}`}>TaskFlow</h2>
             </div>
-            <AuthDropdown />
+            <div className="flex items-center gap-1">
+              <NotificationBell notifications={notifications} unreadCount={unreadCount} />
+              <AuthDropdown />
+            </div>
+          </div>
+
+          <div className="px-2 mb-4 lg:px-4">
+            <ProjectSwitcher projects={projects} currentProjectId={currentProjectId} />
           </div>
 
           <div className="space-y-1">
@@ -55,7 +81,8 @@ export function Sidebar() {
                     href={item.href}
                     className={cn(
                       "flex items-center gap-3 rounded-lg px-3 py-2 text-muted-foreground transition-all hover:text-primary",
-                      pathname === item.href && "bg-background text-primary",
+                      (pathname === item.href || (item.href !== "/" && pathname.startsWith(`${item.href}/`))) &&
+                        "bg-background text-primary",
                     )}
                   >
                     <Icon className="h-4 w-4 mr-2" />
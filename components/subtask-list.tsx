@@ -0,0 +1,133 @@
+"use client"
+
+import { useActionState, useState, useTransition } from "react"
+import { useFormStatus } from "react-dom"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { createSubtask, updateTaskStatus } from "@/app/(dashboard)/tasks/actions"
+import { cn, formatTaskKey } from "@/lib/utils"
+import { getFirstStatusKey, getStatusName, getSubtaskProgress, isDoneStatus } from "@/lib/workflow"
+import { useMoveGuard } from "./move-guard-dialog"
+import { ProgressCount } from "./progress-count"
+
+import type { Task as PrismaTask, User, WorkflowStatus } from "@/app/generated/prisma/client";
+
+type Subtask = PrismaTask & {
+  assignee?: Pick<User, "name"> | null;
+};
+
+type ActionState = {
+  error: string | null;
+  success: boolean;
+  message?: string;
+}
+
+const initialState: ActionState = {
+  message: "",
+  success: false,
+  error: null,
+}
+
+function SubmitButton() {
+  const { pending } = useFormStatus()
+  return (
+    <Button type="submit" size="sm" disabled={pending}>
+      {pending ? "Adding..." : "Add subtask"}
+    </Button>
+  )
+}
+
+// Subtasks of a task, with a checkbox to close or reopen each one and a form to add more.
+// Viewers (`canEdit` false) see the list without the form, and the checkboxes are disabled.
+export function SubtaskList({
+  taskId,
+  projectKey,
+  subtasks,
+  statuses,
+  canEdit,
+}: {
+  taskId: number
+  projectKey: string
+  subtasks: Subtask[]
+  statuses: WorkflowStatus[]
+  canEdit: boolean
+}) {
+  const router = useRouter()
+  const [formKey, setFormKey] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+  const { runGuarded, guardDialog } = useMoveGuard()
+
+  // Create a wrapper function that matches useActionState signature
+  const createSubtaskAction = async (prevState: ActionState, formData: FormData): Promise<ActionState> => {
+    const result = await createSubtask(taskId, formData)
+    // Remount the form to clear the input after a successful submit
+    if (result.success) setFormKey((key) => key + 1)
+    return result
+  }
+
+  const [state, formAction] = useActionState(createSubtaskAction, initialState)
+
+  const handleToggle = (subtask: Subtask) => {
+    const status = isDoneStatus(statuses, subtask.status)
+      ? getFirstStatusKey(statuses, "not_started")
+      : getFirstStatusKey(statuses, "done")
+    if (!status) return
+
+    setError(null)
+    startTransition(async () => {
+      const result = await runGuarded((overrides) => updateTaskStatus(subtask.id, status, overrides))
+      if (result?.error) setError(result.error)
+      else if (result) router.refresh()
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <ProgressCount kind="subtasks" {...getSubtaskProgress(statuses, subtasks)} className="text-sm" />
+      {subtasks.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No subtasks yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {subtasks.map((subtask) => (
+            <li key={subtask.id} className="flex items-center gap-3 text-sm">
+              <Checkbox
+                checked={isDoneStatus(statuses, subtask.status)}
+                onCheckedChange={() => handleToggle(subtask)}
+                disabled={isPending || !canEdit}
+                aria-label={`Mark ${subtask.name} as done`}
+              />
+              <Link
+                href={`/tasks/${subtask.id}`}
+                className={cn("hover:underline", isDoneStatus(statuses, subtask.status) && "line-through text-muted-foreground")}
+              >
+                {subtask.name}
+              </Link>
+              <Badge variant="outline" className="text-xs text-foreground-muted">
+                {formatTaskKey(projectKey, subtask.number)}
+              </Badge>
+              <Badge variant="secondary" className="capitalize">
+                {getStatusName(statuses, subtask.status)}
+              </Badge>
+              <span className="ml-auto text-muted-foreground">{subtask.assignee?.name || "Unassigned"}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">{error}</div>}
+
+      {canEdit && (
+        <form key={formKey} action={formAction} className="flex items-center gap-2">
+          <Input name="title" placeholder="Subtask title" aria-label="Subtask title" required />
+          <SubmitButton />
+        </form>
+      )}
+      {state.error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">{state.error}</div>}
+      {guardDialog}
+    </div>
+  )
+}
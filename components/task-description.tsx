@@ -0,0 +1,38 @@
+"use client"
+
+import { useOptimistic, useTransition } from "react"
+import { Markdown } from "./markdown"
+import type { MentionUser } from "./mention"
+import { toggleChecklistItem } from "@/app/(dashboard)/tasks/actions"
+import { parseChecklist, setChecklistItem } from "@/lib/checklist"
+
+// A task's Markdown description whose task-list checkboxes can be ticked in place.
+// Without `canEdit` the checkboxes are shown read-only.
+export function TaskDescription({
+  taskId,
+  description,
+  users,
+  canEdit,
+  className,
+}: {
+  taskId: number
+  description: string
+  users: MentionUser[]
+  canEdit: boolean
+  className?: string
+}) {
+  const [optimisticDescription, setOptimisticDescription] = useOptimistic(description)
+  const [, startTransition] = useTransition()
+
+  const handleToggle = (line: number, checked: boolean) => {
+    const item = parseChecklist(optimisticDescription).find((candidate) => candidate.line === line)
+    if (!item) return
+
+    startTransition(async () => {
+      setOptimisticDescription(setChecklistItem(optimisticDescription, item.index, checked))
+      await toggleChecklistItem(taskId, item.index, checked)
+    })
+  }
+
+  return <Markdown source={optimisticDescription} users={users} onToggleTask={canEdit ? handleToggle : undefined} className={className} />
+}
@@ -0,0 +1,82 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Avatar, AvatarName } from "@/components/ui/avatar"
+import Link from "next/link"
+import { Clock, CornerDownRight } from "lucide-react"
+import { formatDateForDisplay } from "@/lib/date-utils"
+import { formatTaskKey } from "@/lib/utils"
+import { getStatusName } from "@/lib/workflow"
+import { poppins } from "@/lib/fonts"
+import { isBlocked } from "@/lib/dependencies"
+import { TaskDescription } from "./task-description"
+import { BlockedBadge } from "./blocked-badge"
+import { LabelBadge } from "./label-badge"
+import type { MentionUser } from "./mention"
+
+import type { Label, Project, Task as PrismaTask, User, WorkflowStatus } from "@/app/generated/prisma/client";
+
+type TaskWithPeople = PrismaTask & {
+  project: Pick<Project, "key" | "name">;
+  assignee?: Pick<User, "name"> | null;
+  creator: Pick<User, "name">;
+  parent?: Pick<PrismaTask, "id" | "number" | "name"> | null;
+  blockedBy?: { blocker: Pick<PrismaTask, "status"> }[];
+  labels?: Label[];
+};
+
+export function TaskDetail({
+  task,
+  statuses,
+  users,
+  canEdit,
+}: {
+  task: TaskWithPeople
+  statuses: WorkflowStatus[]
+  users: MentionUser[]
+  canEdit: boolean
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <Badge variant="outline" className="text-xs text-foreground-muted">
+            {formatTaskKey(task.project.key, task.number)}
+          </Badge>
+          <span className="text-xs text-muted-foreground">{task.project.name}</span>
+          {isBlocked(statuses, (task.blockedBy ?? []).map(({ blocker }) => blocker)) && <BlockedBadge />}
+        </div>
+        <CardTitle className={`text-2xl ${poppins.className}`}>{task.name}</CardTitle>
+        {task.parent && (
+          <p className="flex items-center gap-1 text-sm text-muted-foreground">
+            <CornerDownRight className="h-4 w-4" />
+            Subtask of
+            <Link href={`/tasks/${task.parent.id}`} className="hover:underline">
+              {formatTaskKey(task.project.key, task.parent.number)} {task.parent.name}
+            </Link>
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {task.description && <TaskDescription taskId={task.id} description={task.description} users={users} canEdit={canEdit} />}
+        <div className="flex items-center flex-wrap gap-x-4 gap-y-2 text-sm">
+          <div className="flex items-center space-x-2">
+            <Avatar className="h-7 w-7 border-2 border-border">
+              <AvatarName name={task.assignee?.name || "??"} className="text-xs" />
+            </Avatar>
+            <span className="text-muted-foreground">{task.assignee?.name || "Unassigned"}</span>
+          </div>
+          <Badge className="capitalize">{getStatusName(statuses, task.status)}</Badge>
+          <Badge className="capitalize">{task.priority}</Badge>
+          {task.labels?.map((label) => <LabelBadge key={label.id} label={label} />)}
+          {task.dueDate && (
+            <div className="flex items-center space-x-1 text-muted-foreground">
+              <Clock className="h-4 w-4" />
+              <span>{formatDateForDisplay(task.dueDate)}</span>
+            </div>
+          )}
+          <span className="text-muted-foreground">Created by {task.creator.name}</span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
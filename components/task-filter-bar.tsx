@@ -0,0 +1,175 @@
+"use client"
+
+import { useTransition } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Search, X } from "lucide-react"
+import { PRIORITIES } from "@/lib/priority"
+import { hasActiveFilters, TASK_SORTS, TASK_SORT_LABELS, UNASSIGNED_FILTER, type TaskFilters } from "@/lib/task-filters"
+
+import type { Label, User, WorkflowStatus } from "@/app/generated/prisma/client";
+
+// Select value meaning "no filter"
+const ALL = "all"
+
+// Filters live in the URL so a filtered view can be bookmarked or shared; the server runs the query
+export function TaskFilterBar({
+  filters,
+  statuses,
+  users,
+  labels,
+}: {
+  filters: TaskFilters
+  statuses: WorkflowStatus[]
+  users: Pick<User, "id" | "name">[]
+  labels: Label[]
+}) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const [isPending, startTransition] = useTransition()
+
+  const setParam = (key: string, value: string | null) => {
+    const params = new URLSearchParams(searchParams.toString())
+    params.delete(key)
+    if (value && value !== ALL) params.set(key, value)
+    const query = params.toString()
+    startTransition(() => {
+      router.push(query ? `${pathname}?${query}` : pathname)
+    })
+  }
+
+  const handleSearch = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const q = new FormData(event.currentTarget).get("q") as string
+    setParam("q", q.trim() || null)
+  }
+
+  const clearFilters = () => {
+    startTransition(() => {
+      router.push(filters.sort === "created" ? pathname : `${pathname}?sort=${filters.sort}`)
+    })
+  }
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${isPending ? "opacity-70" : ""}`}>
+      <form onSubmit={handleSearch} className="relative w-full md:w-64">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        {/* Keyed by the query so the box follows back/forward navigation */}
+        <Input key={filters.q} name="q" type="search" placeholder="Search tasks..." defaultValue={filters.q} className="pl-8" />
+      </form>
+
+      <Select value={filters.status[0] ?? ALL} onValueChange={(value) => setParam("status", value)}>
+        <SelectTrigger className="w-36" aria-label="Filter by status">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All statuses</SelectItem>
+          {statuses.map((status) => (
+            <SelectItem key={status.key} value={status.key}>
+              {status.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={filters.priority[0] ?? ALL} onValueChange={(value) => setParam("priority", value)}>
+        <SelectTrigger className="w-36" aria-label="Filter by priority">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All priorities</SelectItem>
+          {PRIORITIES.map((priority) => (
+            <SelectItem key={priority} value={priority} className="capitalize">
+              {priority}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={filters.assignee[0] ?? ALL} onValueChange={(value) => setParam("assignee", value)}>
+        <SelectTrigger className="w-40" aria-label="Filter by assignee">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>Any assignee</SelectItem>
+          <SelectItem value={UNASSIGNED_FILTER}>Unassigned</SelectItem>
+          {users.map((user) => (
+            <SelectItem key={user.id} value={user.id.toString()}>
+              {user.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={filters.creator[0] ?? ALL} onValueChange={(value) => setParam("creator", value)}>
+        <SelectTrigger className="w-40" aria-label="Filter by creator">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>Any creator</SelectItem>
+          {users.map((user) => (
+            <SelectItem key={user.id} value={user.id.toString()}>
+              {user.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={filters.label[0] ?? ALL} onValueChange={(value) => setParam("label", value)}>
+        <SelectTrigger className="w-36" aria-label="Filter by label">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>Any label</SelectItem>
+          {labels.map((label) => (
+            <SelectItem key={label.id} value={label.id.toString()}>
+              {label.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-center gap-1 text-sm text-muted-foreground">
+        <span>Due</span>
+        <Input
+          type="date"
+          aria-label="Due from"
+          value={filters.dueFrom ?? ""}
+          onChange={(event) => setParam("dueFrom", event.target.value || null)}
+          className="w-36"
+        />
+        <span>to</span>
+        <Input
+          type="date"
+          aria-label="Due to"
+          value={filters.dueTo ?? ""}
+          onChange={(event) => setParam("dueTo", event.target.value || null)}
+          className="w-36"
+        />
+      </div>
+
+      <Select value={filters.sort} onValueChange={(value) => setParam("sort", value === "created" ? null : value)}>
+        <SelectTrigger className="w-44" aria-label="Sort tasks">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {TASK_SORTS.map((sort) => (
+            <SelectItem key={sort} value={sort}>
+              Sort: {TASK_SORT_LABELS[sort]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {hasActiveFilters(filters) && (
+        <Button variant="ghost" size="sm" onClick={clearFilters}>
+          <X className="mr-1 h-4 w-4" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -1,63 +1,269 @@
 "use client"
 
-import { useOptimistic, useTransition, useState, useEffect } from "react"
+import { useOptimistic, useTransition, useState, useEffect, useRef } from "react"
+import { useVirtualizer } from "@tanstack/react-virtual"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Checkbox } from "@/components/ui/checkbox"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
-import { MoreHorizontal, Clock, Edit, Trash2 } from "lucide-react"
-import { deleteTask, updateTaskStatus } from "@/app/(dashboard)/tasks/actions"
-import { formatDateForDisplay } from "@/lib/date-utils"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { MoreHorizontal, Clock, Edit, Trash2, CheckCircle2, RotateCcw, Circle, CornerDownRight } from "lucide-react"
+import Link from "next/link"
+import { bulkDeleteTasks, bulkUpdateTasks, deleteTask, getLiveTasks, getTaskPage, updateTaskStatus } from "@/app/(dashboard)/tasks/actions"
+import { formatDateForDisplay, parseDateString } from "@/lib/date-utils"
+import { cn, formatTaskKey } from "@/lib/utils"
+import { getFirstStatusKey, getStatusName, getSubtaskProgress, isDoneStatus } from "@/lib/workflow"
+import { getChecklistProgress } from "@/lib/checklist"
+import { isBlocked } from "@/lib/dependencies"
+import { TASK_PAGE_SIZE, type TaskFilters } from "@/lib/task-filters"
+import { mergeTaskList } from "@/lib/live-updates"
+import { can } from "@/lib/permissions"
+import type { BulkTaskChanges, BulkTaskFailure } from "@/lib/types"
 import { EditTaskForm } from "./edit-task-form"
+import { BulkActionBar } from "./bulk-action-bar"
+import { useMoveGuard } from "./move-guard-dialog"
+import { useTaskChanges } from "./use-task-changes"
+import { ProgressCount } from "./progress-count"
+import { BlockedBadge } from "./blocked-badge"
+import { LabelBadge } from "./label-badge"
+import { TaskDescription } from "./task-description"
 import { poppins } from "@/lib/fonts"
 
-import type { Task as PrismaTask, User } from "@/app/generated/prisma/client";
+import type { Label, Project, Task as PrismaTask, User, WorkflowStatus } from "@/app/generated/prisma/client";
 
 type TaskWithProfile = PrismaTask & {
   assignee?: Pick<User, "name"> | null;
+  project: Pick<Project, "key">;
+  parent?: Pick<PrismaTask, "id" | "number" | "name"> | null;
+  subtasks?: Pick<PrismaTask, "id" | "number" | "name" | "status">[];
+  blockedBy?: { blocker: Pick<PrismaTask, "id" | "status"> }[];
+  labels?: Label[];
 };
 
-export function TaskList({ initialTasks }: { initialTasks: TaskWithProfile[]; }) {
+type OptimisticAction =
+  | { action: "delete" | "toggle"; task: TaskWithProfile | { id: number } }
+  | { action: "bulkUpdate"; taskIds: number[]; changes: BulkTaskChanges }
+  | { action: "bulkDelete"; taskIds: number[] }
+
+// Rows are virtualized: only the tasks scrolled into view are rendered, and more pages
+// load as the user nears the end of the list
+export function TaskList({
+  initialTasks,
+  initialCursor,
+  filters,
+  statuses,
+  users,
+  labels,
+  currentUser,
+}: {
+  initialTasks: TaskWithProfile[];
+  initialCursor: number | null;
+  filters: TaskFilters;
+  statuses: WorkflowStatus[];
+  users: Pick<User, "id" | "name">[];
+  labels: Label[];
+  currentUser: { id: number; role: string };
+}) {
+  // Hide what the user's role doesn't allow; the server enforces the same rules
+  const canEdit = can(currentUser, "edit_tasks")
+  const canDelete = (task: TaskWithProfile) => can(currentUser, "delete_tasks", task)
+
+  const isDone = (task: TaskWithProfile) => isDoneStatus(statuses, task.status)
+
+  // Checking a task off moves it to the first "done" status; unchecking reopens it in the first "not started" one
+  const getToggledStatus = (task: TaskWithProfile) =>
+    (isDone(task) ? getFirstStatusKey(statuses, "not_started") : getFirstStatusKey(statuses, "done")) ?? task.status
+
+  // Apply bulk changes to a loaded task the same way the server does
+  const applyChanges = (task: TaskWithProfile, changes: BulkTaskChanges): TaskWithProfile => {
+    const updated = { ...task }
+    if (changes.status !== undefined) updated.status = changes.status
+    if (changes.priority !== undefined) updated.priority = changes.priority
+    if (changes.assigneeId !== undefined) {
+      updated.assigneeId = changes.assigneeId
+      updated.assignee = changes.assigneeId === null
+        ? null
+        : { name: users.find((user) => user.id === changes.assigneeId)?.name ?? "" }
+    }
+    if (changes.dueDate !== undefined) updated.dueDate = changes.dueDate ? parseDateString(changes.dueDate) : null
+    return updated
+  }
+
+  const [tasks, setTasks] = useState(initialTasks)
+  const [nextCursor, setNextCursor] = useState(initialCursor)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false)
   const [optimisticTasks, setOptimisticTasks] = useOptimistic(
-    initialTasks,
-    (state, { action, task }: { action: "delete" | "toggle"; task: TaskWithProfile | { id: number } }) => {
-      if (action === "delete") {
-        return state.filter((t) => t.id !== task.id)
+    tasks,
+    (state, update: OptimisticAction) => {
+      if (update.action === "delete") {
+        return state.filter((t) => t.id !== update.task.id)
       }
-      if (action === "toggle") {
-        return state.map((t) => (t.id === task.id ? { ...t, status: t.status === "done" ? "todo" : "done" } : t))
+      if (update.action === "toggle") {
+        return state.map((t) => (t.id === update.task.id ? { ...t, status: getToggledStatus(t) } : t))
+      }
+      if (update.action === "bulkUpdate") {
+        return state.map((t) => (update.taskIds.includes(t.id) ? applyChanges(t, update.changes) : t))
+      }
+      if (update.action === "bulkDelete") {
+        return state.filter((t) => !update.taskIds.includes(t.id))
       }
       return state
     },
   )
   const [isPending, startTransition] = useTransition()
-  const [openDialogs, setOpenDialogs] = useState<Record<number, boolean>>({})
+  const { runGuarded, guardDialog } = useMoveGuard()
+  const [editingTask, setEditingTask] = useState<TaskWithProfile | null>(null)
   const [openDropdowns, setOpenDropdowns] = useState<Record<number, boolean>>({})
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set())
+  const [lastSelectedIndex, setLastSelectedIndex] = useState<number | null>(null)
+  const [bulkError, setBulkError] = useState<string | null>(null)
+
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const virtualizer = useVirtualizer({
+    count: optimisticTasks.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 180,
+    getItemKey: (index) => optimisticTasks[index].id,
+    overscan: 5,
+  })
+  const virtualRows = virtualizer.getVirtualItems()
+  const lastVisibleIndex = virtualRows[virtualRows.length - 1]?.index ?? -1
+
+  // Load the next page once the last few loaded rows scroll into view
+  useEffect(() => {
+    // After a failure, wait for Retry rather than asking again on every render
+    if (nextCursor === null || isLoadingMore || loadMoreFailed || lastVisibleIndex < optimisticTasks.length - 5) return
+
+    setIsLoadingMore(true)
+    getTaskPage(filters, nextCursor)
+      .then((page) => {
+        if (page.error) {
+          setLoadMoreFailed(true)
+          return
+        }
+        setTasks((prev) => [...prev, ...page.tasks.filter((task) => !prev.some((t) => t.id === task.id))])
+        setNextCursor(page.nextCursor)
+      })
+      .catch(() => setLoadMoreFailed(true))
+      .finally(() => setIsLoadingMore(false))
+  }, [nextCursor, isLoadingMore, loadMoreFailed, lastVisibleIndex, optimisticTasks.length, filters])
+
+  // Reload every loaded row, e.g. after an edit that may move a task within the sort order
+  const reloadTasks = async () => {
+    const page = await getTaskPage(filters, null, Math.max(tasks.length, TASK_PAGE_SIZE))
+    if (!page.error) {
+      setTasks(page.tasks)
+      setNextCursor(page.nextCursor)
+    }
+  }
+
+  // Changes made in other sessions: re-fetch the named tasks and fold them into the loaded rows
+  useTaskChanges(async (change) => {
+    const { tasks: fresh, error } = await getLiveTasks(change.taskIds, filters, "list")
+    if (!error) setTasks((prev) => mergeTaskList(prev, change, fresh))
+  }, reloadTasks)
 
   const handleDelete = async (taskId: number) => {
     startTransition(async () => {
       setOptimisticTasks({ action: "delete", task: { id: taskId } })
-      await deleteTask(taskId)
+      const result = await deleteTask(taskId)
+      if (!result.error) setTasks((prev) => prev.filter((t) => t.id !== taskId))
     })
   }
 
   const handleToggle = async (task: TaskWithProfile) => {
     startTransition(async () => {
       setOptimisticTasks({ action: "toggle", task })
-      await updateTaskStatus(task.id, task.status === "done" ? "todo" : "done")
+      // The optimistic toggle rolls back if the move is refused or the user cancels
+      const status = getToggledStatus(task)
+      const result = await runGuarded((overrides) => updateTaskStatus(task.id, status, overrides))
+      if (result && !result.error) setTasks((prev) => prev.map((t) => (t.id === task.id ? { ...t, status } : t)))
     })
   }
 
-  const handleCloseDialog = (taskId: number) => {
-    setOpenDialogs(prev => ({ ...prev, [taskId]: false }))
+  // Shift-click applies the clicked row's new state to every row since the last click
+  const handleSelect = (index: number, shiftKey: boolean) => {
+    const select = !selectedIds.has(optimisticTasks[index].id)
+    const [from, to] = shiftKey && lastSelectedIndex !== null
+      ? [Math.min(lastSelectedIndex, index), Math.max(lastSelectedIndex, index)]
+      : [index, index]
+
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      for (const task of optimisticTasks.slice(from, to + 1)) {
+        if (select) next.add(task.id)
+        else next.delete(task.id)
+      }
+      return next
+    })
+    setLastSelectedIndex(index)
   }
 
-  const handleEditClick = (taskId: number) => {
-    setOpenDropdowns(prev => ({ ...prev, [taskId]: false }))
-    setOpenDialogs(prev => ({ ...prev, [taskId]: true }))
+  const clearSelection = () => {
+    setSelectedIds(new Set())
+    setLastSelectedIndex(null)
+    setBulkError(null)
+  }
+
+  const describeFailures = (failures: BulkTaskFailure[], verb: string) => {
+    const details = failures.map(({ taskId, error }) => {
+      const task = tasks.find((t) => t.id === taskId)
+      return `${task ? formatTaskKey(task.project.key, task.number) : `#${taskId}`} (${error})`
+    })
+    return `${failures.length} task(s) could not be ${verb}: ${details.join(", ")}`
+  }
+
+  // Failed tasks stay selected and fall back to their previous values when the transition ends
+  const handleBulkUpdate = (changes: BulkTaskChanges) => {
+    const taskIds = [...selectedIds]
+    setBulkError(null)
+    startTransition(async () => {
+      setOptimisticTasks({ action: "bulkUpdate", taskIds, changes })
+      const result = await runGuarded((overrides) => bulkUpdateTasks(taskIds, changes, overrides))
+      if (!result) return
+      if (result.error) {
+        setBulkError(result.error)
+        return
+      }
+
+      const failedIds = new Set(result.failures.map((failure) => failure.taskId))
+      setTasks((prev) => prev.map((t) => (taskIds.includes(t.id) && !failedIds.has(t.id) ? applyChanges(t, changes) : t)))
+      setSelectedIds(failedIds)
+      if (failedIds.size > 0) setBulkError(describeFailures(result.failures, "updated"))
+    })
+  }
+
+  const handleBulkDelete = () => {
+    const taskIds = [...selectedIds]
+    if (!confirm(`Delete ${taskIds.length} task(s)?`)) return
+
+    setBulkError(null)
+    startTransition(async () => {
+      setOptimisticTasks({ action: "bulkDelete", taskIds })
+      const result = await bulkDeleteTasks(taskIds)
+      if (result.error) {
+        setBulkError(result.error)
+        return
+      }
+
+      const failedIds = new Set(result.failures.map((failure) => failure.taskId))
+      setTasks((prev) => prev.filter((t) => !taskIds.includes(t.id) || failedIds.has(t.id)))
+      setSelectedIds(failedIds)
+      if (failedIds.size > 0) setBulkError(describeFailures(result.failures, "deleted"))
+    })
+  }
+
+  const handleEditClick = (task: TaskWithProfile) => {
+    setOpenDropdowns(prev => ({ ...prev, [task.id]: false }))
+    setEditingTask(task)
+  }
+
+  const handleEditFinish = () => {
+    setEditingTask(null)
+    startTransition(reloadTasks)
   }
 
   const getInitials = (name: string | null) => {
@@ -70,95 +276,191 @@ export function TaskList({ initialTasks }: { initialTasks: TaskWithProfile[]; })
   }
 
   return (
-    <div className="space-y-4">
-      {optimisticTasks.map((task) => (
-        <Dialog key={task.id} open={openDialogs[task.id]} onOpenChange={(open) =>
-          setOpenDialogs(prev => ({ ...prev, [task.id]: open }))
-        }>
-          <Card className={task.status === "done" ? "bg-muted/50" : ""}>
-            <CardContent className="p-6">
-              <div className="flex items-start justify-between">
-                <div className="flex items-start space-x-4">
-                  <Checkbox
-                    checked={task.status === "done"}
-                    onCheckedChange={() => handleToggle(task)}
-                    className="mt-1 cursor-pointer"
-                  />
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-2 mb-2">
-                      <h3
-                        className={`font-semibold ${poppins.className} ${task.status === "done" ? "line-through text-muted-foreground" : ""}`}
-                      >
-                        {task.name}
-                      </h3>
-                      <Badge variant="outline" className="text-xs text-foreground-muted">
-                        TASK-{task.id}
-                      </Badge>
-                    </div>
-                    <p className="text-sm text-muted-foreground mb-3">{task.description}</p>
-                    <div className="flex items-center flex-wrap gap-x-4 gap-y-2 text-sm">
-                      <div className="flex items-center space-x-2">
-                        <Avatar className="h-7 w-7 border-2 border-border">
-                          <AvatarFallback className="text-xs font-medium">{getInitials(task.assignee?.name || null)}</AvatarFallback>
-                        </Avatar>
-                        <span className="text-muted-foreground">{task.assignee?.name || "Unassigned"}</span>
-                      </div>
-                      <Badge
-
-                        className="capitalize"
-                      >
-                        {task.status.replace("_", " ")}
-                      </Badge>
-                      <Badge
-                        className="capitalize"
-                      >
-                        {task.priority}
-                      </Badge>
-
-                      {task.dueDate && (
-                        <div className="flex items-center space-x-1 text-muted-foreground">
-                          <Clock className="h-4 w-4" />
-                          <span>{formatDateForDisplay(task.dueDate)}</span>
+    <>
+      {canEdit && selectedIds.size > 0 && (
+        <BulkActionBar
+          count={selectedIds.size}
+          statuses={statuses}
+          users={users}
+          disabled={isPending}
+          error={bulkError}
+          onUpdate={handleBulkUpdate}
+          onDelete={optimisticTasks.every((task) => !selectedIds.has(task.id) || canDelete(task)) ? handleBulkDelete : undefined}
+          onClear={clearSelection}
+        />
+      )}
+      <div ref={scrollRef} className="h-[calc(100vh-16rem)] overflow-y-auto">
+        <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+          {virtualRows.map((virtualRow) => {
+            const task = optimisticTasks[virtualRow.index]
+            return (
+              <div
+                key={virtualRow.key}
+                ref={virtualizer.measureElement}
+                data-index={virtualRow.index}
+                className="absolute left-0 top-0 w-full pb-4"
+                style={{ transform: `translateY(${virtualRow.start}px)` }}
+              >
+                <Card className={cn(isDone(task) && "bg-muted/50", selectedIds.has(task.id) && "ring-2 ring-primary")}>
+                  <CardContent className="p-6">
+                    <div className="flex items-start justify-between">
+                      <div className="flex items-start space-x-4">
+                        {canEdit && (
+                          <Checkbox
+                            checked={selectedIds.has(task.id)}
+                            onClick={(e) => handleSelect(virtualRow.index, e.shiftKey)}
+                            aria-label={`Select ${task.name}`}
+                            className="mt-1 cursor-pointer"
+                          />
+                        )}
+                        <div className="flex-1">
+                          <div className="flex items-center space-x-2 mb-2">
+                            <h3
+                              className={`font-semibold ${poppins.className} ${isDone(task) ? "line-through text-muted-foreground" : ""}`}
+                            >
+                              <Link href={`/tasks/${task.id}`} className="hover:underline">
+                                {task.name}
+                              </Link>
+                            </h3>
+                            <Badge variant="outline" className="text-xs text-foreground-muted">
+                              {formatTaskKey(task.project.key, task.number)}
+                            </Badge>
+                            {isBlocked(statuses, (task.blockedBy ?? []).map(({ blocker }) => blocker)) && <BlockedBadge />}
+                            {task.labels?.map((label) => <LabelBadge key={label.id} label={label} />)}
+                          </div>
+                          {/* Subtasks only get their own row when filters match them directly */}
+                          {task.parent && (
+                            <p className="mb-2 flex items-center gap-1 text-xs text-muted-foreground">
+                              <CornerDownRight className="h-3 w-3" />
+                              Subtask of
+                              <Link href={`/tasks/${task.parent.id}`} className="hover:underline">
+                                {formatTaskKey(task.project.key, task.parent.number)} {task.parent.name}
+                              </Link>
+                            </p>
+                          )}
+                          {task.description && <TaskDescription taskId={task.id} description={task.description} users={users} canEdit={canEdit} className="mb-3" />}
+                          <div className="flex items-center flex-wrap gap-x-4 gap-y-2 text-sm">
+                            <div className="flex items-center space-x-2">
+                              <Avatar className="h-7 w-7 border-2 border-border">
+                                <AvatarFallback className="text-xs font-medium">{getInitials(task.assignee?.name || null)}</AvatarFallback>
+                              </Avatar>
+                              <span className="text-muted-foreground">{task.assignee?.name || "Unassigned"}</span>
+                            </div>
+                            <Badge
+
+                              className="capitalize"
+                            >
+                              {getStatusName(statuses, task.status)}
+                            </Badge>
+                            <Badge
+                              className="capitalize"
+                            >
+                              {task.priority}
+                            </Badge>
+
+                            {task.dueDate && (
+                              <div className="flex items-center space-x-1 text-muted-foreground">
+                                <Clock className="h-4 w-4" />
+                                <span>{formatDateForDisplay(task.dueDate)}</span>
+                              </div>
+                            )}
+                            <ProgressCount kind="subtasks" {...getSubtaskProgress(statuses, task.subtasks ?? [])} />
+                            <ProgressCount kind="checklist" {...getChecklistProgress(task.description)} />
+                          </div>
+                          {task.subtasks && task.subtasks.length > 0 && (
+                            <ul className="mt-3 space-y-1 border-l-2 border-border pl-3 text-sm">
+                              {task.subtasks.map((subtask) => (
+                                <li key={subtask.id} className="flex items-center gap-2">
+                                  {isDoneStatus(statuses, subtask.status) ? (
+                                    <CheckCircle2 className="h-4 w-4 text-green-600" />
+                                  ) : (
+                                    <Circle className="h-4 w-4 text-muted-foreground" />
+                                  )}
+                                  <Link
+                                    href={`/tasks/${subtask.id}`}
+                                    className={cn(
+                                      "hover:underline",
+                                      isDoneStatus(statuses, subtask.status) && "line-through text-muted-foreground",
+                                    )}
+                                  >
+                                    {subtask.name}
+                                  </Link>
+                                  <span className="text-xs text-muted-foreground">
+                                    {formatTaskKey(task.project.key, subtask.number)} · {getStatusName(statuses, subtask.status)}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
                         </div>
+                      </div>
+                      {canEdit && (
+                        <DropdownMenu open={openDropdowns[task.id]} onOpenChange={(open) =>
+                          setOpenDropdowns(prev => ({ ...prev, [task.id]: open }))
+                        }>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-8 w-8">
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onSelect={(e) => {
+                              e.preventDefault()
+                              handleEditClick(task)
+                            }} className="cursor-pointer hover:bg-background-light">
+                              <Edit className="mr-2 h-4 w-4" />
+                              Edit
+                            </DropdownMenuItem>
+                            <DropdownMenuItem className="cursor-pointer hover:bg-background-light" onClick={() => handleToggle(task)}>
+                              {isDone(task) ? <RotateCcw className="mr-2 h-4 w-4" /> : <CheckCircle2 className="mr-2 h-4 w-4" />}
+                              {isDone(task) ? "Reopen" : "Mark as done"}
+                            </DropdownMenuItem>
+                            {canDelete(task) && (
+                              <DropdownMenuItem className="text-primary cursor-pointer hover:bg-background-light" onClick={() => handleDelete(task.id)}>
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                Delete
+                              </DropdownMenuItem>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
                       )}
                     </div>
-                  </div>
-                </div>
-                <DropdownMenu open={openDropdowns[task.id]} onOpenChange={(open) =>
-                  setOpenDropdowns(prev => ({ ...prev, [task.id]: open }))
-                }>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="ghost" size="icon" className="h-8 w-8">
-                      <MoreHorizontal className="h-4 w-4" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end">
-                    <DialogTrigger asChild>
-                      <DropdownMenuItem onSelect={(e) => {
-                        e.preventDefault()
-                        handleEditClick(task.id)
-                      }} className="cursor-pointer hover:bg-background-light">
-                        <Edit className="mr-2 h-4 w-4" />
-                        Edit
-                      </DropdownMenuItem>
-                    </DialogTrigger>
-                    <DropdownMenuItem className="text-primary cursor-pointer hover:bg-background-light" onClick={() => handleDelete(task.id)}>
-                      <Trash2 className="mr-2 h-4 w-4" />
-                      Delete
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
+                  </CardContent>
+                </Card>
               </div>
-            </CardContent>
-          </Card>
+            )
+          })}
+        </div>
+        {isLoadingMore && <p className="py-2 text-center text-sm text-muted-foreground">Loading more tasks...</p>}
+        {loadMoreFailed && (
+          <div className="flex items-center justify-center gap-2 py-2 text-sm text-muted-foreground">
+            Couldn&apos;t load more tasks.
+            <Button variant="outline" size="sm" onClick={() => setLoadMoreFailed(false)}>
+              Retry
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* One edit dialog shared by every row */}
+      <Dialog open={!!editingTask} onOpenChange={(open) => !open && setEditingTask(null)}>
+        {editingTask && (
           <DialogContent>
             <DialogHeader>
               <DialogTitle>Edit Task</DialogTitle>
             </DialogHeader>
-            <EditTaskForm task={task} onFinish={() => handleCloseDialog(task.id)} />
+            <EditTaskForm
+              key={editingTask.id}
+              task={editingTask}
+              users={users}
+              statuses={statuses}
+              labels={labels}
+              onFinish={handleEditFinish}
+            />
           </DialogContent>
-        </Dialog>
-      ))}
-    </div>
+        )}
+      </Dialog>
+      {guardDialog}
+    </>
   )
 }
@@ -0,0 +1,82 @@
+import { format } from "date-fns"
+import { Avatar, AvatarName } from "@/components/ui/avatar"
+import { formatDateForDisplay } from "@/lib/date-utils"
+import { getFieldLabel } from "@/lib/task-history"
+import { getStatusName } from "@/lib/workflow"
+
+import type { TaskEvent, User, WorkflowStatus } from "@/app/generated/prisma/client";
+
+type TaskEventWithActor = TaskEvent & {
+  actor: Pick<User, "id" | "name">;
+};
+
+// Render a stored field value the way it is shown elsewhere in the app
+function formatValue(field: string | null, value: string | null, users: Map<number, string>, statuses: WorkflowStatus[]) {
+  if (value === null) return "none"
+  switch (field) {
+    case "status":
+      return getStatusName(statuses, value)
+    case "dueDate":
+      return formatDateForDisplay(value)
+    case "assigneeId":
+      return users.get(Number(value)) ?? "a removed user"
+    default:
+      return value
+  }
+}
+
+function describeEvent(event: TaskEventWithActor, users: Map<number, string>, statuses: WorkflowStatus[]) {
+  if (event.type === "created") return <>created {event.taskKey}</>
+  if (event.type === "deleted") return <>deleted {event.taskKey}</>
+  if (event.type === "wip_override") {
+    return (
+      <>
+        overrode the WIP limit of{" "}
+        <span className="font-medium">{formatValue(event.field, event.toValue, users, statuses)}</span>
+      </>
+    )
+  }
+
+  // Descriptions are too long to quote inline
+  if (event.field === "description") return <>updated the description</>
+
+  return (
+    <>
+      changed the {getFieldLabel(event.field ?? "")} from{" "}
+      <span className="font-medium capitalize">{formatValue(event.field, event.fromValue, users, statuses)}</span> to{" "}
+      <span className="font-medium capitalize">{formatValue(event.field, event.toValue, users, statuses)}</span>
+    </>
+  )
+}
+
+export function TaskTimeline({
+  events,
+  users,
+  statuses,
+}: {
+  events: TaskEventWithActor[]
+  users: { id: number; name: string }[]
+  statuses: WorkflowStatus[]
+}) {
+  const userNames = new Map(users.map((user) => [user.id, user.name]))
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No activity recorded yet.</p>
+  }
+
+  return (
+    <ol className="space-y-4">
+      {events.map((event) => (
+        <li key={event.id} className="flex items-start space-x-3 text-sm">
+          <Avatar className="h-6 w-6">
+            <AvatarName name={event.actor.name} className="text-xs" />
+          </Avatar>
+          <div className="flex-1">
+            <span className="font-medium">{event.actor.name}</span> {describeEvent(event, userNames, statuses)}
+            <div className="text-xs text-muted-foreground">{format(new Date(event.createdAt), "MMM d, yyyy 'at' h:mm a")}</div>
+          </div>
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,158 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ShieldCheck } from "lucide-react"
+import {
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  setTwoFactorRequired,
+  startTwoFactorEnrollment,
+} from "@/app/(dashboard)/settings/security/actions"
+import { RecoveryCodeList } from "./recovery-code-list"
+import { TwoFactorSetupForm } from "./two-factor-setup-form"
+
+export type TwoFactorStatus = {
+  enabled: boolean
+  recoveryCodesLeft: number
+  required: boolean
+  canRequire: boolean
+}
+
+// Set up, turn off or get new recovery codes for the current user's two-factor authentication.
+// Owners and admins also get the switch that requires it for everyone.
+export function TwoFactorCard({ status }: { status: TwoFactorStatus }) {
+  const [enrollment, setEnrollment] = useState<{ secret: string; qrCode: string } | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const handleSetUp = () => {
+    setError(null)
+    startTransition(async () => {
+      const result = await startTwoFactorEnrollment()
+      if (result.error) setError(result.error)
+      else setEnrollment(result.enrollment)
+    })
+  }
+
+  const handleRegenerate = () => {
+    setError(null)
+    startTransition(async () => {
+      const result = await regenerateRecoveryCodes(code)
+      if (result.error) setError(result.error)
+      else setRecoveryCodes(result.recoveryCodes ?? null)
+      setCode("")
+    })
+  }
+
+  const handleDisable = () => {
+    if (!confirm("Turn off two-factor authentication? Signing in will only need your password.")) return
+
+    setError(null)
+    startTransition(async () => {
+      const result = await disableTwoFactor(code)
+      if (result.error) setError(result.error)
+      setCode("")
+    })
+  }
+
+  const handleRequiredChange = (required: boolean) => {
+    if (required && !confirm("Require two-factor for everyone? People who haven't set it up will be signed out and asked to set it up when they next log in.")) {
+      return
+    }
+
+    setError(null)
+    startTransition(async () => {
+      const result = await setTwoFactorRequired(required)
+      if (result.error) setError(result.error)
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          <CardDescription>Ask for a code from an authenticator app as well as your password when you sign in.</CardDescription>
+        </div>
+        {status.enabled ? (
+          <Badge variant="secondary">
+            <ShieldCheck className="mr-1 h-3 w-3" />
+            On
+          </Badge>
+        ) : (
+          !enrollment && (
+            <Button variant="outline" onClick={handleSetUp} disabled={isPending}>
+              Set Up
+            </Button>
+          )
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">{error}</div>}
+
+        {enrollment && (
+          <div className="max-w-sm">
+            <TwoFactorSetupForm enrollment={enrollment} action={confirmTwoFactorEnrollment}>
+              <Button onClick={() => setEnrollment(null)}>Done</Button>
+            </TwoFactorSetupForm>
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="max-w-sm space-y-4">
+            <RecoveryCodeList codes={recoveryCodes} />
+            <Button onClick={() => setRecoveryCodes(null)}>Done</Button>
+          </div>
+        )}
+
+        {status.enabled && !enrollment && !recoveryCodes && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {status.recoveryCodesLeft} recovery codes left. Enter a code from your app to get new ones
+              {status.required ? "." : " or turn two-factor off."}
+            </p>
+            <div className="flex items-center gap-2">
+              <Input
+                aria-label="Authentication code"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(event) => setCode(event.target.value)}
+                className="w-36"
+              />
+              <Button variant="outline" onClick={handleRegenerate} disabled={isPending || !code}>
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button variant="outline" className="text-primary" onClick={handleDisable} disabled={isPending || !code}>
+                  Turn Off
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {status.canRequire && (
+          <div className="flex items-center space-x-2 border-t border-border pt-4">
+            <Checkbox
+              id="require-two-factor"
+              checked={status.required}
+              onCheckedChange={(checked) => handleRequiredChange(checked === true)}
+              disabled={isPending}
+            />
+            <Label htmlFor="require-two-factor">Require two-factor authentication for everyone in the workspace</Label>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
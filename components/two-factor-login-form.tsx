@@ -0,0 +1,38 @@
+"use client"
+
+import { useActionState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { verifyLoginCode } from "@/app/login/two-factor/actions"
+
+type ActionState = {
+    error: string | null;
+}
+
+const initialState: ActionState = { error: null }
+
+async function verifyLoginCodeAction(prevState: ActionState, formData: FormData): Promise<ActionState> {
+    return (await verifyLoginCode(formData)) ?? initialState
+}
+
+// Second sign-in step: a code from the authenticator app, or a recovery code
+export function TwoFactorLoginForm() {
+    const [state, formAction, isPending] = useActionState(verifyLoginCodeAction, initialState)
+
+    return (
+        <form className="space-y-4" action={formAction}>
+            <div className="space-y-2">
+                <Label htmlFor="code">Authentication code</Label>
+                <Input id="code" name="code" autoComplete="one-time-code" placeholder="123456" autoFocus required />
+                <p className="text-xs text-muted-foreground">Lost your phone? Enter one of your recovery codes instead.</p>
+            </div>
+
+            {state.error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">{state.error}</div>}
+
+            <Button className="w-full" disabled={isPending}>
+                {isPending ? "Checking..." : "Verify"}
+            </Button>
+        </form>
+    )
+}
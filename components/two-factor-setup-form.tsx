@@ -0,0 +1,58 @@
+"use client"
+
+import { useActionState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RecoveryCodeList } from "./recovery-code-list"
+
+type ActionState = {
+    error: string | null;
+    recoveryCodes?: string[];
+}
+
+const initialState: ActionState = { error: null }
+
+// Scan-and-confirm step for adding an authenticator app. `action` checks the first code; once it passes,
+// the recovery codes are shown with `children` (e.g. a continue button) below them.
+export function TwoFactorSetupForm({
+    enrollment,
+    action,
+    children,
+}: {
+    enrollment: { secret: string; qrCode: string }
+    action: (formData: FormData) => Promise<ActionState>
+    children: React.ReactNode
+}) {
+    const [state, formAction, isPending] = useActionState((prevState: ActionState, formData: FormData) => action(formData), initialState)
+
+    if (state.recoveryCodes) {
+        return (
+            <div className="space-y-4">
+                <RecoveryCodeList codes={state.recoveryCodes} />
+                {children}
+            </div>
+        )
+    }
+
+    return (
+        <form className="space-y-4" action={formAction}>
+            <p className="text-sm">Scan this QR code with an authenticator app, such as 1Password, Authy or Google Authenticator.</p>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={enrollment.qrCode} alt="QR code for your authenticator app" width={200} height={200} className="mx-auto" />
+            <p className="text-xs text-muted-foreground">
+                Can&apos;t scan it? Enter this key instead: <span className="font-mono break-all">{enrollment.secret}</span>
+            </p>
+            <div className="space-y-2">
+                <Label htmlFor="code">Code from the app</Label>
+                <Input id="code" name="code" inputMode="numeric" autoComplete="one-time-code" placeholder="123456" required />
+            </div>
+
+            {state.error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">{state.error}</div>}
+
+            <Button className="w-full" disabled={isPending}>
+                {isPending ? "Checking..." : "Turn On Two-Factor"}
+            </Button>
+        </form>
+    )
+}
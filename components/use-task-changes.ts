@@ -0,0 +1,42 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { isTaskChange, type TaskChange } from "@/lib/live-updates"
+
+// Subscribe to live task changes from /api/tasks/events.
+// Changes are handled one at a time in arrival order, so re-fetches for the same task can't overtake each other.
+// `onReconnect` runs when the stream comes back after dropping, since changes made meanwhile were missed.
+export function useTaskChanges(onChange: (change: TaskChange) => Promise<void>, onReconnect?: () => Promise<void>) {
+  const handlers = useRef({ onChange, onReconnect })
+  handlers.current = { onChange, onReconnect }
+
+  useEffect(() => {
+    const source = new EventSource("/api/tasks/events")
+    let queue = Promise.resolve()
+    let dropped = false
+
+    const enqueue = (handle: () => Promise<void> | undefined) => {
+      queue = queue.then(handle).catch(() => {})
+    }
+
+    source.addEventListener("task", (event) => {
+      let change: unknown
+      try {
+        change = JSON.parse((event as MessageEvent<string>).data)
+      } catch (e) {
+        return
+      }
+      if (isTaskChange(change)) enqueue(() => handlers.current.onChange(change))
+    })
+    source.addEventListener("error", () => {
+      dropped = true
+    })
+    source.addEventListener("open", () => {
+      if (!dropped) return
+      dropped = false
+      enqueue(() => handlers.current.onReconnect?.())
+    })
+
+    return () => source.close()
+  }, [])
+}
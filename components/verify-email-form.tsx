@@ -0,0 +1,45 @@
+"use client"
+
+import { useActionState } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { verifyEmail } from "@/app/verify-email/actions"
+
+type ActionState = {
+    error: string | null;
+    success: boolean;
+    message?: string;
+}
+
+const initialState: ActionState = { error: null, success: false }
+
+async function verifyEmailAction(prevState: ActionState, formData: FormData): Promise<ActionState> {
+    return verifyEmail(formData)
+}
+
+// Confirms the address with a button press rather than on page load, so link scanners in mail
+// clients can't use the token up
+export function VerifyEmailForm({ token }: { token: string }) {
+    const [state, formAction, isPending] = useActionState(verifyEmailAction, initialState)
+
+    if (state.success) {
+        return (
+            <div className="space-y-4 text-center">
+                <p className="text-sm">{state.message}</p>
+                <Button asChild className="w-full">
+                    <Link href="/">Continue to TaskFlow</Link>
+                </Button>
+            </div>
+        )
+    }
+
+    return (
+        <form className="space-y-4" action={formAction}>
+            <input type="hidden" name="token" value={token} />
+            {state.error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">{state.error}</div>}
+            <Button className="w-full" disabled={isPending}>
+                {isPending ? "Confirming..." : "Confirm Email Address"}
+            </Button>
+        </form>
+    )
+}
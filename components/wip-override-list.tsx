@@ -0,0 +1,46 @@
+import Link from "next/link"
+import { format } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { getStatusName } from "@/lib/workflow"
+
+import type { TaskEvent, User, WorkflowStatus } from "@/app/generated/prisma/client";
+
+type OverrideEvent = TaskEvent & {
+  actor: Pick<User, "id" | "name">;
+};
+
+// Moves that went past a hard WIP limit, for team leads to review
+export function WipOverrideList({ events, statuses }: { events: OverrideEvent[]; statuses: WorkflowStatus[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>WIP Limit Overrides</CardTitle>
+        <CardDescription>Tasks moved into a column past its hard limit.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No overrides recorded.</p>
+        ) : (
+          <ul className="space-y-3">
+            {events.map((event) => (
+              <li key={event.id} className="flex items-center justify-between text-sm">
+                <span>
+                  <span className="font-medium">{event.actor.name}</span> moved{" "}
+                  {event.taskId ? (
+                    <Link href={`/tasks/${event.taskId}`} className="font-medium hover:underline">
+                      {event.taskKey}
+                    </Link>
+                  ) : (
+                    <span className="font-medium">{event.taskKey}</span>
+                  )}{" "}
+                  into <span className="font-medium">{getStatusName(statuses, event.toValue ?? "")}</span>
+                </span>
+                <span className="text-xs text-muted-foreground">{format(new Date(event.createdAt), "MMM d, yyyy 'at' h:mm a")}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,196 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ArrowDown, ArrowUp, Edit, Lock, Plus, Trash2 } from "lucide-react"
+import { deleteWorkflowStatus, moveWorkflowStatus } from "@/app/(dashboard)/settings/workflow/actions"
+import { STATUS_CATEGORY_LABELS, type StatusCategory } from "@/lib/workflow"
+import { WorkflowStatusForm } from "./workflow-status-form"
+
+import type { WorkflowStatus } from "@/app/generated/prisma/client"
+
+function DeleteStatusDialog({
+  status,
+  statuses,
+  taskCount,
+  onClose,
+}: {
+  status: WorkflowStatus
+  statuses: WorkflowStatus[]
+  taskCount: number
+  onClose: () => void
+}) {
+  const [targetId, setTargetId] = useState<string>()
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+  const otherStatuses = statuses.filter((s) => s.id !== status.id)
+
+  const handleDelete = () => {
+    startTransition(async () => {
+      const result = await deleteWorkflowStatus(status.id, targetId ? Number.parseInt(targetId) : null)
+      if (result.error) {
+        setError(result.error)
+      } else {
+        onClose()
+      }
+    })
+  }
+
+  return (
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>Delete &ldquo;{status.name}&rdquo;</DialogTitle>
+        <DialogDescription>
+          {taskCount > 0
+            ? `${taskCount} task(s) use this status. Choose where to move them before it is deleted.`
+            : "No tasks use this status."}
+        </DialogDescription>
+      </DialogHeader>
+      {taskCount > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor="target-status">Move tasks to</Label>
+          <Select value={targetId} onValueChange={setTargetId}>
+            <SelectTrigger id="target-status">
+              <SelectValue placeholder="Select status" />
+            </SelectTrigger>
+            <SelectContent>
+              {otherStatuses.map((s) => (
+                <SelectItem key={s.id} value={s.id.toString()}>
+                  {s.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      {error && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">{error}</div>}
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={handleDelete} disabled={isPending || (taskCount > 0 && !targetId)}>
+          {isPending ? "Deleting..." : "Delete Status"}
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  )
+}
+
+// `canEdit` is false for users who can't change workspace settings; they see the statuses read-only
+export function WorkflowSettings({
+  statuses,
+  taskCounts,
+  canEdit,
+}: {
+  statuses: WorkflowStatus[]
+  taskCounts: Record<string, number>
+  canEdit: boolean
+}) {
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [deletingId, setDeletingId] = useState<number | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+  const [isPending, startTransition] = useTransition()
+
+  const editingStatus = statuses.find((status) => status.id === editingId)
+  const deletingStatus = statuses.find((status) => status.id === deletingId)
+
+  const handleMove = (statusId: number, direction: "up" | "down") => {
+    startTransition(async () => {
+      await moveWorkflowStatus(statusId, direction)
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Workflow Statuses</CardTitle>
+          <CardDescription>Statuses appear as board columns, in this order.</CardDescription>
+        </div>
+        {canEdit && (
+          <Button onClick={() => setIsCreating(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Status
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {statuses.map((status, index) => (
+          <div key={status.id} className="flex items-center justify-between rounded-md border border-border p-3">
+            <div className="flex items-center space-x-3">
+              <span className="h-3 w-3 rounded-full" style={{ backgroundColor: status.color }} />
+              <span className="font-medium">{status.name}</span>
+              <Badge variant="outline" className="text-xs text-foreground-muted">
+                {STATUS_CATEGORY_LABELS[status.category as StatusCategory] ?? status.category}
+              </Badge>
+              <span className="text-xs text-muted-foreground">{taskCounts[status.key] ?? 0} tasks</span>
+              {status.wipLimit !== null && (
+                <span className="flex items-center text-xs text-muted-foreground">
+                  {status.wipLimitHard && <Lock className="mr-1 h-3 w-3" />}
+                  WIP limit {status.wipLimit}
+                </span>
+              )}
+            </div>
+            {canEdit && (
+              <div className="flex items-center space-x-1">
+                <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Move ${status.name} up`}
+                  disabled={isPending || index === 0} onClick={() => handleMove(status.id, "up")}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Move ${status.name} down`}
+                  disabled={isPending || index === statuses.length - 1} onClick={() => handleMove(status.id, "down")}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Edit ${status.name}`}
+                  onClick={() => setEditingId(status.id)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8 text-primary" aria-label={`Delete ${status.name}`}
+                  disabled={statuses.length <= 1} onClick={() => setDeletingId(status.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Status</DialogTitle>
+          </DialogHeader>
+          <WorkflowStatusForm onFinish={() => setIsCreating(false)} />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editingStatus} onOpenChange={(open) => !open && setEditingId(null)}>
+        {editingStatus && (
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Edit Status</DialogTitle>
+            </DialogHeader>
+            <WorkflowStatusForm key={editingStatus.id} status={editingStatus} onFinish={() => setEditingId(null)} />
+          </DialogContent>
+        )}
+      </Dialog>
+
+      <Dialog open={!!deletingStatus} onOpenChange={(open) => !open && setDeletingId(null)}>
+        {deletingStatus && (
+          <DeleteStatusDialog
+            key={deletingStatus.id}
+            status={deletingStatus}
+            statuses={statuses}
+            taskCount={taskCounts[deletingStatus.key] ?? 0}
+            onClose={() => setDeletingId(null)}
+          />
+        )}
+      </Dialog>
+    </Card>
+  )
+}
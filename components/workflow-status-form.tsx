@@ -0,0 +1,109 @@
+"use client"
+
+import { useActionState, useEffect } from "react"
+import { useFormStatus } from "react-dom"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { createWorkflowStatus, updateWorkflowStatus } from "@/app/(dashboard)/settings/workflow/actions"
+import { STATUS_CATEGORIES, STATUS_CATEGORY_LABELS } from "@/lib/workflow"
+import type { WorkflowStatus } from "@/app/generated/prisma/client"
+
+type ActionState = {
+    error: string | null;
+    success: boolean;
+    message?: string;
+}
+
+const initialState: ActionState = {
+    message: "",
+    success: false,
+    error: null,
+}
+
+function SubmitButton({ isEditing }: { isEditing: boolean }) {
+    const { pending } = useFormStatus()
+    return (
+        <Button type="submit" disabled={pending}>
+            {pending ? "Saving..." : isEditing ? "Save Changes" : "Add Status"}
+        </Button>
+    )
+}
+
+// Create a new status, or edit `status` when given
+export function WorkflowStatusForm({ status, onFinish }: { status?: WorkflowStatus; onFinish?: () => void }) {
+    // Create a wrapper function that matches useActionState signature
+    const statusAction = async (prevState: ActionState, formData: FormData): Promise<ActionState> => {
+        return status ? updateWorkflowStatus(status.id, formData) : createWorkflowStatus(formData)
+    }
+
+    const [state, formAction] = useActionState(statusAction, initialState)
+
+    useEffect(() => {
+        if (state.message) {
+            if (state.success && onFinish) {
+                onFinish()
+            }
+        }
+    }, [state, onFinish])
+
+    return (
+        <form action={formAction} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2 col-span-2">
+                    <Label htmlFor="status-name">Name</Label>
+                    <Input id="status-name" name="name" defaultValue={status?.name} required />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="status-color">Color</Label>
+                    <Input id="status-color" name="color" type="color" defaultValue={status?.color ?? "#4BBEC5"} className="p-1" />
+                </div>
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="status-category">Category</Label>
+                <Select name="category" defaultValue={status?.category ?? "active"}>
+                    <SelectTrigger id="status-category">
+                        <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {STATUS_CATEGORIES.map((category) => (
+                            <SelectItem key={category} value={category}>
+                                {STATUS_CATEGORY_LABELS[category]}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                    Categories decide which tasks count as open or completed in stats.
+                </p>
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="status-wip-limit">WIP limit</Label>
+                <Input
+                    id="status-wip-limit"
+                    name="wipLimit"
+                    type="number"
+                    min={1}
+                    placeholder="No limit"
+                    defaultValue={status?.wipLimit ?? ""}
+                />
+                <div className="flex items-center space-x-2">
+                    <Checkbox id="status-wip-hard" name="wipLimitHard" defaultChecked={status?.wipLimitHard} />
+                    <Label htmlFor="status-wip-hard" className="font-normal">
+                        Hard limit: block moves into a full column unless the user overrides
+                    </Label>
+                </div>
+            </div>
+            {state.error && (
+                <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
+                    {state.error}
+                </div>
+            )}
+            <div className="flex justify-end">
+                <SubmitButton isEditing={!!status} />
+            </div>
+        </form>
+    )
+}
@@ -0,0 +1,40 @@
+import { formatFileSize, isImageAttachment, MAX_ATTACHMENT_SIZE, validateAttachment } from './attachments'
+
+describe('validateAttachment', () => {
+  it('should accept allowed types within the size limit', () => {
+    // Arrange & Act & Assert
+    expect(validateAttachment({ name: 'shot.png', size: 2048, type: 'image/png' })).toBeNull()
+    expect(validateAttachment({ name: 'spec.pdf', size: MAX_ATTACHMENT_SIZE, type: 'application/pdf' })).toBeNull()
+  })
+
+  it('should reject files over the size limit', () => {
+    // Arrange & Act
+    const error = validateAttachment({ name: 'video.zip', size: MAX_ATTACHMENT_SIZE + 1, type: 'application/zip' })
+
+    // Assert
+    expect(error).toBe('"video.zip" is larger than 10.0 MB.')
+  })
+
+  it('should reject types that are not allowed', () => {
+    // Arrange & Act & Assert
+    expect(validateAttachment({ name: 'logo.svg', size: 100, type: 'image/svg+xml' })).toBe(
+      '"logo.svg" is not an allowed file type.',
+    )
+    expect(validateAttachment({ name: 'run.exe', size: 100, type: '' })).not.toBeNull()
+  })
+})
+
+describe('attachment helpers', () => {
+  it('should only treat raster images as thumbnails', () => {
+    // Arrange & Act & Assert
+    expect(isImageAttachment('image/webp')).toBe(true)
+    expect(isImageAttachment('application/pdf')).toBe(false)
+  })
+
+  it('should format sizes', () => {
+    // Arrange & Act & Assert
+    expect(formatFileSize(512)).toBe('512 B')
+    expect(formatFileSize(1536)).toBe('1.5 KB')
+    expect(formatFileSize(5 * 1024 * 1024)).toBe('5.0 MB')
+  })
+})
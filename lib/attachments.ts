@@ -0,0 +1,60 @@
+/**
+ * Limits and helpers for task attachments, shared by the upload form and the server
+ */
+
+/**
+ * Largest file accepted per attachment (10 MB)
+ * Keep next.config.ts' serverActions.bodySizeLimit above this
+ */
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024
+
+/**
+ * Most files accepted in one upload
+ */
+export const MAX_ATTACHMENTS_PER_UPLOAD = 5
+
+/**
+ * Content types accepted for upload. SVG is left out because it can carry scripts.
+ */
+export const ATTACHMENT_TYPES = [
+    "image/png",
+    "image/jpeg",
+    "image/gif",
+    "image/webp",
+    "application/pdf",
+    "text/plain",
+    "text/csv",
+    "application/zip",
+] as const
+
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"]
+
+/**
+ * Whether an attachment can be shown inline as an image thumbnail
+ */
+export function isImageAttachment(contentType: string): boolean {
+    return IMAGE_TYPES.includes(contentType)
+}
+
+/**
+ * Check one file against the size and type limits
+ * Returns an error message, or null when the file is accepted
+ */
+export function validateAttachment(file: { name: string; size: number; type: string }): string | null {
+    if (!(ATTACHMENT_TYPES as readonly string[]).includes(file.type)) {
+        return `"${file.name}" is not an allowed file type.`
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+        return `"${file.name}" is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}.`
+    }
+    return null
+}
+
+/**
+ * Human-readable file size, e.g. "2.4 MB"
+ */
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
@@ -0,0 +1,108 @@
+/**
+ * Issuing and redeeming the emailed tokens described in lib/auth-tokens.ts. Server-only.
+ */
+
+import { PrismaClient, type Prisma } from "@/app/generated/prisma"
+import {
+    createAuthToken,
+    getAuthTokenExpiry,
+    getAuthTokenUrl,
+    hashAuthToken,
+    isAuthTokenUsable,
+    PASSWORD_RESET_REQUEST_LIMITS,
+    type AuthTokenPurpose,
+    type EmailedAuthTokenPurpose,
+} from "./auth-tokens"
+import { renderPasswordResetEmail, renderVerificationEmail } from "./email"
+import { normalizeLoginEmail } from "./login-throttle"
+import { getAppUrl } from "./notification-emails"
+import { enqueueEmail } from "./outbox"
+
+const prisma = new PrismaClient()
+
+const RENDERERS = {
+    password_reset: renderPasswordResetEmail,
+    email_verification: renderVerificationEmail,
+}
+
+/**
+ * Issue a token and return it. Earlier unused tokens for the same user and purpose stop working,
+ * so only the newest email or sign-in is valid.
+ */
+export async function issueAuthToken(tx: Prisma.TransactionClient, userId: number, purpose: AuthTokenPurpose) {
+    const now = new Date()
+    await tx.authToken.deleteMany({
+        where: { OR: [{ userId, purpose, usedAt: null }, { expiresAt: { lte: now } }] },
+    })
+
+    const { token, tokenHash } = createAuthToken()
+    await tx.authToken.create({
+        data: { userId, purpose, tokenHash, expiresAt: getAuthTokenExpiry(purpose, now), createdAt: now },
+    })
+    return token
+}
+
+/**
+ * Issue a token and queue the email carrying its link
+ */
+export async function sendAuthTokenEmail(
+    tx: Prisma.TransactionClient,
+    user: { id: number; email: string; name: string },
+    purpose: EmailedAuthTokenPurpose,
+) {
+    const token = await issueAuthToken(tx, user.id, purpose)
+    const url = getAuthTokenUrl(getAppUrl(), purpose, token)
+    await enqueueEmail(tx, { to: user.email, ...RENDERERS[purpose](user.name, url) })
+}
+
+/**
+ * The id of the user a token was issued to, while it can still be redeemed. Doesn't use the token up.
+ */
+export async function getAuthTokenUserId(purpose: AuthTokenPurpose, token: string) {
+    const stored = await prisma.authToken.findUnique({ where: { tokenHash: hashAuthToken(token) } })
+    return stored && stored.purpose === purpose && isAuthTokenUsable(stored) ? stored.userId : null
+}
+
+/**
+ * Whether a link's token can still be redeemed, without using it up
+ */
+export async function isAuthTokenValid(purpose: EmailedAuthTokenPurpose, token: string) {
+    return (await getAuthTokenUserId(purpose, token)) !== null
+}
+
+/**
+ * Use up a token and return the id of the user it was issued to, or null when it is unknown, used or expired.
+ * The token is marked used only if nobody else got there first, so a link can't be redeemed twice
+ * even by two requests at once.
+ */
+export async function redeemAuthToken(tx: Prisma.TransactionClient, purpose: AuthTokenPurpose, token: string) {
+    const now = new Date()
+    const stored = await tx.authToken.findUnique({ where: { tokenHash: hashAuthToken(token) } })
+    if (!stored || stored.purpose !== purpose || !isAuthTokenUsable(stored, now)) return null
+
+    const { count } = await tx.authToken.updateMany({ where: { id: stored.id, usedAt: null }, data: { usedAt: now } })
+    return count === 1 ? stored.userId : null
+}
+
+/**
+ * Record a request for a password reset email and say whether it is within PASSWORD_RESET_REQUEST_LIMITS.
+ * The request is saved before counting, so simultaneous requests can't all get under the limit;
+ * a refused one is removed again so that retrying doesn't extend the wait.
+ */
+export async function reservePasswordResetRequest(email: string, ipAddress: string | null) {
+    const since = new Date(Date.now() - PASSWORD_RESET_REQUEST_LIMITS.windowMs)
+    await prisma.passwordResetRequest.deleteMany({ where: { createdAt: { lt: since } } })
+
+    const request = await prisma.passwordResetRequest.create({ data: { email: normalizeLoginEmail(email), ipAddress } })
+    const earlier = { id: { lte: request.id }, createdAt: { gte: since } }
+    const [forEmail, forIpAddress] = await Promise.all([
+        prisma.passwordResetRequest.count({ where: { ...earlier, email: request.email } }),
+        prisma.passwordResetRequest.count({ where: { ...earlier, ipAddress } }),
+    ])
+    if (forEmail <= PASSWORD_RESET_REQUEST_LIMITS.perEmail && forIpAddress <= PASSWORD_RESET_REQUEST_LIMITS.perIpAddress) {
+        return true
+    }
+
+    await prisma.passwordResetRequest.delete({ where: { id: request.id } })
+    return false
+}
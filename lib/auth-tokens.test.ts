@@ -0,0 +1,53 @@
+import {
+  AUTH_TOKEN_LIFETIME_MS,
+  createAuthToken,
+  getAuthTokenExpiry,
+  getAuthTokenUrl,
+  hashAuthToken,
+  isAuthTokenUsable,
+} from './auth-tokens'
+
+const now = new Date('2026-10-20T12:00:00Z')
+
+describe('createAuthToken', () => {
+  it('should return a random token with its hash, never storing the token itself', () => {
+    // Arrange & Act
+    const first = createAuthToken()
+    const second = createAuthToken()
+
+    // Assert
+    expect(first.token).not.toBe(second.token)
+    expect(first.tokenHash).toBe(hashAuthToken(first.token))
+    expect(first.tokenHash).not.toContain(first.token)
+  })
+})
+
+describe('isAuthTokenUsable', () => {
+  it('should accept an unused token before it expires', () => {
+    // Arrange & Act & Assert
+    expect(isAuthTokenUsable({ usedAt: null, expiresAt: getAuthTokenExpiry('password_reset', now) }, now)).toBe(true)
+  })
+
+  it('should refuse a token that was already used', () => {
+    // Arrange & Act & Assert
+    expect(isAuthTokenUsable({ usedAt: now, expiresAt: getAuthTokenExpiry('password_reset', now) }, now)).toBe(false)
+  })
+
+  it('should refuse a token once its lifetime has passed', () => {
+    // Arrange
+    const issuedAt = new Date(now.getTime() - AUTH_TOKEN_LIFETIME_MS.password_reset)
+
+    // Act & Assert
+    expect(isAuthTokenUsable({ usedAt: null, expiresAt: getAuthTokenExpiry('password_reset', issuedAt) }, now)).toBe(false)
+    expect(isAuthTokenUsable({ usedAt: null, expiresAt: getAuthTokenExpiry('email_verification', issuedAt) }, now)).toBe(true)
+  })
+})
+
+describe('getAuthTokenUrl', () => {
+  it('should link to the page for the token purpose', () => {
+    // Arrange & Act & Assert
+    expect(getAuthTokenUrl('https://tasks.example.com', 'email_verification', 'abc')).toBe(
+      'https://tasks.example.com/verify-email?token=abc',
+    )
+  })
+})
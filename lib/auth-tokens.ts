@@ -0,0 +1,69 @@
+/**
+ * Single-use tokens: sent by email for password resets and email verification, or kept in a cookie
+ * between the password and two-factor steps of signing in. Only a SHA-256 hash of each token is stored;
+ * the token itself exists only in the emailed link or the cookie.
+ * Issuing and redeeming tokens lives in lib/auth-token-store.ts.
+ */
+
+import { createHash, randomBytes } from "node:crypto"
+
+export const AUTH_TOKEN_PURPOSES = ["password_reset", "email_verification", "two_factor_login"] as const
+
+export type AuthTokenPurpose = (typeof AUTH_TOKEN_PURPOSES)[number]
+
+// Purposes whose tokens are sent as links by email
+export type EmailedAuthTokenPurpose = Exclude<AuthTokenPurpose, "two_factor_login">
+
+/**
+ * How long each kind of link works. Reset links are short-lived since they grant account access.
+ */
+export const AUTH_TOKEN_LIFETIME_MS: Record<AuthTokenPurpose, number> = {
+    password_reset: 60 * 60 * 1000,
+    email_verification: 24 * 60 * 60 * 1000,
+    two_factor_login: 10 * 60 * 1000,
+}
+
+/**
+ * Password reset emails one address may be sent, and reset requests one IP address may make, per window.
+ * Keeps the reset form from being used to flood someone's inbox.
+ */
+export const PASSWORD_RESET_REQUEST_LIMITS = {
+    perEmail: 3,
+    perIpAddress: 20,
+    windowMs: 60 * 60 * 1000,
+}
+
+/**
+ * Pages the emailed links open, with the token in the "token" search param
+ */
+export const AUTH_TOKEN_PATHS: Record<EmailedAuthTokenPurpose, string> = {
+    password_reset: "/reset-password",
+    email_verification: "/verify-email",
+}
+
+export function hashAuthToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex")
+}
+
+/**
+ * A new random token with the hash to store for it
+ */
+export function createAuthToken(): { token: string; tokenHash: string } {
+    const token = randomBytes(32).toString("base64url")
+    return { token, tokenHash: hashAuthToken(token) }
+}
+
+export function getAuthTokenExpiry(purpose: AuthTokenPurpose, issuedAt = new Date()): Date {
+    return new Date(issuedAt.getTime() + AUTH_TOKEN_LIFETIME_MS[purpose])
+}
+
+/**
+ * Whether a stored token can still be redeemed: not used yet and not expired
+ */
+export function isAuthTokenUsable(token: { usedAt: Date | null; expiresAt: Date }, now = new Date()): boolean {
+    return token.usedAt === null && token.expiresAt > now
+}
+
+export function getAuthTokenUrl(appUrl: string, purpose: EmailedAuthTokenPurpose, token: string): string {
+    return `${appUrl}${AUTH_TOKEN_PATHS[purpose]}?token=${encodeURIComponent(token)}`
+}
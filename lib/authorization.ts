@@ -0,0 +1,35 @@
+/**
+ * Permission checks for server actions. Server-only: reads the current session.
+ */
+
+import type { User } from "@/app/generated/prisma"
+import { can, type Permission } from "./permissions"
+import { getSession } from "./session-store"
+
+const PERMISSION_ERRORS: Record<Permission, string> = {
+    view_tasks: "You don't have access to tasks.",
+    edit_tasks: "Viewers can't change tasks.",
+    delete_tasks: "Only the task's creator or an admin can delete it.",
+    manage_members: "Only owners and admins can do that.",
+}
+
+export type Authorization = { user: User; error: null } | { user: null; error: string }
+
+/**
+ * The signed-in user if they hold `permission`, otherwise an error to return to the client.
+ * Rules that depend on a particular task (e.g. deleting) are checked again with `authorizeTask`
+ * once the task is loaded.
+ */
+export async function authorize(permission: Permission): Promise<Authorization> {
+    const user = (await getSession())?.user ?? null
+    if (!user) return { user: null, error: "Not authenticated." }
+    if (!can(user, permission)) return { user: null, error: PERMISSION_ERRORS[permission] }
+    return { user, error: null }
+}
+
+/**
+ * The error for a user who may not do `permission` to this task, or null when they may
+ */
+export function authorizeTask(user: User, permission: Permission, task: { creatorId: number }): string | null {
+    return can(user, permission, task) ? null : PERMISSION_ERRORS[permission]
+}
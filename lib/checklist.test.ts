@@ -0,0 +1,60 @@
+import { getChecklistProgress, parseChecklist, setChecklistItem } from './checklist'
+
+const description = ['Release notes', '- [ ] Draft', '- [x] Review', 'Some text', '* [X] Publish', '- [ ]'].join('\n')
+
+describe('parseChecklist', () => {
+  it('should find checked and unchecked items in order', () => {
+    // Arrange & Act
+    const items = parseChecklist(description)
+
+    // Assert
+    expect(items).toEqual([
+      { index: 0, line: 1, text: 'Draft', checked: false },
+      { index: 1, line: 2, text: 'Review', checked: true },
+      { index: 2, line: 4, text: 'Publish', checked: true },
+    ])
+  })
+
+  it('should skip checklist syntax inside code blocks', () => {
+    // Arrange
+    const withCode = ['```md', '- [ ] Example', '```', '- [ ] Real'].join('\n')
+
+    // Act
+    const items = parseChecklist(withCode)
+
+    // Assert
+    expect(items).toEqual([{ index: 0, line: 3, text: 'Real', checked: false }])
+  })
+
+  it('should count progress', () => {
+    // Arrange & Act & Assert
+    expect(getChecklistProgress(description)).toEqual({ done: 2, total: 3 })
+    expect(getChecklistProgress('No checklist here')).toEqual({ done: 0, total: 0 })
+  })
+})
+
+describe('setChecklistItem', () => {
+  it('should toggle only the given item', () => {
+    // Arrange & Act
+    const updated = setChecklistItem(description, 0, true)
+
+    // Assert
+    expect(updated.split('\n')[1]).toBe('- [x] Draft')
+    expect(updated.split('\n').filter((line, index) => index !== 1)).toEqual(
+      description.split('\n').filter((line, index) => index !== 1),
+    )
+  })
+
+  it('should uncheck an item', () => {
+    // Arrange & Act
+    const updated = setChecklistItem(description, 2, false)
+
+    // Assert
+    expect(updated.split('\n')[4]).toBe('* [ ] Publish')
+  })
+
+  it('should leave the description alone for a missing item', () => {
+    // Arrange & Act & Assert
+    expect(setChecklistItem(description, 5, true)).toBe(description)
+  })
+})
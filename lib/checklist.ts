@@ -0,0 +1,60 @@
+/**
+ * Checklist items written in a task description as "- [ ] item" / "- [x] item" lines
+ */
+
+const CHECKLIST_LINE = /^(\s*[-*]\s+\[)([ xX])(\]\s+)(.*)$/
+
+// Opening or closing line of a Markdown code block; checklist syntax inside one is just code
+export const CODE_FENCE = /^\s*(```|~~~)/
+
+export type ChecklistItem = {
+    // Position among the description's checklist items, used to toggle it
+    index: number
+    // Line number within the description
+    line: number
+    text: string
+    checked: boolean
+}
+
+/**
+ * Find every checklist item in a description, in order, skipping fenced code blocks
+ */
+export function parseChecklist(description: string): ChecklistItem[] {
+    const items: ChecklistItem[] = []
+    let fence: string | null = null
+    description.split("\n").forEach((content, line) => {
+        const fenceMatch = CODE_FENCE.exec(content)
+        if (fenceMatch && (fence === null || fenceMatch[1] === fence)) {
+            fence = fence === null ? fenceMatch[1] : null
+            return
+        }
+        if (fence !== null) return
+
+        const match = CHECKLIST_LINE.exec(content)
+        if (match && match[4].trim()) {
+            items.push({ index: items.length, line, text: match[4].trim(), checked: match[2] !== " " })
+        }
+    })
+    return items
+}
+
+/**
+ * Count checked and total checklist items, e.g. for a "2/4" indicator
+ */
+export function getChecklistProgress(description: string): { done: number; total: number } {
+    const items = parseChecklist(description)
+    return { done: items.filter((item) => item.checked).length, total: items.length }
+}
+
+/**
+ * Check or uncheck one checklist item, leaving the rest of the description untouched
+ * Returns the description unchanged when the item does not exist
+ */
+export function setChecklistItem(description: string, index: number, checked: boolean): string {
+    const item = parseChecklist(description).find((candidate) => candidate.index === index)
+    if (!item) return description
+
+    const lines = description.split("\n")
+    lines[item.line] = lines[item.line].replace(CHECKLIST_LINE, `$1${checked ? "x" : " "}$3$4`)
+    return lines.join("\n")
+}
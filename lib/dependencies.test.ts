@@ -0,0 +1,40 @@
+import { isBlocked, wouldCreateCycle } from './dependencies'
+
+// 1 blocks 2, 2 blocks 3
+const edges = [
+  { blockerId: 1, blockedId: 2 },
+  { blockerId: 2, blockedId: 3 },
+]
+
+describe('wouldCreateCycle', () => {
+  it('should allow links that keep the graph acyclic', () => {
+    // Arrange & Act & Assert
+    expect(wouldCreateCycle(edges, 1, 3)).toBe(false)
+    expect(wouldCreateCycle(edges, 4, 1)).toBe(false)
+  })
+
+  it('should reject direct and indirect loops', () => {
+    // Arrange & Act & Assert
+    expect(wouldCreateCycle(edges, 2, 1)).toBe(true)
+    expect(wouldCreateCycle(edges, 3, 1)).toBe(true)
+  })
+
+  it('should reject a task blocking itself', () => {
+    // Arrange & Act & Assert
+    expect(wouldCreateCycle([], 5, 5)).toBe(true)
+  })
+})
+
+describe('isBlocked', () => {
+  const statuses = [
+    { key: 'todo', category: 'not_started' },
+    { key: 'done', category: 'done' },
+  ]
+
+  it('should only count blockers that are not done', () => {
+    // Arrange & Act & Assert
+    expect(isBlocked(statuses, [{ status: 'done' }, { status: 'todo' }])).toBe(true)
+    expect(isBlocked(statuses, [{ status: 'done' }])).toBe(false)
+    expect(isBlocked(statuses, [])).toBe(false)
+  })
+})
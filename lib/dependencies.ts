@@ -0,0 +1,35 @@
+/**
+ * Helpers for "blocks / blocked by" links between tasks (TaskDependency rows)
+ */
+
+export type DependencyEdge = { blockerId: number; blockedId: number }
+
+/**
+ * Whether adding "blocker blocks blocked" would close a loop, i.e. `blocker` already
+ * (directly or indirectly) waits on `blocked`. A task blocking itself counts as a loop.
+ */
+export function wouldCreateCycle(edges: DependencyEdge[], blockerId: number, blockedId: number): boolean {
+    if (blockerId === blockedId) return true
+
+    // Walk forward from the blocked task along "blocks" links, looking for the blocker
+    const visited = new Set<number>([blockedId])
+    const queue = [blockedId]
+    while (queue.length > 0) {
+        const current = queue.shift()!
+        for (const edge of edges) {
+            if (edge.blockerId !== current || visited.has(edge.blockedId)) continue
+            if (edge.blockedId === blockerId) return true
+            visited.add(edge.blockedId)
+            queue.push(edge.blockedId)
+        }
+    }
+    return false
+}
+
+/**
+ * Whether a task still waits on any blocker that is not in a done-category status
+ */
+export function isBlocked(statuses: { key: string; category: string }[], blockers: { status: string }[]): boolean {
+    const doneKeys = statuses.filter((status) => status.category === "done").map((status) => status.key)
+    return blockers.some((blocker) => !doneKeys.includes(blocker.status))
+}
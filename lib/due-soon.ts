@@ -0,0 +1,73 @@
+/**
+ * due_soon notifications. Due dates have no event of their own, so these are created by a scan:
+ * for everyone from the outbox cron, and for the current user when their notification list loads.
+ * The due date is kept in `detail`, so moving a due date notifies again. Server-only.
+ */
+
+import { PrismaClient } from "@/app/generated/prisma"
+import { addDays, endOfDay, startOfDay } from "date-fns"
+import { formatDateForInput } from "./date-utils"
+import { queueNotificationEmails } from "./notification-emails"
+import { DUE_SOON_DAYS } from "./notifications"
+
+const prisma = new PrismaClient()
+
+function getDueSoonRange(now: Date) {
+    return { gte: startOfDay(now), lte: endOfDay(addDays(now, DUE_SOON_DAYS)) }
+}
+
+/**
+ * Notify `userId` about their unfinished tasks due within DUE_SOON_DAYS that they haven't been told about,
+ * queueing the matching emails. Returns the number of notifications created.
+ */
+export async function createDueSoonNotifications(userId: number, now = new Date()) {
+    const muted = await prisma.notificationPreference.findFirst({ where: { userId, type: "due_soon", enabled: false } })
+    if (muted) return 0
+
+    const tasks = await prisma.task.findMany({
+        where: {
+            assigneeId: userId,
+            dueDate: getDueSoonRange(now),
+            project: { members: { some: { userId } } },
+        },
+        select: { id: true, status: true, dueDate: true },
+    })
+    const doneKeys = new Set(
+        (await prisma.workflowStatus.findMany({ where: { category: "done" }, select: { key: true } })).map(({ key }) => key),
+    )
+    const due = tasks
+        .filter((task) => !doneKeys.has(task.status))
+        .map((task) => ({ taskId: task.id, detail: formatDateForInput(task.dueDate!) }))
+    if (due.length === 0) return 0
+
+    const existing = await prisma.notification.findMany({
+        where: { userId, type: "due_soon", taskId: { in: due.map(({ taskId }) => taskId) } },
+        select: { taskId: true, detail: true },
+    })
+    const fresh = due.filter(({ taskId, detail }) => !existing.some((n) => n.taskId === taskId && n.detail === detail))
+    if (fresh.length === 0) return 0
+
+    await prisma.$transaction(async (tx) => {
+        await tx.notification.createMany({ data: fresh.map((fields) => ({ ...fields, userId, type: "due_soon" })) })
+        for (const fields of fresh) await queueNotificationEmails(tx, "due_soon", [userId], fields)
+    })
+    return fresh.length
+}
+
+/**
+ * Run the due_soon scan for every user with a task due soon, so reminders go out to people who
+ * don't open the app. Returns the number of notifications created.
+ */
+export async function createAllDueSoonNotifications(now = new Date()) {
+    const assignees = await prisma.task.findMany({
+        where: { assigneeId: { not: null }, dueDate: getDueSoonRange(now) },
+        select: { assigneeId: true },
+        distinct: ["assigneeId"],
+    })
+
+    let created = 0
+    for (const { assigneeId } of assignees) {
+        created += await createDueSoonNotifications(assigneeId!, now)
+    }
+    return created
+}
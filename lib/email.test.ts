@@ -0,0 +1,69 @@
+import {
+  escapeHtml,
+  getRetryDelay,
+  renderDigestEmail,
+  renderNotificationEmail,
+  renderPasswordResetEmail,
+  renderVerificationEmail,
+} from './email'
+
+const item = { text: 'Alice assigned PLAT-3 to you', taskName: 'Fix <login> bug', url: 'http://localhost:3000/tasks/3' }
+
+describe('notification emails', () => {
+  it('should render a single notification as text and HTML', () => {
+    // Arrange & Act
+    const email = renderNotificationEmail('Bob', item)
+
+    // Assert
+    expect(email.subject).toBe('Alice assigned PLAT-3 to you')
+    expect(email.text).toContain('Hi Bob,')
+    expect(email.text).toContain('Fix <login> bug')
+    expect(email.text).toContain('http://localhost:3000/tasks/3')
+    expect(email.html).toContain('<a href="http://localhost:3000/tasks/3"')
+    expect(email.html).toContain('Fix &lt;login&gt; bug')
+  })
+
+  it('should count the items of a digest in its subject', () => {
+    // Arrange & Act & Assert
+    expect(renderDigestEmail('Bob', [item]).subject).toBe('Your TaskFlow digest: 1 update')
+    expect(renderDigestEmail('Bob', [item, item]).subject).toBe('Your TaskFlow digest: 2 updates')
+  })
+
+  it('should escape HTML special characters', () => {
+    // Arrange & Act & Assert
+    expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;')
+  })
+})
+
+describe('account emails', () => {
+  it('should put the reset link in both the text and HTML versions', () => {
+    // Arrange
+    const url = 'http://localhost:3000/reset-password?token=a&b'
+
+    // Act
+    const email = renderPasswordResetEmail('Bob', url)
+
+    // Assert
+    expect(email.subject).toBe('Reset your TaskFlow password')
+    expect(email.text).toContain(url)
+    expect(email.html).toContain('href="http://localhost:3000/reset-password?token=a&amp;b"')
+  })
+
+  it('should render the verification email for the recipient', () => {
+    // Arrange & Act
+    const email = renderVerificationEmail('Bob', 'http://localhost:3000/verify-email?token=abc')
+
+    // Assert
+    expect(email.text).toContain('Hi Bob,')
+    expect(email.text).toContain('http://localhost:3000/verify-email?token=abc')
+  })
+})
+
+describe('getRetryDelay', () => {
+  it('should double the delay after each attempt up to six hours', () => {
+    // Arrange & Act & Assert
+    expect(getRetryDelay(1)).toBe(60 * 1000)
+    expect(getRetryDelay(3)).toBe(4 * 60 * 1000)
+    expect(getRetryDelay(20)).toBe(6 * 60 * 60 * 1000)
+  })
+})
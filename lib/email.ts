@@ -0,0 +1,145 @@
+/**
+ * Email content and delivery rules for notification and account emails. Sending lives in lib/mail.ts and lib/outbox.ts.
+ */
+
+import type { NotificationType } from "./notifications"
+
+export const EMAIL_DELIVERIES = ["instant", "digest", "off"] as const
+
+export type EmailDelivery = (typeof EMAIL_DELIVERIES)[number]
+
+export const EMAIL_DELIVERY_LABELS: Record<EmailDelivery, string> = {
+    instant: "Right away",
+    digest: "Daily digest",
+    off: "Never",
+}
+
+/**
+ * Notification types that are also sent by email
+ */
+export const EMAIL_NOTIFICATION_TYPES: NotificationType[] = ["assigned", "due_soon"]
+
+/**
+ * Sends tried before an outbox email is marked failed
+ */
+export const MAX_SEND_ATTEMPTS = 5
+
+/**
+ * Time between daily digests
+ */
+export const DIGEST_INTERVAL_MS = 24 * 60 * 60 * 1000
+
+export type EmailContent = { subject: string; text: string; html: string }
+
+export type NotificationEmailItem = {
+    // One-line description, e.g. from describeNotification
+    text: string
+    taskName: string
+    url: string
+}
+
+export function isEmailDelivery(value: string): value is EmailDelivery {
+    return (EMAIL_DELIVERIES as readonly string[]).includes(value)
+}
+
+/**
+ * Wait before retrying a failed send: 1, 2, 4, 8... minutes, at most 6 hours
+ */
+export function getRetryDelay(attempts: number): number {
+    const minutes = Math.min(2 ** Math.max(attempts - 1, 0), 6 * 60)
+    return minutes * 60 * 1000
+}
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;")
+}
+
+function renderHtml(greeting: string, items: NotificationEmailItem[], footer: string): string {
+    const rows = items
+        .map(
+            (item) =>
+                `<li style="margin-bottom:12px"><a href="${escapeHtml(item.url)}" style="color:#00848B">${escapeHtml(item.text)}</a>` +
+                `<br><span style="color:#6b7280">${escapeHtml(item.taskName)}</span></li>`,
+        )
+        .join("")
+    return (
+        `<!doctype html><html><body style="font-family:sans-serif;font-size:14px;color:#111827">` +
+        `<p>${escapeHtml(greeting)}</p><ul style="padding-left:20px">${rows}</ul>` +
+        `<p style="color:#6b7280;font-size:12px">${escapeHtml(footer)}</p></body></html>`
+    )
+}
+
+function renderText(greeting: string, items: NotificationEmailItem[], footer: string): string {
+    const rows = items.map((item) => `- ${item.text}\n  ${item.taskName}\n  ${item.url}`).join("\n\n")
+    return `${greeting}\n\n${rows}\n\n${footer}\n`
+}
+
+const FOOTER = "You can change which emails you get under Settings > Notifications."
+
+/**
+ * Email for a single notification, sent right away
+ */
+export function renderNotificationEmail(recipientName: string, item: NotificationEmailItem): EmailContent {
+    const greeting = `Hi ${recipientName},`
+    return {
+        subject: item.text,
+        text: renderText(greeting, [item], FOOTER),
+        html: renderHtml(greeting, [item], FOOTER),
+    }
+}
+
+/**
+ * Email collecting a day's notifications
+ */
+export function renderDigestEmail(recipientName: string, items: NotificationEmailItem[]): EmailContent {
+    const greeting = `Hi ${recipientName}, here is what happened since your last digest:`
+    return {
+        subject: `Your TaskFlow digest: ${items.length} ${items.length === 1 ? "update" : "updates"}`,
+        text: renderText(greeting, items, FOOTER),
+        html: renderHtml(greeting, items, FOOTER),
+    }
+}
+
+// A greeting, a paragraph and one button-style link, for account emails
+function renderLinkEmail(subject: string, greeting: string, body: string, link: { label: string; url: string }, footer: string): EmailContent {
+    return {
+        subject,
+        text: `${greeting}\n\n${body}\n\n${link.url}\n\n${footer}\n`,
+        html:
+            `<!doctype html><html><body style="font-family:sans-serif;font-size:14px;color:#111827">` +
+            `<p>${escapeHtml(greeting)}</p><p>${escapeHtml(body)}</p>` +
+            `<p><a href="${escapeHtml(link.url)}" style="color:#00848B">${escapeHtml(link.label)}</a></p>` +
+            `<p style="color:#6b7280;font-size:12px">${escapeHtml(footer)}</p></body></html>`,
+    }
+}
+
+/**
+ * Email with a link for choosing a new password
+ */
+export function renderPasswordResetEmail(recipientName: string, url: string): EmailContent {
+    return renderLinkEmail(
+        "Reset your TaskFlow password",
+        `Hi ${recipientName},`,
+        "Someone asked to reset the password for your TaskFlow account. The link below works once, for the next hour.",
+        { label: "Choose a new password", url },
+        "If this wasn't you, ignore this email; your password stays the same.",
+    )
+}
+
+/**
+ * Email with a link confirming the recipient owns the address
+ */
+export function renderVerificationEmail(recipientName: string, url: string): EmailContent {
+    return renderLinkEmail(
+        "Confirm your email for TaskFlow",
+        `Hi ${recipientName},`,
+        "Confirm this is your email address by opening the link below within the next 24 hours.",
+        { label: "Confirm email address", url },
+        "If you didn't sign up for TaskFlow, ignore this email.",
+    )
+}
@@ -0,0 +1,78 @@
+import { isTaskChange, mergeBoardColumns, mergeTaskList, type TaskChange } from './live-updates'
+
+const change = (type: TaskChange['type'], taskIds: number[]): TaskChange => ({ type, projectId: 1, taskIds })
+
+describe('mergeTaskList', () => {
+  it('should update changed rows in place and drop rows missing from the re-fetch', () => {
+    // Arrange
+    const current = [{ id: 1, name: 'a' }, { id: 2, name: 'b' }, { id: 3, name: 'c' }]
+
+    // Act
+    const merged = mergeTaskList(current, change('updated', [2, 3]), [{ id: 2, name: 'B' }])
+
+    // Assert
+    expect(merged).toEqual([{ id: 1, name: 'a' }, { id: 2, name: 'B' }])
+  })
+
+  it('should put created tasks at the top', () => {
+    // Arrange
+    const current = [{ id: 1, name: 'a' }]
+
+    // Act
+    const merged = mergeTaskList(current, change('created', [2]), [{ id: 2, name: 'b' }])
+
+    // Assert
+    expect(merged.map((task) => task.id)).toEqual([2, 1])
+  })
+
+  it('should not add tasks that were only updated', () => {
+    // Arrange & Act
+    const merged = mergeTaskList([{ id: 1 }], change('updated', [2]), [{ id: 2 }])
+
+    // Assert
+    expect(merged).toEqual([{ id: 1 }])
+  })
+})
+
+describe('mergeBoardColumns', () => {
+  const columns = {
+    todo: { id: 'todo', tasks: [{ id: 1, status: 'todo', rank: 'B' }, { id: 2, status: 'todo', rank: 'D' }] },
+    done: { id: 'done', tasks: [{ id: 3, status: 'done', rank: 'C' }] },
+  }
+
+  it('should move a task to its new column by rank', () => {
+    // Arrange & Act
+    const merged = mergeBoardColumns(columns, [1], [{ id: 1, status: 'done', rank: 'A' }])
+
+    // Assert
+    expect(merged.todo.tasks.map((task) => task.id)).toEqual([2])
+    expect(merged.done.tasks.map((task) => task.id)).toEqual([1, 3])
+  })
+
+  it('should reorder a task within its column and remove deleted tasks', () => {
+    // Arrange & Act
+    const merged = mergeBoardColumns(columns, [1, 3], [{ id: 1, status: 'todo', rank: 'E' }])
+
+    // Assert
+    expect(merged.todo.tasks.map((task) => task.id)).toEqual([2, 1])
+    expect(merged.done.tasks).toEqual([])
+  })
+
+  it('should leave held tasks alone', () => {
+    // Arrange & Act
+    const merged = mergeBoardColumns(columns, [1], [], new Set([1]))
+
+    // Assert
+    expect(merged.todo.tasks.map((task) => task.id)).toEqual([1, 2])
+  })
+})
+
+describe('isTaskChange', () => {
+  it('should accept task changes and reject other values', () => {
+    // Arrange & Act & Assert
+    expect(isTaskChange(change('moved', [1]))).toBe(true)
+    expect(isTaskChange({ type: 'renamed', projectId: 1, taskIds: [1] })).toBe(false)
+    expect(isTaskChange({ type: 'updated', projectId: 1, taskIds: ['1'] })).toBe(false)
+    expect(isTaskChange(null)).toBe(false)
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * Live task updates: the events broadcast when tasks change, and how open boards and lists
+ * fold re-fetched tasks into what they already show. Publishing lives in lib/task-broadcast.ts.
+ */
+
+import { compareRanks } from "./rank"
+
+export const TASK_CHANGE_TYPES = ["created", "updated", "moved", "deleted"] as const
+
+export type TaskChangeType = (typeof TASK_CHANGE_TYPES)[number]
+
+/**
+ * Sent after a write commits. Events carry ids only; clients re-fetch the tasks they can see,
+ * so a task missing from that re-fetch was deleted, moved away or no longer matches.
+ */
+export type TaskChange = {
+    type: TaskChangeType
+    projectId: number
+    taskIds: number[]
+}
+
+export function isTaskChange(value: unknown): value is TaskChange {
+    if (!value || typeof value !== "object") return false
+    const change = value as Record<string, unknown>
+    return (
+        (TASK_CHANGE_TYPES as readonly unknown[]).includes(change.type) &&
+        typeof change.projectId === "number" &&
+        Array.isArray(change.taskIds) &&
+        change.taskIds.every((id) => typeof id === "number")
+    )
+}
+
+/**
+ * Fold re-fetched tasks into a list: rows keep their place and take the new values,
+ * rows missing from `fresh` are dropped, and newly created tasks go to the top
+ */
+export function mergeTaskList<T extends { id: number }>(current: T[], change: TaskChange, fresh: T[]): T[] {
+    const freshById = new Map(fresh.map((task) => [task.id, task]))
+    const merged: T[] = []
+    for (const task of current) {
+        if (!change.taskIds.includes(task.id)) merged.push(task)
+        else if (freshById.has(task.id)) merged.push(freshById.get(task.id)!)
+    }
+
+    if (change.type !== "created") return merged
+    const added = fresh.filter((task) => !current.some((t) => t.id === task.id))
+    return [...added, ...merged]
+}
+
+/**
+ * Fold re-fetched tasks into board columns, each placed in its status column by rank.
+ * Tasks in `held` (e.g. the card being dragged) are left where they are.
+ */
+export function mergeBoardColumns<C extends { tasks: { id: number; status: string; rank: string }[] }>(
+    columns: Record<string, C>,
+    taskIds: number[],
+    fresh: C["tasks"][number][],
+    held: ReadonlySet<number> = new Set(),
+): Record<string, C> {
+    const replaced = new Set(taskIds.filter((id) => !held.has(id)))
+    const incoming = fresh.filter((task) => replaced.has(task.id))
+
+    const merged: Record<string, C> = {}
+    for (const [status, column] of Object.entries(columns)) {
+        const tasks = column.tasks.filter((task) => !replaced.has(task.id))
+        for (const task of incoming.filter((task) => task.status === status)) {
+            const index = tasks.findIndex((other) => compareRanks(task, other) < 0)
+            tasks.splice(index === -1 ? tasks.length : index, 0, task)
+        }
+        merged[status] = { ...column, tasks }
+    }
+    return merged
+}
@@ -0,0 +1,115 @@
+import { beginLoginAttempt, checkLoginThrottle, finishLoginAttempt, MemoryLoginAttemptStore, recordLoginAttempt } from './login-attempts'
+import { ACCOUNT_THROTTLE, IP_THROTTLE, LOGIN_ATTEMPT_RETENTION_MS } from './login-throttle'
+
+const now = new Date('2026-10-20T12:00:00Z')
+const ago = (ms: number) => new Date(now.getTime() - ms)
+
+async function fail(store: MemoryLoginAttemptStore, email: string, ipAddress: string, times: number, at = now) {
+  for (let i = 0; i < times; i++) {
+    await recordLoginAttempt({ email, userId: 1, ipAddress, userAgent: null, succeeded: false }, store, at)
+  }
+}
+
+describe('checkLoginThrottle', () => {
+  it('should lock an account after repeated failures, whatever the address', async () => {
+    // Arrange
+    const store = new MemoryLoginAttemptStore()
+    await fail(store, 'alice@example.com', '10.0.0.1', ACCOUNT_THROTTLE.lockoutAfter)
+
+    // Act
+    const throttle = await checkLoginThrottle('Alice@Example.com', '10.0.0.2', store, now)
+
+    // Assert
+    expect(throttle).toEqual({ retryAfterMs: ACCOUNT_THROTTLE.windowMs, locked: true })
+  })
+
+  it('should clear an account after a successful sign-in', async () => {
+    // Arrange
+    const store = new MemoryLoginAttemptStore()
+    await fail(store, 'alice@example.com', '10.0.0.1', ACCOUNT_THROTTLE.freeAttempts, ago(2000))
+    await recordLoginAttempt(
+      { email: 'alice@example.com', userId: 1, ipAddress: '10.0.0.1', userAgent: null, succeeded: true },
+      store,
+      ago(1000),
+    )
+
+    // Act & Assert
+    expect(await checkLoginThrottle('alice@example.com', null, store, now)).toBeNull()
+  })
+
+  it('should slow down one address trying many accounts', async () => {
+    // Arrange
+    const store = new MemoryLoginAttemptStore()
+    for (let i = 0; i < IP_THROTTLE.freeAttempts; i++) {
+      await fail(store, `user${i}@example.com`, '10.0.0.1', 1)
+    }
+
+    // Act
+    const throttle = await checkLoginThrottle('new@example.com', '10.0.0.1', store, now)
+
+    // Assert
+    expect(throttle).toEqual({ retryAfterMs: IP_THROTTLE.baseDelayMs, locked: false })
+    expect(await checkLoginThrottle('new@example.com', '10.0.0.2', store, now)).toBeNull()
+  })
+  it('should limit attempts with no address under one shared key', async () => {
+    // Arrange
+    const store = new MemoryLoginAttemptStore()
+    for (let i = 0; i < IP_THROTTLE.freeAttempts; i++) {
+      await recordLoginAttempt({ email: `user${i}@example.com`, userId: null, ipAddress: null, userAgent: null, succeeded: false }, store, now)
+    }
+
+    // Act & Assert
+    expect(await checkLoginThrottle('new@example.com', null, store, now)).not.toBeNull()
+  })
+})
+
+describe('beginLoginAttempt', () => {
+  const attempt = { email: 'alice@example.com', userId: 1, ipAddress: '10.0.0.1', userAgent: null }
+
+  it('should count simultaneous attempts against each other', async () => {
+    // Arrange
+    const store = new MemoryLoginAttemptStore()
+
+    // Act
+    const starts = await Promise.all(Array.from({ length: 10 }, () => beginLoginAttempt(attempt, store, now)))
+
+    // Assert
+    expect(starts.filter((start) => start.throttle === null)).toHaveLength(ACCOUNT_THROTTLE.freeAttempts)
+    expect(await store.getFailures({ email: 'alice@example.com' }, ago(1000))).toHaveLength(ACCOUNT_THROTTLE.freeAttempts)
+  })
+
+  it('should clear the account when finished as a success and forget pending attempts', async () => {
+    // Arrange
+    const store = new MemoryLoginAttemptStore()
+    await fail(store, 'alice@example.com', '10.0.0.1', ACCOUNT_THROTTLE.freeAttempts - 1, ago(2000))
+    const pending = await beginLoginAttempt(attempt, store, ago(1000))
+    await finishLoginAttempt(pending.attemptId!, 'pending', store, ago(1000))
+    const signIn = await beginLoginAttempt(attempt, store, now)
+
+    // Act
+    await finishLoginAttempt(signIn.attemptId!, 'succeeded', store, now)
+
+    // Assert
+    expect(pending.throttle).toBeNull()
+    expect(signIn.throttle).toBeNull()
+    expect(await checkLoginThrottle('alice@example.com', '10.0.0.1', store, now)).toBeNull()
+    expect(await store.listFailures(1, 10)).toHaveLength(ACCOUNT_THROTTLE.freeAttempts - 1)
+  })
+})
+
+describe('MemoryLoginAttemptStore', () => {
+  it('should list a user\'s failures newest first and purge old attempts', async () => {
+    // Arrange
+    const store = new MemoryLoginAttemptStore()
+    await fail(store, 'alice@example.com', '10.0.0.1', 1, ago(LOGIN_ATTEMPT_RETENTION_MS + 1000))
+    await fail(store, 'alice@example.com', '10.0.0.2', 1, ago(1000))
+
+    // Act
+    const removed = await store.purge(ago(LOGIN_ATTEMPT_RETENTION_MS))
+    const failures = await store.listFailures(1, 10)
+
+    // Assert
+    expect(removed).toBe(1)
+    expect(failures.map((failure) => failure.ipAddress)).toEqual(['10.0.0.2'])
+  })
+})
@@ -0,0 +1,243 @@
+/**
+ * Storage for sign-in attempts, and the checks login() makes with it. The database store keeps
+ * attempts in SQLite, so limits hold across restarts; the memory store suits tests and throwaway setups.
+ * Limits are shared only between processes that share the store, which is fine for a single-node deployment.
+ * Server-only.
+ *
+ * Configured with LOGIN_ATTEMPT_STORE: "database" (default) or "memory".
+ */
+
+import { PrismaClient } from "@/app/generated/prisma"
+import {
+    ACCOUNT_THROTTLE,
+    combineThrottles,
+    getThrottle,
+    IP_THROTTLE,
+    LOGIN_ATTEMPT_RETENTION_MS,
+    normalizeLoginEmail,
+    type Throttle,
+} from "./login-throttle"
+
+export type LoginAttemptRecord = {
+    email: string
+    userId: number | null
+    ipAddress: string | null
+    userAgent: string | null
+    succeeded: boolean
+    createdAt: Date
+}
+
+// Attempts are limited per account (by email) and per client address. Attempts with no known address
+// share one limit, so hiding the address doesn't escape it.
+export type ThrottleKey = { email: string } | { ipAddress: string | null }
+
+export interface LoginAttemptStore {
+    /** Save one sign-in attempt and return its id */
+    record(attempt: LoginAttemptRecord): Promise<number>
+    /** Set the outcome of a saved attempt */
+    setSucceeded(id: number, succeeded: boolean): Promise<void>
+    /** Forget one saved attempt */
+    remove(id: number): Promise<void>
+    /**
+     * Times of failed attempts for `key` since `since`, oldest first, optionally only those saved before
+     * attempt `beforeId`. For an email, only failures after the account's last successful sign-in count.
+     */
+    getFailures(key: ThrottleKey, since: Date, beforeId?: number): Promise<Date[]>
+    /** A user's most recent failed attempts, newest first */
+    listFailures(userId: number, limit: number): Promise<LoginAttemptRecord[]>
+    /** Forget attempts made before `before`. Returns how many were removed. */
+    purge(before: Date): Promise<number>
+}
+
+/**
+ * Keeps attempts in this process's memory; they are lost on restart
+ */
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+    private attempts: (LoginAttemptRecord & { id: number })[] = []
+    private nextId = 1
+
+    async record(attempt: LoginAttemptRecord): Promise<number> {
+        const id = this.nextId++
+        this.attempts.push({ ...attempt, id })
+        return id
+    }
+
+    async setSucceeded(id: number, succeeded: boolean): Promise<void> {
+        const attempt = this.attempts.find((attempt) => attempt.id === id)
+        if (attempt) attempt.succeeded = succeeded
+    }
+
+    async remove(id: number): Promise<void> {
+        this.attempts = this.attempts.filter((attempt) => attempt.id !== id)
+    }
+
+    async getFailures(key: ThrottleKey, since: Date, beforeId?: number): Promise<Date[]> {
+        const matching = this.attempts.filter(
+            (attempt) =>
+                (beforeId === undefined || attempt.id < beforeId) &&
+                ("email" in key ? attempt.email === key.email : attempt.ipAddress === key.ipAddress),
+        )
+        const lastSuccess = "email" in key ? matching.findLast((attempt) => attempt.succeeded)?.createdAt : undefined
+        const start = lastSuccess && lastSuccess > since ? lastSuccess : since
+        return matching
+            .filter((attempt) => !attempt.succeeded && attempt.createdAt > start)
+            .map((attempt) => attempt.createdAt)
+    }
+
+    async listFailures(userId: number, limit: number): Promise<LoginAttemptRecord[]> {
+        return this.attempts
+            .filter((attempt) => attempt.userId === userId && !attempt.succeeded)
+            .reverse()
+            .slice(0, limit)
+    }
+
+    async purge(before: Date): Promise<number> {
+        const count = this.attempts.length
+        this.attempts = this.attempts.filter((attempt) => attempt.createdAt >= before)
+        return count - this.attempts.length
+    }
+}
+
+/**
+ * Keeps attempts in the LoginAttempt table
+ */
+export class DatabaseLoginAttemptStore implements LoginAttemptStore {
+    private readonly prisma = new PrismaClient()
+
+    async record(attempt: LoginAttemptRecord): Promise<number> {
+        const { id } = await this.prisma.loginAttempt.create({ data: attempt, select: { id: true } })
+        return id
+    }
+
+    async setSucceeded(id: number, succeeded: boolean): Promise<void> {
+        await this.prisma.loginAttempt.updateMany({ where: { id }, data: { succeeded } })
+    }
+
+    async remove(id: number): Promise<void> {
+        await this.prisma.loginAttempt.deleteMany({ where: { id } })
+    }
+
+    async getFailures(key: ThrottleKey, since: Date, beforeId?: number): Promise<Date[]> {
+        const saved = beforeId === undefined ? {} : { id: { lt: beforeId } }
+        const lastSuccess =
+            "email" in key
+                ? await this.prisma.loginAttempt.findFirst({
+                      where: { ...saved, email: key.email, succeeded: true, createdAt: { gt: since } },
+                      orderBy: { createdAt: "desc" },
+                  })
+                : null
+        const failures = await this.prisma.loginAttempt.findMany({
+            where: { ...saved, ...key, succeeded: false, createdAt: { gt: lastSuccess?.createdAt ?? since } },
+            select: { createdAt: true },
+            orderBy: { createdAt: "asc" },
+        })
+        return failures.map((failure) => failure.createdAt)
+    }
+
+    async listFailures(userId: number, limit: number): Promise<LoginAttemptRecord[]> {
+        return this.prisma.loginAttempt.findMany({
+            where: { userId, succeeded: false },
+            orderBy: { createdAt: "desc" },
+            take: limit,
+        })
+    }
+
+    async purge(before: Date): Promise<number> {
+        const { count } = await this.prisma.loginAttempt.deleteMany({ where: { createdAt: { lt: before } } })
+        return count
+    }
+}
+
+let store: LoginAttemptStore | null = null
+
+/**
+ * The configured store, created on first use
+ */
+export function getLoginAttemptStore(): LoginAttemptStore {
+    if (store) return store
+    store = process.env.LOGIN_ATTEMPT_STORE === "memory" ? new MemoryLoginAttemptStore() : new DatabaseLoginAttemptStore()
+    return store
+}
+
+async function getLoginThrottle(
+    email: string,
+    ipAddress: string | null,
+    loginStore: LoginAttemptStore,
+    now: Date,
+    beforeId?: number,
+): Promise<Throttle | null> {
+    const account = await loginStore.getFailures(
+        { email: normalizeLoginEmail(email) },
+        new Date(now.getTime() - ACCOUNT_THROTTLE.windowMs),
+        beforeId,
+    )
+    const address = await loginStore.getFailures({ ipAddress }, new Date(now.getTime() - IP_THROTTLE.windowMs), beforeId)
+    return combineThrottles([getThrottle(account, ACCOUNT_THROTTLE, now), getThrottle(address, IP_THROTTLE, now)])
+}
+
+/**
+ * The wait before another sign-in for this email from this address, or null when it may go ahead
+ */
+export async function checkLoginThrottle(
+    email: string,
+    ipAddress: string | null,
+    loginStore: LoginAttemptStore = getLoginAttemptStore(),
+    now = new Date(),
+): Promise<Throttle | null> {
+    return getLoginThrottle(email, ipAddress, loginStore, now)
+}
+
+export type LoginAttemptStart = { attemptId: number; throttle: null } | { attemptId: null; throttle: Throttle }
+
+/**
+ * Start checking a password or code: save the attempt as a failure, then apply the limits to the
+ * attempts saved before it. Saving first means simultaneous attempts count against each other, so
+ * sending many at once doesn't get around the limits. A throttled attempt is forgotten again;
+ * otherwise pass the id to finishLoginAttempt once the password or code has been checked.
+ */
+export async function beginLoginAttempt(
+    attempt: Omit<LoginAttemptRecord, "createdAt" | "succeeded">,
+    loginStore: LoginAttemptStore = getLoginAttemptStore(),
+    now = new Date(),
+): Promise<LoginAttemptStart> {
+    const attemptId = await loginStore.record({
+        ...attempt,
+        email: normalizeLoginEmail(attempt.email),
+        succeeded: false,
+        createdAt: now,
+    })
+    const throttle = await getLoginThrottle(attempt.email, attempt.ipAddress, loginStore, now, attemptId)
+    if (!throttle) return { attemptId, throttle: null }
+
+    await loginStore.remove(attemptId)
+    return { attemptId: null, throttle }
+}
+
+/**
+ * Settle an attempt from beginLoginAttempt: "failed" keeps it as a failure, "succeeded" clears the
+ * account's failures, and "pending" forgets it, for a right password still waiting on a second factor.
+ */
+export async function finishLoginAttempt(
+    attemptId: number,
+    outcome: "succeeded" | "failed" | "pending",
+    loginStore: LoginAttemptStore = getLoginAttemptStore(),
+    now = new Date(),
+) {
+    if (outcome === "pending") await loginStore.remove(attemptId)
+    if (outcome !== "succeeded") return
+
+    await loginStore.setSucceeded(attemptId, true)
+    await loginStore.purge(new Date(now.getTime() - LOGIN_ATTEMPT_RETENTION_MS))
+}
+
+/**
+ * Save a sign-in attempt. Successful sign-ins also clear out attempts past the retention period.
+ */
+export async function recordLoginAttempt(
+    attempt: Omit<LoginAttemptRecord, "createdAt">,
+    loginStore: LoginAttemptStore = getLoginAttemptStore(),
+    now = new Date(),
+) {
+    await loginStore.record({ ...attempt, email: normalizeLoginEmail(attempt.email), createdAt: now })
+    if (attempt.succeeded) await loginStore.purge(new Date(now.getTime() - LOGIN_ATTEMPT_RETENTION_MS))
+}
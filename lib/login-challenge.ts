@@ -0,0 +1,71 @@
+/**
+ * The step between a correct password and a session, for users with two-factor authentication or who
+ * have to set it up. The half-finished sign-in is a "two_factor_login" AuthToken kept in a cookie;
+ * the Session is only created once the second step is done.
+ * Server-only. Functions that set cookies only work in server actions and route handlers.
+ */
+
+import { cookies } from "next/headers"
+import { PrismaClient } from "@/app/generated/prisma"
+import { getAuthTokenUserId, issueAuthToken, redeemAuthToken } from "./auth-token-store"
+import { getAuthTokenExpiry } from "./auth-tokens"
+import { createSession } from "./session-store"
+import { getSessionCookieOptions } from "./sessions"
+import { isTwoFactorRequired } from "./two-factor-store"
+
+const prisma = new PrismaClient()
+
+const LOGIN_CHALLENGE_COOKIE = "login_challenge"
+
+export type SecondStep = "verify" | "setup"
+
+export const SECOND_STEP_PATHS: Record<SecondStep, string> = {
+    verify: "/login/two-factor",
+    setup: "/login/two-factor/setup",
+}
+
+/**
+ * What a user has to do after their password before getting a session: enter a code, set up
+ * two-factor because the workspace requires it, or nothing
+ */
+export async function getSecondStep(user: { totpEnabledAt: Date | null }): Promise<SecondStep | null> {
+    if (user.totpEnabledAt) return "verify"
+    return (await isTwoFactorRequired()) ? "setup" : null
+}
+
+/**
+ * Remember on this browser that `userId` got their password right
+ */
+export async function startLoginChallenge(userId: number) {
+    const token = await prisma.$transaction((tx) => issueAuthToken(tx, userId, "two_factor_login"))
+    const cookieStore = await cookies()
+    cookieStore.set(LOGIN_CHALLENGE_COOKIE, token, getSessionCookieOptions(getAuthTokenExpiry("two_factor_login")))
+}
+
+/**
+ * The user partway through signing in on this browser, or null when there is none or it has expired
+ */
+export async function getLoginChallengeUser() {
+    const token = (await cookies()).get(LOGIN_CHALLENGE_COOKIE)?.value
+    if (!token) return null
+
+    const userId = await getAuthTokenUserId("two_factor_login", token)
+    return userId ? prisma.user.findUnique({ where: { id: userId } }) : null
+}
+
+/**
+ * Finish signing in: use up the challenge and create the session. Returns false when the challenge
+ * has expired or was already used.
+ */
+export async function completeLoginChallenge() {
+    const cookieStore = await cookies()
+    const token = cookieStore.get(LOGIN_CHALLENGE_COOKIE)?.value
+    if (!token) return false
+
+    const userId = await prisma.$transaction((tx) => redeemAuthToken(tx, "two_factor_login", token))
+    cookieStore.delete(LOGIN_CHALLENGE_COOKIE)
+    if (!userId) return false
+
+    await createSession(userId)
+    return true
+}
@@ -0,0 +1,76 @@
+import {
+  ACCOUNT_THROTTLE,
+  combineThrottles,
+  describeThrottle,
+  getThrottle,
+  normalizeLoginEmail,
+  type ThrottlePolicy,
+} from './login-throttle'
+
+const now = new Date('2026-10-20T12:00:00Z')
+const ago = (ms: number) => new Date(now.getTime() - ms)
+const policy: ThrottlePolicy = { freeAttempts: 3, baseDelayMs: 1000, maxDelayMs: 8000, lockoutAfter: 6, windowMs: 60 * 1000 }
+
+describe('getThrottle', () => {
+  it('should allow attempts until the free attempts are used up', () => {
+    // Arrange & Act & Assert
+    expect(getThrottle([ago(100), ago(100)], policy, now)).toBeNull()
+  })
+
+  it('should double the delay with each failure after the free attempts', () => {
+    // Arrange & Act & Assert
+    expect(getThrottle([ago(100), ago(100), ago(100)], policy, now)).toEqual({ retryAfterMs: 900, locked: false })
+    expect(getThrottle([ago(100), ago(100), ago(100), ago(100)], policy, now)).toEqual({ retryAfterMs: 1900, locked: false })
+  })
+
+  it('should allow another attempt once the delay has passed', () => {
+    // Arrange & Act & Assert
+    expect(getThrottle([ago(5000), ago(5000), ago(5000)], policy, now)).toBeNull()
+  })
+
+  it('should lock the key for the window after too many failures', () => {
+    // Arrange
+    const failures = Array.from({ length: 6 }, () => ago(10 * 1000))
+
+    // Act & Assert
+    expect(getThrottle(failures, policy, now)).toEqual({ retryAfterMs: 50 * 1000, locked: true })
+  })
+
+  it('should forget failures older than the window', () => {
+    // Arrange
+    const failures = Array.from({ length: 6 }, () => ago(policy.windowMs))
+
+    // Act & Assert
+    expect(getThrottle(failures, policy, now)).toBeNull()
+  })
+})
+
+describe('combineThrottles', () => {
+  it('should prefer a lockout over a longer delay', () => {
+    // Arrange & Act & Assert
+    expect(combineThrottles([{ retryAfterMs: 9000, locked: false }, { retryAfterMs: 1000, locked: true }, null])).toEqual({
+      retryAfterMs: 1000,
+      locked: true,
+    })
+  })
+
+  it('should return null when nothing is throttled', () => {
+    // Arrange & Act & Assert
+    expect(combineThrottles([null, null])).toBeNull()
+  })
+})
+
+describe('describeThrottle', () => {
+  it('should describe short delays in seconds and lockouts in minutes', () => {
+    // Arrange & Act & Assert
+    expect(describeThrottle({ retryAfterMs: 1500, locked: false })).toBe('Too many failed sign-in attempts. Try again in 2 seconds.')
+    expect(describeThrottle({ retryAfterMs: ACCOUNT_THROTTLE.windowMs, locked: true })).toContain('locked for 15 minutes')
+  })
+})
+
+describe('normalizeLoginEmail', () => {
+  it('should ignore case and surrounding spaces', () => {
+    // Arrange & Act & Assert
+    expect(normalizeLoginEmail(' Alice@Example.com ')).toBe('alice@example.com')
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * Rules for slowing down and locking out repeated failed sign-ins, per account and per IP address.
+ * Attempts are stored by a LoginAttemptStore (lib/login-attempts.ts).
+ */
+
+export type ThrottlePolicy = {
+    // Failures allowed before any delay
+    freeAttempts: number
+    // Wait after the first delayed failure; it doubles with each failure after that
+    baseDelayMs: number
+    maxDelayMs: number
+    // Failures that lock the key until `windowMs` after the last of them
+    lockoutAfter: number
+    // Failures older than this are forgotten
+    windowMs: number
+}
+
+/**
+ * Per account (the email typed in). A successful sign-in clears the account's failures.
+ */
+export const ACCOUNT_THROTTLE: ThrottlePolicy = {
+    freeAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 60 * 1000,
+    lockoutAfter: 10,
+    windowMs: 15 * 60 * 1000,
+}
+
+/**
+ * Per IP address. Looser than per account, since an office or mobile network can share one address,
+ * but it stops one client from trying many accounts.
+ */
+export const IP_THROTTLE: ThrottlePolicy = {
+    freeAttempts: 10,
+    baseDelayMs: 1000,
+    maxDelayMs: 60 * 1000,
+    lockoutAfter: 50,
+    windowMs: 60 * 60 * 1000,
+}
+
+/**
+ * Failed attempts are kept this long for the security settings page
+ */
+export const LOGIN_ATTEMPT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+export type Throttle = { retryAfterMs: number; locked: boolean }
+
+/**
+ * Whether another attempt must wait, given the times of recent failures for one key. Null when it may go ahead.
+ */
+export function getThrottle(failures: Date[], policy: ThrottlePolicy, now = new Date()): Throttle | null {
+    const recent = failures.filter((failure) => now.getTime() - failure.getTime() < policy.windowMs)
+    if (recent.length < policy.freeAttempts) return null
+
+    const last = Math.max(...recent.map((failure) => failure.getTime()))
+    if (recent.length >= policy.lockoutAfter) {
+        return { retryAfterMs: last + policy.windowMs - now.getTime(), locked: true }
+    }
+
+    const delay = Math.min(policy.baseDelayMs * 2 ** (recent.length - policy.freeAttempts), policy.maxDelayMs)
+    const retryAfterMs = last + delay - now.getTime()
+    return retryAfterMs > 0 ? { retryAfterMs, locked: false } : null
+}
+
+/**
+ * The stricter of several throttles: a lockout over a delay, then the longest wait
+ */
+export function combineThrottles(throttles: (Throttle | null)[]): Throttle | null {
+    return throttles.reduce<Throttle | null>((strictest, throttle) => {
+        if (!throttle) return strictest
+        if (!strictest) return throttle
+        if (throttle.locked !== strictest.locked) return throttle.locked ? throttle : strictest
+        return throttle.retryAfterMs > strictest.retryAfterMs ? throttle : strictest
+    }, null)
+}
+
+/**
+ * Message shown on the login form for a throttled attempt
+ */
+export function describeThrottle(throttle: Throttle): string {
+    const seconds = Math.ceil(throttle.retryAfterMs / 1000)
+    const wait = seconds < 60
+        ? `${seconds} ${seconds === 1 ? "second" : "seconds"}`
+        : `${Math.ceil(seconds / 60)} ${Math.ceil(seconds / 60) === 1 ? "minute" : "minutes"}`
+    return throttle.locked
+        ? `Too many failed sign-in attempts. Sign-in is locked for ${wait}, or you can reset your password.`
+        : `Too many failed sign-in attempts. Try again in ${wait}.`
+}
+
+/**
+ * Attempts are throttled by email however it was capitalised
+ */
+export function normalizeLoginEmail(email: string): string {
+    return email.trim().toLowerCase()
+}
@@ -0,0 +1,107 @@
+/**
+ * Pluggable mail transports. SMTP is for production; the file and console transports let local
+ * development and tests see outgoing mail without a mail server.
+ * Server-only: uses nodemailer and the Node file system.
+ *
+ * Configured with environment variables:
+ *   MAIL_TRANSPORT  "smtp", "file" or "console" (default)
+ *   MAIL_FROM       sender address
+ *   SMTP_HOST, SMTP_PORT, SMTP_SECURE ("true" for TLS), SMTP_USER, SMTP_PASSWORD
+ *   MAIL_DIR        directory for the file transport
+ */
+
+import { mkdir, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { randomUUID } from "node:crypto"
+import nodemailer, { type Transporter } from "nodemailer"
+import type { EmailContent } from "./email"
+
+export type MailMessage = EmailContent & { to: string }
+
+export interface MailTransport {
+    /** Send one message; rejects when it could not be handed to the mail server */
+    send(message: MailMessage): Promise<void>
+}
+
+const DEFAULT_FROM = "TaskFlow <no-reply@taskflow.local>"
+
+/**
+ * Sends mail through an SMTP server
+ */
+export class SmtpTransport implements MailTransport {
+    private readonly transporter: Transporter
+    private readonly from: string
+
+    constructor(options: { host: string; port: number; secure: boolean; user?: string; password?: string; from: string }) {
+        this.transporter = nodemailer.createTransport({
+            host: options.host,
+            port: options.port,
+            secure: options.secure,
+            auth: options.user ? { user: options.user, pass: options.password } : undefined,
+        })
+        this.from = options.from
+    }
+
+    async send(message: MailMessage): Promise<void> {
+        await this.transporter.sendMail({ from: this.from, ...message })
+    }
+}
+
+/**
+ * Writes each message as an .eml file that mail clients can open
+ */
+export class FileTransport implements MailTransport {
+    private readonly dir: string
+    private readonly from: string
+    // Builds the raw message without sending it anywhere
+    private readonly builder = nodemailer.createTransport({ streamTransport: true, buffer: true })
+
+    constructor(dir: string, from: string) {
+        this.dir = path.resolve(dir)
+        this.from = from
+    }
+
+    async send(message: MailMessage): Promise<void> {
+        const info = await this.builder.sendMail({ from: this.from, ...message })
+        await mkdir(this.dir, { recursive: true })
+        await writeFile(path.join(this.dir, `${Date.now()}-${randomUUID()}.eml`), info.message as Buffer)
+    }
+}
+
+/**
+ * Prints the plain-text version of each message to the server log
+ */
+export class ConsoleTransport implements MailTransport {
+    async send(message: MailMessage): Promise<void> {
+        console.log(`📧 To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`)
+    }
+}
+
+let transport: MailTransport | null = null
+
+/**
+ * The configured transport, created on first use
+ */
+export function getMailTransport(): MailTransport {
+    if (transport) return transport
+
+    const from = process.env.MAIL_FROM || DEFAULT_FROM
+    switch (process.env.MAIL_TRANSPORT) {
+        case "smtp":
+            transport = new SmtpTransport({
+                host: process.env.SMTP_HOST || "localhost",
+                port: Number(process.env.SMTP_PORT) || 587,
+                secure: process.env.SMTP_SECURE === "true",
+                user: process.env.SMTP_USER,
+                password: process.env.SMTP_PASSWORD,
+                from,
+            })
+            break
+        case "file":
+            transport = new FileTransport(process.env.MAIL_DIR || "storage/mail", from)
+            break
+        default:
+            transport = new ConsoleTransport()
+    }
+    return transport
+}
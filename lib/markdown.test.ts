@@ -0,0 +1,117 @@
+import { parseInline, parseMarkdown, sanitizeUrl } from './markdown'
+
+describe('parseMarkdown', () => {
+  it('should parse headings, paragraphs, code blocks and rules', () => {
+    // Arrange
+    const source = ['# Title', '', 'First line', 'second line', '', '```ts', 'const a = 1', '```', '---'].join('\n')
+
+    // Act
+    const blocks = parseMarkdown(source)
+
+    // Assert
+    expect(blocks).toEqual([
+      { type: 'heading', level: 1, children: [{ type: 'text', text: 'Title' }] },
+      { type: 'paragraph', children: [{ type: 'text', text: 'First line\nsecond line' }] },
+      { type: 'code', language: 'ts', text: 'const a = 1' },
+      { type: 'rule' },
+    ])
+  })
+
+  it('should parse ordered and unordered lists', () => {
+    // Arrange & Act
+    const blocks = parseMarkdown(['- one', '- two', '', '1. first', '2. second'].join('\n'))
+
+    // Assert
+    expect(blocks).toEqual([
+      {
+        type: 'list',
+        ordered: false,
+        items: [{ children: [{ type: 'text', text: 'one' }] }, { children: [{ type: 'text', text: 'two' }] }],
+      },
+      {
+        type: 'list',
+        ordered: true,
+        items: [{ children: [{ type: 'text', text: 'first' }] }, { children: [{ type: 'text', text: 'second' }] }],
+      },
+    ])
+  })
+
+  it('should mark task-list items with their source line', () => {
+    // Arrange & Act
+    const [list] = parseMarkdown(['Steps', '', '- [ ] Draft', '- [x] Review', '- Note'].join('\n')).slice(1)
+
+    // Assert
+    expect(list).toEqual({
+      type: 'list',
+      ordered: false,
+      items: [
+        { children: [{ type: 'text', text: 'Draft' }], task: { line: 2, checked: false } },
+        { children: [{ type: 'text', text: 'Review' }], task: { line: 3, checked: true } },
+        { children: [{ type: 'text', text: 'Note' }] },
+      ],
+    })
+  })
+
+  it('should keep HTML as text', () => {
+    // Arrange & Act
+    const blocks = parseMarkdown('<img src=x onerror="alert(1)">')
+
+    // Assert
+    expect(blocks).toEqual([{ type: 'paragraph', children: [{ type: 'text', text: '<img src=x onerror="alert(1)">' }] }])
+  })
+})
+
+describe('parseInline', () => {
+  it('should parse bold, italics, code and links', () => {
+    // Arrange & Act
+    const nodes = parseInline('**Bold** and *it* with `code` and [docs](https://example.com)')
+
+    // Assert
+    expect(nodes).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'Bold' }] },
+      { type: 'text', text: ' and ' },
+      { type: 'emphasis', children: [{ type: 'text', text: 'it' }] },
+      { type: 'text', text: ' with ' },
+      { type: 'code', text: 'code' },
+      { type: 'text', text: ' and ' },
+      { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'docs' }] },
+    ])
+  })
+
+  it('should parse mentions before links', () => {
+    // Arrange & Act & Assert
+    expect(parseInline('cc @[Alice](user:4)')).toEqual([
+      { type: 'text', text: 'cc ' },
+      { type: 'mention', userId: 4, name: 'Alice' },
+    ])
+  })
+
+  it('should drop unsafe links but keep their text', () => {
+    // Arrange & Act & Assert
+    expect(parseInline('[click](javascript:void)')).toEqual([{ type: 'text', text: 'click' }])
+  })
+
+  it('should leave underscores inside words alone', () => {
+    // Arrange & Act & Assert
+    expect(parseInline('snake_case_name')).toEqual([{ type: 'text', text: 'snake_case_name' }])
+  })
+})
+
+describe('sanitizeUrl', () => {
+  it('should allow web, mail and same-site links', () => {
+    // Arrange & Act & Assert
+    expect(sanitizeUrl('https://example.com')).toBe('https://example.com')
+    expect(sanitizeUrl('mailto:team@example.com')).toBe('mailto:team@example.com')
+    expect(sanitizeUrl('/tasks/12')).toBe('/tasks/12')
+  })
+
+  it('should reject script, data and protocol-relative links', () => {
+    // Arrange & Act & Assert
+    expect(sanitizeUrl('javascript:alert(1)')).toBeNull()
+    expect(sanitizeUrl(' JavaScript:alert(1)')).toBeNull()
+    expect(sanitizeUrl('data:text/html;base64,PHNjcmlwdD4=')).toBeNull()
+    expect(sanitizeUrl('//evil.example')).toBeNull()
+    expect(sanitizeUrl('/\\evil.example')).toBeNull()
+    expect(sanitizeUrl('/\t/evil.example')).toBeNull()
+  })
+})
@@ -0,0 +1,200 @@
+/**
+ * A small Markdown parser for task descriptions: headings, paragraphs, lists, task-list checkboxes,
+ * block quotes, code, links, bold and italics.
+ * It builds a tree that is rendered with React elements, never as an HTML string, so raw HTML in a
+ * description shows up as text. Link targets are limited to safe protocols by sanitizeUrl.
+ */
+
+import { CODE_FENCE, parseChecklist } from "./checklist"
+import { MENTION } from "./mentions"
+
+export type MarkdownInline =
+    | { type: "text"; text: string }
+    | { type: "code"; text: string }
+    | { type: "strong"; children: MarkdownInline[] }
+    | { type: "emphasis"; children: MarkdownInline[] }
+    | { type: "link"; href: string; children: MarkdownInline[] }
+    | { type: "mention"; userId: number; name: string }
+
+export type MarkdownListItem = {
+    children: MarkdownInline[]
+    // Set for task-list items; `line` matches the ChecklistItem of the same line in the source
+    task?: { line: number; checked: boolean }
+}
+
+export type MarkdownBlock =
+    | { type: "heading"; level: number; children: MarkdownInline[] }
+    | { type: "paragraph"; children: MarkdownInline[] }
+    | { type: "code"; language: string; text: string }
+    | { type: "list"; ordered: boolean; items: MarkdownListItem[] }
+    | { type: "quote"; children: MarkdownBlock[] }
+    | { type: "rule" }
+
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/
+const RULE = /^\s*([-*_])(?:\s*\1){2,}\s*$/
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/
+const QUOTE = /^\s*>\s?(.*)$/
+const TASK_MARKER = /^\[[ xX]\]\s+/
+
+const SAFE_URL = /^(https?:|mailto:)/i
+
+/**
+ * The URL if a link may point to it, otherwise null
+ * Allows http(s), mailto and same-site links; rejects javascript:, data: and other schemes
+ */
+export function sanitizeUrl(url: string): string | null {
+    const trimmed = url.trim()
+    // Browsers drop tabs and newlines from URLs and read "/\host" as "//host", which leaves the site
+    if (trimmed.startsWith("/")) return /^\/[\t\n\r]*[/\\]/.test(trimmed) ? null : trimmed
+    if (trimmed.startsWith("#")) return trimmed
+    return SAFE_URL.test(trimmed) ? trimmed : null
+}
+
+/**
+ * Parse a Markdown document into blocks
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+    const taskLines = new Map(parseChecklist(source).map((item) => [item.line, item.checked]))
+    return parseBlocks(source.split("\n"), 0, taskLines)
+}
+
+function startsBlock(line: string): boolean {
+    return CODE_FENCE.test(line) || HEADING.test(line) || RULE.test(line) || LIST_ITEM.test(line) || QUOTE.test(line)
+}
+
+// `offset` is the source line of lines[0]; `taskLines` maps source lines to their checklist state
+function parseBlocks(lines: string[], offset: number, taskLines: Map<number, boolean>): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = []
+    let i = 0
+
+    while (i < lines.length) {
+        const line = lines[i]
+
+        if (line.trim() === "") {
+            i++
+            continue
+        }
+
+        const fence = CODE_FENCE.exec(line)
+        if (fence) {
+            const language = line.trim().slice(fence[1].length).trim()
+            const code: string[] = []
+            i++
+            while (i < lines.length && !lines[i].trim().startsWith(fence[1])) code.push(lines[i++])
+            i++
+            blocks.push({ type: "code", language, text: code.join("\n") })
+            continue
+        }
+
+        const heading = HEADING.exec(line)
+        if (heading) {
+            blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2]) })
+            i++
+            continue
+        }
+
+        // Checked before lists, since "- - -" and "***" are rules
+        if (RULE.test(line)) {
+            blocks.push({ type: "rule" })
+            i++
+            continue
+        }
+
+        if (QUOTE.test(line)) {
+            const quoted: string[] = []
+            while (i < lines.length && QUOTE.test(lines[i])) quoted.push(QUOTE.exec(lines[i++])![1])
+            // Task-list syntax inside a quote is not a checklist item, so nothing in it is checkable
+            blocks.push({ type: "quote", children: parseBlocks(quoted, 0, new Map()) })
+            continue
+        }
+
+        const listItem = LIST_ITEM.exec(line)
+        if (listItem) {
+            const ordered = /\d/.test(listItem[1])
+            const items: MarkdownListItem[] = []
+            while (i < lines.length && lines[i].trim() !== "") {
+                const match = LIST_ITEM.exec(lines[i])
+                if (match && /\d/.test(match[1]) !== ordered) break
+                if (!match && startsBlock(lines[i])) break
+
+                if (match) {
+                    const checked = taskLines.get(offset + i)
+                    items.push(
+                        checked === undefined
+                            ? { children: parseInline(match[2]) }
+                            : { children: parseInline(match[2].replace(TASK_MARKER, "")), task: { line: offset + i, checked } },
+                    )
+                } else {
+                    // A wrapped line continues the previous item
+                    items[items.length - 1].children.push({ type: "text", text: " " }, ...parseInline(lines[i].trim()))
+                }
+                i++
+            }
+            blocks.push({ type: "list", ordered, items })
+            continue
+        }
+
+        const paragraph: string[] = []
+        while (i < lines.length && lines[i].trim() !== "" && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+            paragraph.push(lines[i++].trim())
+        }
+        blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) })
+    }
+
+    return blocks
+}
+
+// Inline syntax, tried in order at each position of the text
+const INLINE_RULES: { pattern: RegExp; toNodes: (match: RegExpExecArray) => MarkdownInline[] }[] = [
+    { pattern: /\\([\\`*_[\]()#+\-.!>])/y, toNodes: (match) => [{ type: "text", text: match[1] }] },
+    { pattern: /(`+)(.+?)\1/y, toNodes: (match) => [{ type: "code", text: match[2] }] },
+    // Before links, which mentions look like
+    { pattern: new RegExp(MENTION.source, "y"), toNodes: (match) => [{ type: "mention", userId: Number(match[2]), name: match[1] }] },
+    {
+        pattern: /\[([^\]]+)\]\(([^)\s]+)\)/y,
+        toNodes: (match) => {
+            const href = sanitizeUrl(match[2])
+            // Unsafe links keep their text but lose the link
+            return href ? [{ type: "link", href, children: parseInline(match[1]) }] : parseInline(match[1])
+        },
+    },
+    {
+        pattern: /https?:\/\/[^\s<>()]*[^\s<>().,;:!?'"]/y,
+        toNodes: (match) => [{ type: "link", href: match[0], children: [{ type: "text", text: match[0] }] }],
+    },
+    { pattern: /(\*\*|__)(?=\S)([\s\S]+?)(?<=\S)\1/y, toNodes: (match) => [{ type: "strong", children: parseInline(match[2]) }] },
+    { pattern: /(\*|_)(?=\S)([\s\S]+?)(?<=\S)\1/y, toNodes: (match) => [{ type: "emphasis", children: parseInline(match[2]) }] },
+]
+
+/**
+ * Parse the inline syntax of one block's text
+ */
+export function parseInline(text: string): MarkdownInline[] {
+    const nodes: MarkdownInline[] = []
+    let plain = ""
+    let position = 0
+
+    const flush = () => {
+        if (plain) nodes.push({ type: "text", text: plain })
+        plain = ""
+    }
+
+    outer: while (position < text.length) {
+        // Underscores inside words (snake_case) are not emphasis
+        const intraword = text[position] === "_" && /\w/.test(text[position - 1] ?? "")
+        for (const rule of intraword ? [] : INLINE_RULES) {
+            rule.pattern.lastIndex = position
+            const match = rule.pattern.exec(text)
+            if (!match) continue
+
+            flush()
+            nodes.push(...rule.toNodes(match))
+            position += match[0].length
+            continue outer
+        }
+        plain += text[position++]
+    }
+    flush()
+
+    return nodes
+}
@@ -0,0 +1,65 @@
+import { findMentionQuery, formatMention, getMentionedUserIds, getNewMentions, insertMention, splitMentions } from './mentions'
+
+const alice = { id: 1, name: 'Alice Smith' }
+const bob = { id: 2, name: 'Bob' }
+
+describe('mention references', () => {
+  it('should format mentions by user id', () => {
+    // Arrange & Act & Assert
+    expect(formatMention(alice)).toBe('@[Alice Smith](user:1)')
+    expect(formatMention({ id: 3, name: 'Odd [name]' })).toBe('@[Odd name](user:3)')
+  })
+
+  it('should split text into plain runs and mentions', () => {
+    // Arrange & Act
+    const parts = splitMentions(`Ask ${formatMention(alice)} about it`)
+
+    // Assert
+    expect(parts).toEqual([
+      { type: 'text', text: 'Ask ' },
+      { type: 'mention', userId: 1, name: 'Alice Smith' },
+      { type: 'text', text: ' about it' },
+    ])
+  })
+
+  it('should list mentioned users once', () => {
+    // Arrange
+    const text = `${formatMention(alice)} and ${formatMention(bob)}, again ${formatMention(alice)}`
+
+    // Act & Assert
+    expect(getMentionedUserIds(text)).toEqual([1, 2])
+  })
+
+  it('should only report users who were not mentioned before', () => {
+    // Arrange
+    const before = `cc ${formatMention(alice)}`
+    const after = `cc ${formatMention(alice)} ${formatMention(bob)}`
+
+    // Act & Assert
+    expect(getNewMentions(before, after)).toEqual([2])
+    expect(getNewMentions(after, before)).toEqual([])
+  })
+})
+
+describe('mention autocomplete', () => {
+  it('should find the query being typed before the caret', () => {
+    // Arrange & Act & Assert
+    expect(findMentionQuery('Hi @al', 6)).toEqual({ start: 3, query: 'al' })
+    expect(findMentionQuery('@', 1)).toEqual({ start: 0, query: '' })
+  })
+
+  it('should ignore @ inside words and finished mentions', () => {
+    // Arrange & Act & Assert
+    expect(findMentionQuery('mail me@example', 15)).toBeNull()
+    expect(findMentionQuery('Hi @al there', 12)).toBeNull()
+  })
+
+  it('should replace the query with a mention and move the caret after it', () => {
+    // Arrange & Act
+    const result = insertMention('Hi @al, thanks', 3, 6, alice)
+
+    // Assert
+    expect(result.text).toBe('Hi @[Alice Smith](user:1) , thanks')
+    expect(result.caret).toBe('Hi @[Alice Smith](user:1) '.length)
+  })
+})
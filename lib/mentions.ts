@@ -0,0 +1,72 @@
+/**
+ * @mentions in descriptions and comments, stored as "@[Name](user:12)"
+ * The id is what counts: the name is only a fallback, so mentions keep working after a rename.
+ */
+
+export const MENTION = /@\[([^\]\n]*)\]\(user:(\d+)\)/g
+
+// "@" plus what has been typed after it so far, at the start of the text or after whitespace
+const MENTION_QUERY = /(?:^|\s)@([^\s@[\]()]*)$/
+
+export type MentionPart = { type: "text"; text: string } | { type: "mention"; userId: number; name: string }
+
+/**
+ * The stored form of a mention of `user`
+ */
+export function formatMention(user: { id: number; name: string }): string {
+    return `@[${user.name.replace(/[[\]\n]/g, "")}](user:${user.id})`
+}
+
+/**
+ * Split text into plain runs and mentions, e.g. to render mentions as highlighted names
+ */
+export function splitMentions(text: string): MentionPart[] {
+    const parts: MentionPart[] = []
+    let last = 0
+    for (const match of text.matchAll(MENTION)) {
+        if (match.index > last) parts.push({ type: "text", text: text.slice(last, match.index) })
+        parts.push({ type: "mention", userId: Number(match[2]), name: match[1] })
+        last = match.index + match[0].length
+    }
+    if (last < text.length) parts.push({ type: "text", text: text.slice(last) })
+    return parts
+}
+
+/**
+ * Ids of the users mentioned in a text, without duplicates
+ */
+export function getMentionedUserIds(text: string): number[] {
+    return [...new Set([...text.matchAll(MENTION)].map((match) => Number(match[2])))]
+}
+
+/**
+ * Users mentioned in `after` but not in `before`, so editing a text only notifies people newly mentioned
+ */
+export function getNewMentions(before: string, after: string): number[] {
+    const previous = new Set(getMentionedUserIds(before))
+    return getMentionedUserIds(after).filter((userId) => !previous.has(userId))
+}
+
+/**
+ * The mention being typed just before the caret, if any
+ * `start` is the position of the "@" and `query` what follows it
+ */
+export function findMentionQuery(text: string, caret: number): { start: number; query: string } | null {
+    const match = MENTION_QUERY.exec(text.slice(0, caret))
+    if (!match) return null
+    return { start: caret - match[1].length - 1, query: match[1] }
+}
+
+/**
+ * Replace the "@query" between `start` and `caret` with a mention of `user`
+ * Returns the new text and the caret position just after the inserted mention
+ */
+export function insertMention(
+    text: string,
+    start: number,
+    caret: number,
+    user: { id: number; name: string },
+): { text: string; caret: number } {
+    const mention = `${formatMention(user)} `
+    return { text: text.slice(0, start) + mention + text.slice(caret), caret: start + mention.length }
+}
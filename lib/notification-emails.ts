@@ -0,0 +1,114 @@
+/**
+ * Email copies of notifications, sent right away or collected into a daily digest per the
+ * recipient's User.emailDelivery. Only confirmed addresses (User.emailVerifiedAt) get them. Server-only.
+ */
+
+import { PrismaClient, type Prisma } from "@/app/generated/prisma"
+import { DIGEST_INTERVAL_MS, EMAIL_NOTIFICATION_TYPES, renderDigestEmail, renderNotificationEmail } from "./email"
+import { describeNotification, type NotificationType } from "./notifications"
+import { enqueueEmail } from "./outbox"
+import { formatTaskKey } from "./utils"
+
+const prisma = new PrismaClient()
+
+/**
+ * Base URL used for links in emails, set with APP_URL
+ */
+export function getAppUrl(): string {
+    return (process.env.APP_URL || "http://localhost:3000").replace(/\/$/, "")
+}
+
+/**
+ * Queue instant emails for notifications that were just created for `userIds`
+ * Digest recipients get them with their next digest instead.
+ */
+export async function queueNotificationEmails(
+    tx: Prisma.TransactionClient,
+    type: NotificationType,
+    userIds: number[],
+    fields: { taskId: number; actorId?: number | null; detail?: string | null },
+) {
+    if (!EMAIL_NOTIFICATION_TYPES.includes(type) || userIds.length === 0) return
+
+    const recipients = await tx.user.findMany({
+        where: { id: { in: userIds }, emailDelivery: "instant", emailVerifiedAt: { not: null } },
+        select: { email: true, name: true },
+    })
+    if (recipients.length === 0) return
+
+    const [task, actor] = await Promise.all([
+        tx.task.findUniqueOrThrow({ where: { id: fields.taskId }, include: { project: { select: { key: true } } } }),
+        fields.actorId ? tx.user.findUnique({ where: { id: fields.actorId }, select: { name: true } }) : null,
+    ])
+    const item = {
+        text: describeNotification({
+            type,
+            detail: fields.detail ?? null,
+            actorName: actor?.name ?? null,
+            taskKey: formatTaskKey(task.project.key, task.number),
+        }),
+        taskName: task.name,
+        url: `${getAppUrl()}/tasks/${task.id}`,
+    }
+
+    for (const recipient of recipients) {
+        await enqueueEmail(tx, { to: recipient.email, ...renderNotificationEmail(recipient.name, item) })
+    }
+}
+
+/**
+ * Queue a digest for every digest user whose last one is at least a day old, covering the
+ * email-worthy notifications they got since then. Returns the number of digests queued.
+ */
+export async function queueDailyDigests(now = new Date()) {
+    const cutoff = new Date(now.getTime() - DIGEST_INTERVAL_MS)
+    const users = await prisma.user.findMany({
+        where: {
+            emailDelivery: "digest",
+            emailVerifiedAt: { not: null },
+            OR: [{ lastDigestAt: null }, { lastDigestAt: { lte: cutoff } }],
+        },
+        select: { id: true, email: true, name: true, lastDigestAt: true },
+    })
+
+    let queued = 0
+    for (const user of users) {
+        const notifications = await prisma.notification.findMany({
+            where: {
+                userId: user.id,
+                type: { in: EMAIL_NOTIFICATION_TYPES },
+                createdAt: { gt: user.lastDigestAt ?? cutoff, lte: now },
+            },
+            include: {
+                actor: { select: { name: true } },
+                task: { select: { id: true, number: true, name: true, project: { select: { key: true } } } },
+            },
+            orderBy: { createdAt: "asc" },
+        })
+        const items = notifications.flatMap(({ task, ...notification }) =>
+            task
+                ? [
+                      {
+                          text: describeNotification({
+                              type: notification.type,
+                              detail: notification.detail,
+                              actorName: notification.actor?.name ?? null,
+                              taskKey: formatTaskKey(task.project.key, task.number),
+                          }),
+                          taskName: task.name,
+                          url: `${getAppUrl()}/tasks/${task.id}`,
+                      },
+                  ]
+                : [],
+        )
+
+        await prisma.$transaction(async (tx) => {
+            if (items.length > 0) {
+                await enqueueEmail(tx, { to: user.email, ...renderDigestEmail(user.name, items) })
+                queued++
+            }
+            await tx.user.update({ where: { id: user.id }, data: { lastDigestAt: now } })
+        })
+    }
+    return queued
+}
@@ -0,0 +1,34 @@
+import { describeNotification, getRecipients, isNotificationType } from './notifications'
+
+describe('getRecipients', () => {
+  it('should skip the actor, empty values and duplicates', () => {
+    // Arrange & Act & Assert
+    expect(getRecipients([1, 2, null, 2, undefined, 3], 3)).toEqual([1, 2])
+  })
+
+  it('should skip users who muted the notification type', () => {
+    // Arrange & Act & Assert
+    expect(getRecipients([1, 2], null, [2])).toEqual([1])
+  })
+})
+
+describe('describeNotification', () => {
+  it('should describe each notification type', () => {
+    // Arrange
+    const base = { detail: null, actorName: 'Alice', taskKey: 'PLAT-3' }
+
+    // Act & Assert
+    expect(describeNotification({ ...base, type: 'assigned' })).toBe('Alice assigned PLAT-3 to you')
+    expect(describeNotification({ ...base, type: 'status_changed', detail: 'Done' })).toBe('Alice moved PLAT-3 to Done')
+    expect(describeNotification({ ...base, type: 'due_soon', detail: '2026-10-20' })).toBe('PLAT-3 is due Oct 20')
+    expect(describeNotification({ ...base, type: 'mention', actorName: null })).toBe('Someone mentioned you in PLAT-3')
+  })
+})
+
+describe('isNotificationType', () => {
+  it('should recognize notification types', () => {
+    // Arrange & Act & Assert
+    expect(isNotificationType('mention')).toBe(true)
+    expect(isNotificationType('digest')).toBe(false)
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * Shared definitions for in-app notifications
+ */
+
+import { formatDateForDisplay, parseDateString } from "./date-utils"
+
+export const NOTIFICATION_TYPES = ["assigned", "status_changed", "due_soon", "mention"] as const
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number]
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, { title: string; description: string }> = {
+    assigned: { title: "Assignments", description: "A task is assigned to you." },
+    status_changed: {
+        title: "Status changes",
+        description: "A task you created or are assigned to moves to another status.",
+    },
+    due_soon: { title: "Due dates", description: "A task assigned to you is due within a day." },
+    mention: { title: "Mentions", description: "Someone mentions you in a description or comment." },
+}
+
+/**
+ * Days before its due date that a task counts as due soon
+ */
+export const DUE_SOON_DAYS = 1
+
+/**
+ * Most recent notifications shown in the notification list
+ */
+export const NOTIFICATION_LIST_SIZE = 20
+
+export function isNotificationType(value: string): value is NotificationType {
+    return (NOTIFICATION_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Users who should get a notification: each candidate once, never the person who caused it,
+ * and nobody who turned the notification type off
+ */
+export function getRecipients(
+    candidates: (number | null | undefined)[],
+    actorId: number | null,
+    mutedUserIds: number[] = [],
+): number[] {
+    const recipients = candidates.filter(
+        (userId): userId is number => typeof userId === "number" && userId !== actorId && !mutedUserIds.includes(userId),
+    )
+    return [...new Set(recipients)]
+}
+
+/**
+ * One-line text for a notification, e.g. "Alice moved PLAT-3 to Done"
+ */
+export function describeNotification(notification: {
+    type: string
+    detail: string | null
+    actorName: string | null
+    taskKey: string
+}): string {
+    const actor = notification.actorName ?? "Someone"
+    switch (notification.type) {
+        case "assigned":
+            return `${actor} assigned ${notification.taskKey} to you`
+        case "status_changed":
+            return `${actor} moved ${notification.taskKey} to ${notification.detail ?? "another status"}`
+        case "due_soon":
+            return notification.detail
+                ? `${notification.taskKey} is due ${formatDateForDisplay(parseDateString(notification.detail))}`
+                : `${notification.taskKey} is due soon`
+        case "mention":
+            return `${actor} mentioned you in ${notification.taskKey}`
+        default:
+            return `${notification.taskKey} was updated`
+    }
+}
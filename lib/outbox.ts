@@ -0,0 +1,81 @@
+/**
+ * Persistent outbox for email. Callers write OutboxEmail rows inside their own transaction, so mail
+ * is only sent for changes that were saved, and sending never slows down or fails the action itself.
+ * Server-only.
+ */
+
+import { after } from "next/server"
+import { PrismaClient, type Prisma } from "@/app/generated/prisma"
+import { MAX_SEND_ATTEMPTS, getRetryDelay } from "./email"
+import { getMailTransport, type MailMessage, type MailTransport } from "./mail"
+
+const prisma = new PrismaClient()
+
+// How long a claimed email is hidden from other deliveries while it is being sent
+const SEND_LEASE_MS = 5 * 60 * 1000
+
+// Emails sent per delivery run; the rest wait for the next run
+const DELIVERY_BATCH_SIZE = 50
+
+/**
+ * Queue an email. Delivery is attempted once the current request has finished; failures are
+ * retried by later runs of deliverOutbox (see app/api/outbox).
+ */
+export async function enqueueEmail(tx: Prisma.TransactionClient, message: MailMessage) {
+    await tx.outboxEmail.create({ data: message })
+    scheduleDelivery()
+}
+
+// after() only works while handling a request; scripts and tests rely on the outbox route instead
+function scheduleDelivery() {
+    try {
+        after(() => deliverOutbox())
+    } catch {
+        // Not in a request
+    }
+}
+
+/**
+ * Send pending emails that are due. Returns how many were sent and how many failed this run.
+ */
+export async function deliverOutbox(transport: MailTransport = getMailTransport()) {
+    const now = new Date()
+    const due = await prisma.outboxEmail.findMany({
+        where: { status: "pending", nextAttemptAt: { lte: now } },
+        orderBy: { nextAttemptAt: "asc" },
+        take: DELIVERY_BATCH_SIZE,
+    })
+
+    let sent = 0
+    let failed = 0
+    for (const email of due) {
+        // Claim the email so an overlapping run does not send it twice
+        const claimed = await prisma.outboxEmail.updateMany({
+            where: { id: email.id, status: "pending", nextAttemptAt: email.nextAttemptAt },
+            data: { nextAttemptAt: new Date(now.getTime() + SEND_LEASE_MS) },
+        })
+        if (claimed.count === 0) continue
+
+        const attempts = email.attempts + 1
+        try {
+            await transport.send({ to: email.to, subject: email.subject, text: email.text, html: email.html })
+            await prisma.outboxEmail.update({
+                where: { id: email.id },
+                data: { status: "sent", attempts, sentAt: new Date(), lastError: null },
+            })
+            sent++
+        } catch (e) {
+            await prisma.outboxEmail.update({
+                where: { id: email.id },
+                data: {
+                    status: attempts >= MAX_SEND_ATTEMPTS ? "failed" : "pending",
+                    attempts,
+                    lastError: e instanceof Error ? e.message : String(e),
+                    nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)),
+                },
+            })
+            failed++
+        }
+    }
+    return { sent, failed }
+}
@@ -0,0 +1,65 @@
+import { can, getAssignableRoles, isRole } from './permissions'
+
+const owner = { id: 1, role: 'owner' }
+const admin = { id: 2, role: 'admin' }
+const member = { id: 3, role: 'member' }
+const viewer = { id: 4, role: 'viewer' }
+
+describe('can', () => {
+  it('should let every role view tasks', () => {
+    // Arrange & Act & Assert
+    for (const user of [owner, admin, member, viewer]) {
+      expect(can(user, 'view_tasks')).toBe(true)
+    }
+  })
+
+  it('should keep viewers read-only', () => {
+    // Arrange & Act & Assert
+    expect(can(viewer, 'edit_tasks')).toBe(false)
+    expect(can(viewer, 'delete_tasks')).toBe(false)
+    expect(can(viewer, 'delete_tasks', { creatorId: viewer.id })).toBe(false)
+  })
+
+  it('should let members delete only tasks they created', () => {
+    // Arrange & Act & Assert
+    expect(can(member, 'edit_tasks')).toBe(true)
+    expect(can(member, 'delete_tasks', { creatorId: member.id })).toBe(true)
+    expect(can(member, 'delete_tasks', { creatorId: admin.id })).toBe(false)
+  })
+
+  it('should let admins and owners delete any task and manage members', () => {
+    // Arrange & Act & Assert
+    expect(can(admin, 'delete_tasks', { creatorId: member.id })).toBe(true)
+    expect(can(owner, 'delete_tasks', { creatorId: member.id })).toBe(true)
+    expect(can(admin, 'manage_members')).toBe(true)
+    expect(can(member, 'manage_members')).toBe(false)
+  })
+
+  it('should treat unknown roles as viewers', () => {
+    // Arrange & Act & Assert
+    expect(can({ id: 5, role: 'guest' }, 'view_tasks')).toBe(true)
+    expect(can({ id: 5, role: 'guest' }, 'edit_tasks')).toBe(false)
+  })
+})
+
+describe('getAssignableRoles', () => {
+  it('should let admins assign every role but owner', () => {
+    // Arrange & Act & Assert
+    expect(getAssignableRoles(admin, member)).toEqual(['admin', 'member', 'viewer'])
+  })
+
+  it('should not allow changing the owner, yourself, or anyone as a member', () => {
+    // Arrange & Act & Assert
+    expect(getAssignableRoles(admin, owner)).toEqual([])
+    expect(getAssignableRoles(admin, admin)).toEqual([])
+    expect(getAssignableRoles(member, viewer)).toEqual([])
+  })
+})
+
+describe('isRole', () => {
+  it('should recognize roles', () => {
+    // Arrange & Act & Assert
+    expect(isRole('viewer')).toBe(true)
+    expect(isRole('guest')).toBe(false)
+  })
+})
@@ -0,0 +1,56 @@
+/**
+ * Workspace roles and what each may do. Shared by server actions, which enforce the rules
+ * (see lib/authorization.ts), and components, which hide what the user can't do.
+ */
+
+export const ROLES = ["owner", "admin", "member", "viewer"] as const
+
+export type Role = (typeof ROLES)[number]
+
+export const ROLE_LABELS: Record<Role, { title: string; description: string }> = {
+    owner: { title: "Owner", description: "Everything admins can do. There is one owner per workspace." },
+    admin: { title: "Admin", description: "Edit and delete any task, and change other people's roles." },
+    member: { title: "Member", description: "Create and edit tasks, and delete tasks they created." },
+    viewer: { title: "Viewer", description: "Read tasks, but not change them." },
+}
+
+export type Permission =
+    // See tasks, comments and attachments
+    | "view_tasks"
+    // Create, edit and move tasks, and comment on them
+    | "edit_tasks"
+    // Delete tasks; members only their own
+    | "delete_tasks"
+    // Change other users' roles and workspace-wide settings
+    | "manage_members"
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    owner: ["view_tasks", "edit_tasks", "delete_tasks", "manage_members"],
+    admin: ["view_tasks", "edit_tasks", "delete_tasks", "manage_members"],
+    member: ["view_tasks", "edit_tasks", "delete_tasks"],
+    viewer: ["view_tasks"],
+}
+
+export function isRole(value: string): value is Role {
+    return (ROLES as readonly string[]).includes(value)
+}
+
+/**
+ * Whether a user may do something. Pass the task for task-specific rules: members may only
+ * delete tasks they created. Unknown roles get viewer access.
+ */
+export function can(user: { id: number; role: string }, permission: Permission, task?: { creatorId: number }): boolean {
+    const role = isRole(user.role) ? user.role : "viewer"
+    if (!ROLE_PERMISSIONS[role].includes(permission)) return false
+    if (permission === "delete_tasks" && task && role === "member") return task.creatorId === user.id
+    return true
+}
+
+/**
+ * Roles `actor` may give `target`. Nobody can change the owner's role or their own,
+ * and ownership can't be handed out this way.
+ */
+export function getAssignableRoles(actor: { id: number; role: string }, target: { id: number; role: string }): Role[] {
+    if (!can(actor, "manage_members") || actor.id === target.id || target.role === "owner") return []
+    return ROLES.filter((role) => role !== "owner")
+}
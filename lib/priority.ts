@@ -0,0 +1,15 @@
+/**
+ * Task priorities, lowest first
+ */
+
+export const PRIORITIES = ["low", "medium", "high"] as const
+
+export type Priority = (typeof PRIORITIES)[number]
+
+/**
+ * Numeric weight stored in Task.priorityWeight so tasks can be sorted by priority in the database
+ * Unknown priorities sort below "low"
+ */
+export function getPriorityWeight(priority: string): number {
+    return PRIORITIES.indexOf(priority as Priority) + 1
+}
@@ -0,0 +1,90 @@
+import { compareRanks, DEFAULT_RANK, generateRanks, rankBetween } from './rank'
+
+describe('rankBetween', () => {
+  it('should rank between two neighbours', () => {
+    // Arrange & Act
+    const rank = rankBetween('A', 'C')
+
+    // Assert
+    expect(rank > 'A').toBe(true)
+    expect(rank < 'C').toBe(true)
+  })
+
+  it('should rank before the first item and after the last item', () => {
+    // Arrange & Act
+    const first = rankBetween(null, DEFAULT_RANK)
+    const last = rankBetween(DEFAULT_RANK, null)
+
+    // Assert
+    expect(first < DEFAULT_RANK).toBe(true)
+    expect(last > DEFAULT_RANK).toBe(true)
+  })
+
+  it('should extend the rank when neighbours are adjacent', () => {
+    // Arrange & Act
+    const rank = rankBetween('A', 'B')
+
+    // Assert
+    expect(rank > 'A').toBe(true)
+    expect(rank < 'B').toBe(true)
+    expect(rank).toHaveLength(2)
+  })
+
+  it('should keep ordering after many inserts at the same position', () => {
+    // Arrange
+    let lower = 'A'
+    const upper = 'B'
+
+    // Act
+    for (let i = 0; i < 50; i++) {
+      const next = rankBetween(lower, upper)
+      expect(next > lower && next < upper).toBe(true)
+      lower = next
+    }
+
+    // Assert
+    expect(lower.length).toBeLessThan(20)
+  })
+
+  it('should throw when neighbours are equal or out of order', () => {
+    // Arrange & Act & Assert
+    expect(() => rankBetween('U', 'U')).toThrow()
+    expect(() => rankBetween('b', 'a')).toThrow()
+  })
+})
+
+describe('generateRanks', () => {
+  it('should generate distinct ascending ranks', () => {
+    // Arrange & Act
+    const ranks = generateRanks(100)
+
+    // Assert
+    expect(ranks).toHaveLength(100)
+    expect([...ranks].sort()).toEqual(ranks)
+    expect(new Set(ranks).size).toBe(100)
+  })
+
+  it('should leave room to insert between generated ranks', () => {
+    // Arrange
+    const [first, second] = generateRanks(2)
+
+    // Act
+    const rank = rankBetween(first, second)
+
+    // Assert
+    expect(rank > first && rank < second).toBe(true)
+  })
+})
+
+describe('compareRanks', () => {
+  it('should sort items by rank', () => {
+    // Arrange
+    const items = [{ rank: 'c' }, { rank: 'A' }, { rank: 'b' }]
+
+    // Act
+    const sorted = [...items].sort(compareRanks)
+
+    // Assert
+    expect(sorted.map((item) => item.rank)).toEqual(['A', 'b', 'c'])
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * Fractional ranks for ordering cards within a board column
+ *
+ * A rank is a base-62 fraction written without the leading "0." (e.g. "U" is
+ * roughly 0.5). Ranks sort lexicographically, so a card can be moved between
+ * two neighbours by writing a single new rank, without renumbering the column.
+ */
+
+const DIGITS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz"
+const BASE = DIGITS.length
+
+/**
+ * Rank given to rows that have never been ordered explicitly
+ */
+export const DEFAULT_RANK = "U"
+
+function digitValue(char: string): number {
+    const value = DIGITS.indexOf(char)
+    if (value === -1) throw new Error(`Invalid rank character "${char}"`)
+    return value
+}
+
+// Trailing zeros do not change a fraction's value, so drop them before comparing digits
+function normalize(rank: string): string {
+    return rank.replace(/0+$/, "")
+}
+
+function midpoint(a: string, b: string | null): string {
+    if (b !== null) {
+        // Skip the common prefix, treating a missing digit in `a` as zero
+        let n = 0
+        while ((a[n] ?? "0") === b[n]) n++
+        if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n))
+    }
+
+    const digitA = a ? digitValue(a[0]) : 0
+    const digitB = b !== null && b !== "" ? digitValue(b[0]) : BASE
+    if (digitB - digitA > 1) {
+        return DIGITS[Math.round((digitA + digitB) / 2)]
+    }
+    // The first digits are adjacent: either b's first digit alone fits, or recurse into a's tail
+    if (b !== null && b.length > 1) return b.slice(0, 1)
+    return DIGITS[digitA] + midpoint(a.slice(1), null)
+}
+
+/**
+ * Generate a rank strictly between `before` and `after`
+ * Pass null for `before` to rank at the top of a column, or null for `after` to rank at the bottom
+ */
+export function rankBetween(before: string | null, after: string | null): string {
+    const a = before === null ? "" : normalize(before)
+    const b = after === null ? null : normalize(after)
+    if (b !== null && a >= b) {
+        throw new Error(`Cannot rank between "${before}" and "${after}"`)
+    }
+    return midpoint(a, b)
+}
+
+/**
+ * Generate `count` evenly spaced, ascending ranks
+ * Used to rebalance a column whose neighbouring ranks have collided
+ */
+export function generateRanks(count: number): string[] {
+    let length = 1
+    while (Math.pow(BASE, length) <= count + 1) length++
+    const step = Math.floor(Math.pow(BASE, length) / (count + 1))
+
+    return Array.from({ length: count }, (_, index) => {
+        let value = (index + 1) * step
+        let rank = ""
+        for (let i = 0; i < length; i++) {
+            rank = DIGITS[value % BASE] + rank
+            value = Math.floor(value / BASE)
+        }
+        return normalize(rank)
+    })
+}
+
+/**
+ * Comparator for sorting items by rank; ties keep their existing order
+ */
+export function compareRanks(a: { rank: string }, b: { rank: string }): number {
+    if (a.rank === b.rank) return 0
+    return a.rank < b.rank ? -1 : 1
+}
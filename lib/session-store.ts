@@ -0,0 +1,122 @@
+/**
+ * Creating, checking and ending sessions. Lifetime rules are in lib/sessions.ts.
+ * Server-only: uses the database and the request's cookies and headers. Functions that set
+ * cookies only work in server actions and route handlers.
+ */
+
+import { cookies, headers } from "next/headers"
+import { after } from "next/server"
+import { cache } from "react"
+import { randomBytes } from "node:crypto"
+import { PrismaClient } from "@/app/generated/prisma"
+import {
+    getClientIpAddress,
+    getSessionCookieOptions,
+    getSessionExpiry,
+    isSessionExpired,
+    SESSION_COOKIE,
+    SESSION_IDLE_TIMEOUT_MS,
+    shouldRecordLastSeen,
+} from "./sessions"
+
+const prisma = new PrismaClient()
+
+// Proxies in front of the app that append to X-Forwarded-For, set with TRUSTED_PROXY_COUNT (default 1)
+const TRUSTED_PROXY_COUNT = Number(process.env.TRUSTED_PROXY_COUNT) || 1
+
+function createToken() {
+    return randomBytes(32).toString("hex")
+}
+
+/**
+ * Browser and address of the current request, for the sessions list and sign-in attempts.
+ * The address is null when no trusted proxy reported one.
+ */
+export async function getClientInfo() {
+    const requestHeaders = await headers()
+    return {
+        userAgent: requestHeaders.get("user-agent")?.slice(0, 512) ?? null,
+        ipAddress: getClientIpAddress(requestHeaders.get("x-forwarded-for"), TRUSTED_PROXY_COUNT),
+    }
+}
+
+/**
+ * Sign a user in on this browser. Any session the browser already had is ended, so a token
+ * planted before sign-in can't be carried into the new session.
+ */
+export async function createSession(userId: number) {
+    const cookieStore = await cookies()
+    const previousToken = cookieStore.get(SESSION_COOKIE)?.value
+    if (previousToken) await prisma.session.deleteMany({ where: { token: previousToken } })
+
+    const now = new Date()
+    const expiresAt = getSessionExpiry(now)
+    const token = createToken()
+    await prisma.session.create({
+        data: { token, userId, ...(await getClientInfo()), createdAt: now, lastSeenAt: now, expiresAt },
+    })
+    cookieStore.set(SESSION_COOKIE, token, getSessionCookieOptions(expiresAt, now))
+
+    // Sign-ins are a convenient moment to clear out sessions that expired since the last one
+    after(() => purgeExpiredSessions())
+}
+
+/**
+ * The session behind the current request, with its user; null when there is none or it has expired.
+ * Expired sessions are deleted on sight. Cached for the rest of the request.
+ */
+export const getSession = cache(async () => {
+    const token = (await cookies()).get(SESSION_COOKIE)?.value
+    if (!token) return null
+
+    const session = await prisma.session.findUnique({ where: { token }, include: { user: true } })
+    if (!session) return null
+
+    const now = new Date()
+    if (isSessionExpired(session, now)) {
+        await prisma.session.deleteMany({ where: { id: session.id } })
+        return null
+    }
+    if (shouldRecordLastSeen(session, now)) {
+        await prisma.session.update({ where: { id: session.id }, data: { lastSeenAt: now, ...(await getClientInfo()) } })
+    }
+    return session
+})
+
+/**
+ * Give the current session a new token. Called after privilege-sensitive changes, so a copy of the
+ * old token (e.g. from a shared machine) stops working.
+ */
+export async function rotateSession() {
+    const session = await getSession()
+    if (!session) return
+
+    const token = createToken()
+    await prisma.session.update({ where: { id: session.id }, data: { token } })
+    const cookieStore = await cookies()
+    cookieStore.set(SESSION_COOKIE, token, getSessionCookieOptions(session.expiresAt))
+}
+
+/**
+ * Sign out the current browser
+ */
+export async function endSession() {
+    const cookieStore = await cookies()
+    const token = cookieStore.get(SESSION_COOKIE)?.value
+    if (!token) return
+
+    await prisma.session.deleteMany({ where: { token } })
+    cookieStore.set(SESSION_COOKIE, "", { ...getSessionCookieOptions(new Date()), maxAge: 0 })
+}
+
+/**
+ * Delete sessions past their absolute expiry or idle timeout. Returns how many were deleted.
+ */
+export async function purgeExpiredSessions(now = new Date()) {
+    const { count } = await prisma.session.deleteMany({
+        where: {
+            OR: [{ expiresAt: { lte: now } }, { lastSeenAt: { lte: new Date(now.getTime() - SESSION_IDLE_TIMEOUT_MS) } }],
+        },
+    })
+    return count
+}
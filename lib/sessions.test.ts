@@ -0,0 +1,89 @@
+import {
+  describeUserAgent,
+  getClientIpAddress,
+  getSessionCookieOptions,
+  getSessionExpiry,
+  isSessionExpired,
+  LAST_SEEN_INTERVAL_MS,
+  SESSION_IDLE_TIMEOUT_MS,
+  SESSION_MAX_AGE_MS,
+  shouldRecordLastSeen,
+} from './sessions'
+
+const now = new Date('2026-10-20T12:00:00Z')
+const ago = (ms: number) => new Date(now.getTime() - ms)
+
+describe('isSessionExpired', () => {
+  it('should keep a recently used session that has not reached its expiry', () => {
+    // Arrange & Act & Assert
+    expect(isSessionExpired({ lastSeenAt: ago(1000), expiresAt: getSessionExpiry(ago(1000)) }, now)).toBe(false)
+  })
+
+  it('should expire a session past its absolute expiry, however active', () => {
+    // Arrange & Act & Assert
+    expect(isSessionExpired({ lastSeenAt: now, expiresAt: getSessionExpiry(ago(SESSION_MAX_AGE_MS)) }, now)).toBe(true)
+  })
+
+  it('should expire a session left idle for the idle timeout', () => {
+    // Arrange & Act & Assert
+    expect(isSessionExpired({ lastSeenAt: ago(SESSION_IDLE_TIMEOUT_MS), expiresAt: getSessionExpiry(now) }, now)).toBe(true)
+  })
+})
+
+describe('shouldRecordLastSeen', () => {
+  it('should only record the last-seen time once per interval', () => {
+    // Arrange
+    const expiresAt = getSessionExpiry(now)
+
+    // Act & Assert
+    expect(shouldRecordLastSeen({ lastSeenAt: ago(1000), expiresAt }, now)).toBe(false)
+    expect(shouldRecordLastSeen({ lastSeenAt: ago(LAST_SEEN_INTERVAL_MS), expiresAt }, now)).toBe(true)
+  })
+})
+
+describe('getSessionCookieOptions', () => {
+  it('should keep the cookie until the session expires', () => {
+    // Arrange & Act
+    const options = getSessionCookieOptions(new Date(now.getTime() + 60_000), now)
+
+    // Assert
+    expect(options).toMatchObject({ httpOnly: true, sameSite: 'lax', path: '/', maxAge: 60 })
+  })
+})
+
+describe('describeUserAgent', () => {
+  it('should name the browser and operating system', () => {
+    // Arrange & Act & Assert
+    expect(
+      describeUserAgent('Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36'),
+    ).toBe('Chrome on macOS')
+    expect(describeUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/126.0 Safari/537.36 Edg/126.0')).toBe(
+      'Edge on Windows',
+    )
+    expect(describeUserAgent('Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 Version/17.5 Mobile/15E148 Safari/604.1')).toBe(
+      'Safari on iOS',
+    )
+    expect(describeUserAgent('Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Gecko/20100101 Firefox/128.0')).toBe('Firefox on Linux')
+  })
+
+  it('should fall back for unknown or missing user agents', () => {
+    // Arrange & Act & Assert
+    expect(describeUserAgent(null)).toBe('Unknown device')
+    expect(describeUserAgent('curl/8.0')).toBe('Unknown device')
+  })
+})
+
+describe('getClientIpAddress', () => {
+  it('should take the address added by the nearest trusted proxy, ignoring what the client sent', () => {
+    // Arrange & Act & Assert
+    expect(getClientIpAddress('203.0.113.9', 1)).toBe('203.0.113.9')
+    expect(getClientIpAddress('1.2.3.4, 203.0.113.9', 1)).toBe('203.0.113.9')
+    expect(getClientIpAddress('1.2.3.4, 203.0.113.9, 10.0.0.2', 2)).toBe('203.0.113.9')
+  })
+
+  it('should return null without enough entries', () => {
+    // Arrange & Act & Assert
+    expect(getClientIpAddress(null, 1)).toBeNull()
+    expect(getClientIpAddress('203.0.113.9', 2)).toBeNull()
+  })
+})
@@ -0,0 +1,92 @@
+/**
+ * Session lifetime rules and cookie settings. Creating and checking sessions lives in lib/session-store.ts.
+ */
+
+export const SESSION_COOKIE = "session"
+
+/**
+ * Sessions end this long after sign-in, however active they are
+ */
+export const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000
+
+/**
+ * Sessions also end after this long without a request
+ */
+export const SESSION_IDLE_TIMEOUT_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * Last-seen time is written at most this often, so ordinary page loads don't all write to the database
+ */
+export const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000
+
+export type SessionTimes = {
+    lastSeenAt: Date
+    expiresAt: Date
+}
+
+export function getSessionExpiry(signedInAt: Date): Date {
+    return new Date(signedInAt.getTime() + SESSION_MAX_AGE_MS)
+}
+
+/**
+ * Whether a session is past its absolute expiry or has gone unused for the idle timeout
+ */
+export function isSessionExpired(session: SessionTimes, now = new Date()): boolean {
+    return session.expiresAt <= now || now.getTime() - session.lastSeenAt.getTime() >= SESSION_IDLE_TIMEOUT_MS
+}
+
+export function shouldRecordLastSeen(session: SessionTimes, now = new Date()): boolean {
+    return now.getTime() - session.lastSeenAt.getTime() >= LAST_SEEN_INTERVAL_MS
+}
+
+/**
+ * Cookie settings for a session token. The cookie lives until the session's absolute expiry;
+ * `secure` is left off outside production so sign-in works over plain http on localhost.
+ */
+export function getSessionCookieOptions(expiresAt: Date, now = new Date()) {
+    return {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "lax" as const,
+        path: "/",
+        maxAge: Math.max(0, Math.floor((expiresAt.getTime() - now.getTime()) / 1000)),
+    }
+}
+
+const BROWSERS: [RegExp, string][] = [
+    [/Edg\//, "Edge"],
+    [/OPR\/|Opera/, "Opera"],
+    [/Firefox\/|FxiOS/, "Firefox"],
+    [/Chrome\/|CriOS/, "Chrome"],
+    [/Safari\//, "Safari"],
+]
+
+const SYSTEMS: [RegExp, string][] = [
+    [/iPhone|iPad|iPod/, "iOS"],
+    [/Android/, "Android"],
+    [/Windows/, "Windows"],
+    [/Mac OS X|Macintosh/, "macOS"],
+    [/CrOS/, "ChromeOS"],
+    [/Linux/, "Linux"],
+]
+
+/**
+ * The client's address from an X-Forwarded-For header, read `trustedProxies` entries in from the right.
+ * Each proxy appends the address it received the request from, so those entries can be trusted; anything
+ * further left came from the client and can be made up. Null when the header is shorter than that.
+ */
+export function getClientIpAddress(forwardedFor: string | null, trustedProxies: number): string | null {
+    const hops = (forwardedFor ?? "").split(",").map((hop) => hop.trim()).filter(Boolean)
+    return hops[hops.length - Math.max(trustedProxies, 1)] ?? null
+}
+
+/**
+ * Short description of the device behind a user agent, e.g. "Chrome on macOS"
+ */
+export function describeUserAgent(userAgent: string | null): string {
+    if (!userAgent) return "Unknown device"
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1]
+    const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1]
+    if (browser && system) return `${browser} on ${system}`
+    return browser ?? system ?? "Unknown device"
+}
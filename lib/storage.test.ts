@@ -0,0 +1,34 @@
+import { mkdtemp, rm } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { LocalFileStorage } from './storage'
+
+describe('LocalFileStorage', () => {
+  let root: string
+  let storage: LocalFileStorage
+
+  beforeEach(async () => {
+    root = await mkdtemp(path.join(os.tmpdir(), 'attachments-'))
+    storage = new LocalFileStorage(root)
+  })
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true })
+  })
+
+  it('should store, read and delete a file', async () => {
+    // Arrange & Act
+    await storage.put('12/abc.txt', Buffer.from('hello'))
+    const stored = await storage.get('12/abc.txt')
+    await storage.delete('12/abc.txt')
+
+    // Assert
+    expect(stored?.toString()).toBe('hello')
+    expect(await storage.get('12/abc.txt')).toBeNull()
+  })
+
+  it('should refuse keys outside the storage directory', async () => {
+    // Arrange & Act & Assert
+    await expect(storage.get('../secret.txt')).rejects.toThrow('Invalid storage key')
+  })
+})
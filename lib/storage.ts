@@ -0,0 +1,69 @@
+/**
+ * Pluggable file storage for attachments. Only a local-disk backend exists today;
+ * another backend (e.g. S3) only needs to implement FileStorage and be returned by getFileStorage.
+ * Server-only: uses the Node file system.
+ */
+
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import path from "node:path"
+
+export interface FileStorage {
+    /** Store a file under `key`, replacing any existing file */
+    put(key: string, data: Uint8Array): Promise<void>
+    /** Read a stored file, or null when it does not exist */
+    get(key: string): Promise<Buffer | null>
+    /** Remove a stored file; missing files are ignored */
+    delete(key: string): Promise<void>
+}
+
+/**
+ * Stores files in a directory on the server's disk
+ */
+export class LocalFileStorage implements FileStorage {
+    private readonly root: string
+
+    constructor(root: string) {
+        this.root = path.resolve(root)
+    }
+
+    // Keys come from the database, but never let one point outside the storage directory
+    private resolve(key: string): string {
+        const filePath = path.resolve(this.root, key)
+        if (!filePath.startsWith(this.root + path.sep)) throw new Error(`Invalid storage key: ${key}`)
+        return filePath
+    }
+
+    async put(key: string, data: Uint8Array): Promise<void> {
+        const filePath = this.resolve(key)
+        await mkdir(path.dirname(filePath), { recursive: true })
+        await writeFile(filePath, data)
+    }
+
+    async get(key: string): Promise<Buffer | null> {
+        try {
+            return await readFile(this.resolve(key))
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code === "ENOENT") return null
+            throw e
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        await rm(this.resolve(key), { force: true })
+    }
+}
+
+/**
+ * Directory for locally stored attachments, set with ATTACHMENTS_DIR
+ */
+export const DEFAULT_ATTACHMENTS_DIR = "storage/attachments"
+
+let storage: FileStorage | null = null
+
+/**
+ * The configured storage backend, created on first use
+ */
+export function getFileStorage(): FileStorage {
+    storage ??= new LocalFileStorage(process.env.ATTACHMENTS_DIR || DEFAULT_ATTACHMENTS_DIR)
+    return storage
+}
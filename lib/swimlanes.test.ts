@@ -0,0 +1,50 @@
+import { getLaneFields, getLaneId, parseSwimlaneField, UNASSIGNED_LANE } from './swimlanes'
+
+const task = { assigneeId: 7, priority: 'high', projectId: 2 }
+
+describe('parseSwimlaneField', () => {
+  it('should accept known fields', () => {
+    // Arrange & Act & Assert
+    expect(parseSwimlaneField('assignee')).toBe('assignee')
+    expect(parseSwimlaneField('project')).toBe('project')
+  })
+
+  it('should ignore unknown or missing values', () => {
+    // Arrange & Act & Assert
+    expect(parseSwimlaneField('status')).toBeNull()
+    expect(parseSwimlaneField(undefined)).toBeNull()
+  })
+})
+
+describe('getLaneId', () => {
+  it('should group by the selected field', () => {
+    // Arrange & Act & Assert
+    expect(getLaneId(task, 'assignee')).toBe('7')
+    expect(getLaneId(task, 'priority')).toBe('high')
+    expect(getLaneId(task, 'project')).toBe('2')
+  })
+
+  it('should put tasks without an assignee in the unassigned lane', () => {
+    // Arrange & Act
+    const laneId = getLaneId({ ...task, assigneeId: null }, 'assignee')
+
+    // Assert
+    expect(laneId).toBe(UNASSIGNED_LANE)
+  })
+})
+
+describe('getLaneFields', () => {
+  it('should map a lane back to the task field it stands for', () => {
+    // Arrange & Act & Assert
+    expect(getLaneFields('assignee', '7')).toEqual({ assigneeId: 7 })
+    expect(getLaneFields('assignee', UNASSIGNED_LANE)).toEqual({ assigneeId: null })
+    expect(getLaneFields('priority', 'low')).toEqual({ priority: 'low' })
+    expect(getLaneFields('project', '2')).toEqual({ projectId: 2 })
+  })
+
+  it('should reject lanes that do not exist', () => {
+    // Arrange & Act & Assert
+    expect(getLaneFields('priority', 'urgent')).toBeNull()
+    expect(getLaneFields('project', 'abc')).toBeNull()
+  })
+})
@@ -0,0 +1,72 @@
+/**
+ * Swimlanes split the kanban board into horizontal rows grouped by a task field
+ */
+
+export const SWIMLANE_FIELDS = ["assignee", "priority", "project"] as const
+
+export type SwimlaneField = (typeof SWIMLANE_FIELDS)[number]
+
+export const SWIMLANE_LABELS: Record<SwimlaneField, string> = {
+    assignee: "Assignee",
+    priority: "Priority",
+    project: "Project",
+}
+
+export type Swimlane = { id: string; title: string }
+
+/**
+ * Lane id for tasks without an assignee
+ */
+export const UNASSIGNED_LANE = "none"
+
+export const PRIORITY_LANES: Swimlane[] = [
+    { id: "high", title: "High" },
+    { id: "medium", title: "Medium" },
+    { id: "low", title: "Low" },
+]
+
+type LaneTask = { assigneeId: number | null; priority: string; projectId: number }
+
+/**
+ * Read a swimlane field from a search param, ignoring unknown values
+ */
+export function parseSwimlaneField(value: string | null | undefined): SwimlaneField | null {
+    return SWIMLANE_FIELDS.includes(value as SwimlaneField) ? (value as SwimlaneField) : null
+}
+
+/**
+ * The lane a task belongs to when the board is grouped by `field`
+ */
+export function getLaneId(task: LaneTask, field: SwimlaneField): string {
+    switch (field) {
+        case "assignee":
+            return task.assigneeId === null ? UNASSIGNED_LANE : String(task.assigneeId)
+        case "priority":
+            return task.priority
+        case "project":
+            return String(task.projectId)
+    }
+}
+
+/**
+ * The task fields a card takes on when dropped into a lane, or null for an invalid lane id
+ * Ids are only parsed here; the server still checks that the user or project exists
+ */
+export function getLaneFields(
+    field: SwimlaneField,
+    laneId: string,
+): { assigneeId: number | null } | { priority: string } | { projectId: number } | null {
+    switch (field) {
+        case "assignee": {
+            if (laneId === UNASSIGNED_LANE) return { assigneeId: null }
+            const assigneeId = Number(laneId)
+            return Number.isInteger(assigneeId) ? { assigneeId } : null
+        }
+        case "priority":
+            return PRIORITY_LANES.some((lane) => lane.id === laneId) ? { priority: laneId } : null
+        case "project": {
+            const projectId = Number(laneId)
+            return Number.isInteger(projectId) ? { projectId } : null
+        }
+    }
+}
@@ -0,0 +1,29 @@
+/**
+ * In-process publish/subscribe for live task updates. Server-only.
+ *
+ * Subscribers only hear changes made by the same server process, which is all a single
+ * `next start` needs. Running several instances would need a shared broker (e.g. Redis
+ * pub/sub) behind these two functions.
+ */
+
+import { EventEmitter } from "node:events"
+import type { TaskChange } from "./live-updates"
+
+// Kept on globalThis so route handlers and server actions share one emitter, even across dev reloads
+const globalForBroadcast = globalThis as unknown as { taskBroadcast?: EventEmitter }
+
+const emitter = (globalForBroadcast.taskBroadcast ??= new EventEmitter().setMaxListeners(0))
+
+export function publishTaskChange(change: TaskChange): void {
+    emitter.emit("change", change)
+}
+
+/**
+ * Listen for task changes; returns a function that stops listening
+ */
+export function subscribeTaskChanges(listener: (change: TaskChange) => void): () => void {
+    emitter.on("change", listener)
+    return () => {
+        emitter.off("change", listener)
+    }
+}
@@ -0,0 +1,106 @@
+import { findConflicts, getEditableValues, mergeEdits, readEditableValues, type EditableTaskValues } from './task-conflicts'
+
+const base: EditableTaskValues = {
+  name: 'Write docs',
+  description: '',
+  status: 'todo',
+  priority: 'low',
+  assigneeId: null,
+  dueDate: null,
+  labelIds: [1],
+}
+
+describe('findConflicts', () => {
+  it('should report fields both sides changed to different values', () => {
+    // Arrange
+    const mine = { ...base, name: 'Write the docs', priority: 'high', status: 'done' }
+    const theirs = { ...base, name: 'Write API docs', priority: 'high', assigneeId: 2 }
+
+    // Act & Assert
+    expect(findConflicts(base, mine, theirs)).toEqual(['name'])
+  })
+
+  it('should compare labels regardless of order', () => {
+    // Arrange
+    const mine = { ...base, labelIds: [1, 2] }
+    const theirs = { ...base, labelIds: [2, 1] }
+
+    // Act & Assert
+    expect(findConflicts(base, mine, theirs)).toEqual([])
+  })
+})
+
+describe('mergeEdits', () => {
+  it('should keep changes from both sides and prefer mine for conflicts', () => {
+    // Arrange
+    const mine = { ...base, name: 'Write the docs', status: 'done' }
+    const theirs = { ...base, name: 'Write API docs', assigneeId: 2 }
+
+    // Act
+    const merged = mergeEdits(base, mine, theirs)
+
+    // Assert
+    expect(merged).toEqual({ ...base, name: 'Write the docs', status: 'done', assigneeId: 2 })
+  })
+
+  it('should take their value for conflicts resolved in their favour', () => {
+    // Arrange
+    const mine = { ...base, name: 'Write the docs' }
+    const theirs = { ...base, name: 'Write API docs' }
+
+    // Act & Assert
+    expect(mergeEdits(base, mine, theirs, { name: 'theirs' }).name).toBe('Write API docs')
+  })
+})
+
+describe('getEditableValues', () => {
+  it('should convert a task to form values', () => {
+    // Arrange & Act
+    const values = getEditableValues({
+      name: 'Ship',
+      description: null,
+      status: 'todo',
+      priority: 'high',
+      assigneeId: 3,
+      dueDate: new Date(2026, 9, 20, 12),
+      labels: [{ id: 4 }],
+    })
+
+    // Assert
+    expect(values).toEqual({
+      name: 'Ship',
+      description: '',
+      status: 'todo',
+      priority: 'high',
+      assigneeId: 3,
+      dueDate: '2026-10-20',
+      labelIds: [4],
+    })
+  })
+})
+
+describe('readEditableValues', () => {
+  it('should read the edit form fields', () => {
+    // Arrange
+    const formData = new FormData()
+    formData.set('title', 'Ship')
+    formData.set('description', 'Now')
+    formData.set('status', 'done')
+    formData.set('priority', 'low')
+    formData.set('assigneeId', '')
+    formData.set('dueDate', '2026-10-20')
+    formData.append('labelIds', '1')
+    formData.append('labelIds', '2')
+
+    // Act & Assert
+    expect(readEditableValues(formData)).toEqual({
+      name: 'Ship',
+      description: 'Now',
+      status: 'done',
+      priority: 'low',
+      assigneeId: null,
+      dueDate: '2026-10-20',
+      labelIds: [1, 2],
+    })
+  })
+})
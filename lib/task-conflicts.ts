@@ -0,0 +1,132 @@
+/**
+ * Optimistic concurrency for the task edit form. Each edit is based on a task version; when someone
+ * else saved in the meantime, the edit is refused and the form merges the two sets of changes,
+ * asking the user only about fields both sides changed.
+ */
+
+import { formatDateForInput } from "./date-utils"
+
+/**
+ * The task fields the edit form submits, in form terms
+ */
+export type EditableTaskValues = {
+    name: string
+    description: string
+    status: string
+    priority: string
+    assigneeId: number | null
+    // YYYY-MM-DD, or null without a due date
+    dueDate: string | null
+    labelIds: number[]
+}
+
+export type EditableTaskField = keyof EditableTaskValues
+
+export const EDITABLE_TASK_FIELDS: EditableTaskField[] = [
+    "name",
+    "description",
+    "status",
+    "priority",
+    "assigneeId",
+    "dueDate",
+    "labelIds",
+]
+
+export const EDITABLE_TASK_FIELD_LABELS: Record<EditableTaskField, string> = {
+    name: "Title",
+    description: "Description",
+    status: "Status",
+    priority: "Priority",
+    assigneeId: "Assignee",
+    dueDate: "Due date",
+    labelIds: "Labels",
+}
+
+/**
+ * Sent back when an edit was based on an older version of the task
+ */
+export type TaskEditConflict = {
+    version: number
+    current: EditableTaskValues
+}
+
+export function getEditableValues(task: {
+    name: string
+    description: string | null
+    status: string
+    priority: string
+    assigneeId: number | null
+    dueDate: Date | string | null
+    labels?: { id: number }[]
+}): EditableTaskValues {
+    return {
+        name: task.name,
+        description: task.description ?? "",
+        status: task.status,
+        priority: task.priority,
+        assigneeId: task.assigneeId,
+        dueDate: task.dueDate ? formatDateForInput(task.dueDate) : null,
+        labelIds: (task.labels ?? []).map((label) => label.id),
+    }
+}
+
+/**
+ * Read the edit form's submitted values
+ */
+export function readEditableValues(formData: FormData): EditableTaskValues {
+    const assigneeId = Number.parseInt((formData.get("assigneeId") as string | null) ?? "", 10)
+    return {
+        name: (formData.get("title") as string | null) ?? "",
+        description: (formData.get("description") as string | null) ?? "",
+        status: (formData.get("status") as string | null) ?? "",
+        priority: (formData.get("priority") as string | null) ?? "",
+        assigneeId: Number.isNaN(assigneeId) ? null : assigneeId,
+        dueDate: (formData.get("dueDate") as string | null) || null,
+        labelIds: formData
+            .getAll("labelIds")
+            .map((value) => Number.parseInt(value as string, 10))
+            .filter((id) => !Number.isNaN(id)),
+    }
+}
+
+function isSameValue(a: EditableTaskValues[EditableTaskField], b: EditableTaskValues[EditableTaskField]): boolean {
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((id) => b.includes(id))
+    }
+    return a === b
+}
+
+/**
+ * Fields both edits changed from the version they started from, to different values
+ */
+export function findConflicts(
+    base: EditableTaskValues,
+    mine: EditableTaskValues,
+    theirs: EditableTaskValues,
+): EditableTaskField[] {
+    return EDITABLE_TASK_FIELDS.filter(
+        (field) =>
+            !isSameValue(mine[field], base[field]) &&
+            !isSameValue(theirs[field], base[field]) &&
+            !isSameValue(mine[field], theirs[field]),
+    )
+}
+
+/**
+ * Combine two edits of the same version: each side's changes are kept, and conflicting fields
+ * take the side picked in `choices`, defaulting to mine
+ */
+export function mergeEdits(
+    base: EditableTaskValues,
+    mine: EditableTaskValues,
+    theirs: EditableTaskValues,
+    choices: Partial<Record<EditableTaskField, "mine" | "theirs">> = {},
+): EditableTaskValues {
+    const conflicts = findConflicts(base, mine, theirs)
+    const merged = { ...theirs }
+    for (const field of EDITABLE_TASK_FIELDS) {
+        const useMine = conflicts.includes(field) ? choices[field] !== "theirs" : !isSameValue(mine[field], base[field])
+        if (useMine) Object.assign(merged, { [field]: mine[field] })
+    }
+    return merged
+}
@@ -0,0 +1,114 @@
+import { buildTaskOrderBy, buildTaskWhere, hasActiveFilters, parseTaskFilters, UNASSIGNED_FILTER } from './task-filters'
+
+describe('parseTaskFilters', () => {
+  it('should default to no filters sorted by newest', () => {
+    // Arrange & Act
+    const filters = parseTaskFilters({})
+
+    // Assert
+    expect(filters).toEqual({
+      q: '',
+      status: [],
+      priority: [],
+      assignee: [],
+      creator: [],
+      label: [],
+      dueFrom: null,
+      dueTo: null,
+      sort: 'created',
+    })
+    expect(hasActiveFilters(filters)).toBe(false)
+  })
+
+  it('should accept single and repeated values', () => {
+    // Arrange & Act
+    const filters = parseTaskFilters({ q: ' login ', status: ['todo', 'review'], priority: 'high', sort: 'due' })
+
+    // Assert
+    expect(filters.q).toBe('login')
+    expect(filters.status).toEqual(['todo', 'review'])
+    expect(filters.priority).toEqual(['high'])
+    expect(filters.sort).toBe('due')
+    expect(hasActiveFilters(filters)).toBe(true)
+  })
+
+  it('should drop malformed ids, dates and sort options', () => {
+    // Arrange & Act
+    const filters = parseTaskFilters({
+      assignee: ['3', 'abc', UNASSIGNED_FILTER],
+      creator: 'x',
+      dueFrom: '2025-13',
+      sort: 'name',
+    })
+
+    // Assert
+    expect(filters.assignee).toEqual(['3', UNASSIGNED_FILTER])
+    expect(filters.creator).toEqual([])
+    expect(filters.dueFrom).toBeNull()
+    expect(filters.sort).toBe('created')
+  })
+})
+
+describe('buildTaskWhere', () => {
+  it('should return an empty clause without filters', () => {
+    // Arrange & Act & Assert
+    expect(buildTaskWhere(parseTaskFilters({}))).toEqual({})
+  })
+
+  it('should match text in the name or description', () => {
+    // Arrange & Act
+    const where = buildTaskWhere(parseTaskFilters({ q: 'api' }))
+
+    // Assert
+    expect(where).toEqual({
+      AND: [{ OR: [{ name: { contains: 'api' } }, { description: { contains: 'api' } }] }],
+    })
+  })
+
+  it('should include unassigned tasks when asked', () => {
+    // Arrange & Act
+    const where = buildTaskWhere(parseTaskFilters({ assignee: ['4', UNASSIGNED_FILTER] }))
+
+    // Assert
+    expect(where).toEqual({ AND: [{ OR: [{ assigneeId: { in: [4] } }, { assigneeId: null }] }] })
+  })
+
+  it('should match tasks with any of the chosen labels', () => {
+    // Arrange & Act
+    const where = buildTaskWhere(parseTaskFilters({ label: ['2', '5', 'bug'] }))
+
+    // Assert
+    expect(where).toEqual({ AND: [{ labels: { some: { id: { in: [2, 5] } } } }] })
+  })
+
+  it('should cover whole days in the due date range', () => {
+    // Arrange & Act
+    const where = buildTaskWhere(parseTaskFilters({ dueFrom: '2025-01-10', dueTo: '2025-01-12' }))
+
+    // Assert
+    expect(where).toEqual({
+      AND: [
+        { dueDate: { gte: new Date(2025, 0, 10, 0, 0, 0, 0) } },
+        { dueDate: { lte: new Date(2025, 0, 12, 23, 59, 59, 999) } },
+      ],
+    })
+  })
+})
+
+describe('buildTaskOrderBy', () => {
+  it('should sort by priority weight, highest first', () => {
+    // Arrange & Act
+    const orderBy = buildTaskOrderBy('priority')
+
+    // Assert
+    expect(orderBy[0]).toEqual({ priorityWeight: 'desc' })
+  })
+
+  it('should put tasks without a due date last', () => {
+    // Arrange & Act
+    const orderBy = buildTaskOrderBy('due')
+
+    // Assert
+    expect(orderBy[0]).toEqual({ dueDate: { sort: 'asc', nulls: 'last' } })
+  })
+})
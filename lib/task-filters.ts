@@ -0,0 +1,144 @@
+/**
+ * Filters and sort order for the task list, read from URL search params and run as a Prisma query
+ */
+
+import type { Prisma } from "@/app/generated/prisma"
+
+export const TASK_SORTS = ["created", "due", "priority", "updated"] as const
+
+export type TaskSort = (typeof TASK_SORTS)[number]
+
+export const TASK_SORT_LABELS: Record<TaskSort, string> = {
+    created: "Newest",
+    due: "Due date",
+    priority: "Priority",
+    updated: "Recently updated",
+}
+
+/**
+ * Number of tasks loaded per page of the task list
+ */
+export const TASK_PAGE_SIZE = 50
+
+/**
+ * Assignee filter value matching tasks without an assignee
+ */
+export const UNASSIGNED_FILTER = "none"
+
+export type TaskFilters = {
+    q: string
+    status: string[]
+    priority: string[]
+    // User ids, or UNASSIGNED_FILTER
+    assignee: string[]
+    creator: string[]
+    // Label ids; a task matches if it has any of them
+    label: string[]
+    // Inclusive YYYY-MM-DD bounds on the due date
+    dueFrom: string | null
+    dueTo: string | null
+    sort: TaskSort
+}
+
+export type TaskSearchParams = Record<string, string | string[] | undefined>
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Search params may repeat (?status=todo&status=review), so every filter accepts a list
+function toList(value: string | string[] | undefined): string[] {
+    if (value === undefined) return []
+    return (Array.isArray(value) ? value : [value]).filter(Boolean)
+}
+
+function toDate(value: string | string[] | undefined): string | null {
+    const [date] = toList(value)
+    return date && DATE_PATTERN.test(date) ? date : null
+}
+
+/**
+ * Read task filters from search params, dropping malformed values
+ */
+export function parseTaskFilters(params: TaskSearchParams): TaskFilters {
+    const [q = ""] = toList(params.q)
+    const [sort] = toList(params.sort)
+    return {
+        q: q.trim(),
+        status: toList(params.status),
+        priority: toList(params.priority),
+        assignee: toList(params.assignee).filter((id) => id === UNASSIGNED_FILTER || /^\d+$/.test(id)),
+        creator: toList(params.creator).filter((id) => /^\d+$/.test(id)),
+        label: toList(params.label).filter((id) => /^\d+$/.test(id)),
+        dueFrom: toDate(params.dueFrom),
+        dueTo: toDate(params.dueTo),
+        sort: TASK_SORTS.includes(sort as TaskSort) ? (sort as TaskSort) : "created",
+    }
+}
+
+/**
+ * Whether any filter (not the sort order) narrows the list
+ */
+export function hasActiveFilters(filters: TaskFilters): boolean {
+    return (
+        filters.q !== "" ||
+        filters.status.length > 0 ||
+        filters.priority.length > 0 ||
+        filters.assignee.length > 0 ||
+        filters.creator.length > 0 ||
+        filters.label.length > 0 ||
+        filters.dueFrom !== null ||
+        filters.dueTo !== null
+    )
+}
+
+function startOfDay(date: string): Date {
+    const [year, month, day] = date.split("-").map(Number)
+    return new Date(year, month - 1, day, 0, 0, 0, 0)
+}
+
+function endOfDay(date: string): Date {
+    const [year, month, day] = date.split("-").map(Number)
+    return new Date(year, month - 1, day, 23, 59, 59, 999)
+}
+
+/**
+ * Build the Prisma where clause for the given filters
+ */
+export function buildTaskWhere(filters: TaskFilters): Prisma.TaskWhereInput {
+    const conditions: Prisma.TaskWhereInput[] = []
+
+    if (filters.q) {
+        conditions.push({ OR: [{ name: { contains: filters.q } }, { description: { contains: filters.q } }] })
+    }
+    if (filters.status.length > 0) conditions.push({ status: { in: filters.status } })
+    if (filters.priority.length > 0) conditions.push({ priority: { in: filters.priority } })
+    if (filters.assignee.length > 0) {
+        const ids = filters.assignee.filter((id) => id !== UNASSIGNED_FILTER).map(Number)
+        const assigneeConditions: Prisma.TaskWhereInput[] = [{ assigneeId: { in: ids } }]
+        if (filters.assignee.includes(UNASSIGNED_FILTER)) assigneeConditions.push({ assigneeId: null })
+        conditions.push({ OR: assigneeConditions })
+    }
+    if (filters.creator.length > 0) conditions.push({ creatorId: { in: filters.creator.map(Number) } })
+    if (filters.label.length > 0) conditions.push({ labels: { some: { id: { in: filters.label.map(Number) } } } })
+    if (filters.dueFrom) conditions.push({ dueDate: { gte: startOfDay(filters.dueFrom) } })
+    if (filters.dueTo) conditions.push({ dueDate: { lte: endOfDay(filters.dueTo) } })
+
+    return conditions.length > 0 ? { AND: conditions } : {}
+}
+
+/**
+ * Build the Prisma orderBy for a sort option
+ * Every order ends with the id so ties are stable
+ */
+export function buildTaskOrderBy(sort: TaskSort): Prisma.TaskOrderByWithRelationInput[] {
+    switch (sort) {
+        case "due":
+            // Tasks without a due date go last
+            return [{ dueDate: { sort: "asc", nulls: "last" } }, { id: "asc" }]
+        case "priority":
+            return [{ priorityWeight: "desc" }, { createdAt: "desc" }, { id: "desc" }]
+        case "updated":
+            return [{ updatedAt: "desc" }, { id: "desc" }]
+        case "created":
+            return [{ createdAt: "desc" }, { id: "desc" }]
+    }
+}
@@ -0,0 +1,56 @@
+import { diffTaskFields, getFieldLabel, type TrackedTaskFields } from './task-history'
+
+const baseTask: TrackedTaskFields = {
+  name: 'Write docs',
+  description: 'Document the API',
+  priority: 'medium',
+  status: 'todo',
+  dueDate: new Date('2025-01-15T12:00:00.000Z'),
+  assigneeId: 1,
+}
+
+describe('diffTaskFields', () => {
+  it('should return no changes for identical values', () => {
+    // Arrange & Act
+    const changes = diffTaskFields(baseTask, { ...baseTask, dueDate: new Date(baseTask.dueDate!) })
+
+    // Assert
+    expect(changes).toEqual([])
+  })
+
+  it('should record a status change with from and to values', () => {
+    // Arrange & Act
+    const changes = diffTaskFields(baseTask, { status: 'in_progress' })
+
+    // Assert
+    expect(changes).toEqual([{ field: 'status', fromValue: 'todo', toValue: 'in_progress' }])
+  })
+
+  it('should only compare fields present in the update', () => {
+    // Arrange & Act
+    const changes = diffTaskFields(baseTask, { priority: 'high' })
+
+    // Assert
+    expect(changes.map((change) => change.field)).toEqual(['priority'])
+  })
+
+  it('should serialize dates and ids and represent cleared values as null', () => {
+    // Arrange & Act
+    const changes = diffTaskFields(baseTask, { dueDate: null, assigneeId: 2 })
+
+    // Assert
+    expect(changes).toEqual([
+      { field: 'dueDate', fromValue: '2025-01-15T12:00:00.000Z', toValue: null },
+      { field: 'assigneeId', fromValue: '1', toValue: '2' },
+    ])
+  })
+})
+
+describe('getFieldLabel', () => {
+  it('should map model fields to readable labels', () => {
+    // Arrange & Act & Assert
+    expect(getFieldLabel('assigneeId')).toBe('assignee')
+    expect(getFieldLabel('dueDate')).toBe('due date')
+    expect(getFieldLabel('unknown')).toBe('unknown')
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * Helpers for recording and describing task change history (TaskEvent rows)
+ */
+
+// "wip_override" records a move past a column's hard WIP limit
+export type TaskEventType = "created" | "updated" | "deleted" | "wip_override"
+
+export type TrackedTaskFields = {
+    name: string
+    description: string
+    priority: string
+    status: string
+    dueDate: Date | null
+    assigneeId: number | null
+}
+
+export type TaskFieldChange = {
+    field: keyof TrackedTaskFields
+    fromValue: string | null
+    toValue: string | null
+}
+
+const TRACKED_FIELDS: (keyof TrackedTaskFields)[] = ["name", "description", "priority", "status", "dueDate", "assigneeId"]
+
+const FIELD_LABELS: Record<keyof TrackedTaskFields, string> = {
+    name: "title",
+    description: "description",
+    priority: "priority",
+    status: "status",
+    dueDate: "due date",
+    assigneeId: "assignee",
+}
+
+/**
+ * Serialize a field value for storage in TaskEvent.fromValue/toValue
+ * Dates are stored as ISO strings so they compare and sort consistently
+ */
+function serializeValue(value: TrackedTaskFields[keyof TrackedTaskFields]): string | null {
+    if (value === null || value === undefined) return null
+    if (value instanceof Date) return value.toISOString()
+    return String(value)
+}
+
+/**
+ * List the tracked fields that differ between two versions of a task
+ * Only fields present in `after` are compared, so partial updates work
+ */
+export function diffTaskFields(before: TrackedTaskFields, after: Partial<TrackedTaskFields>): TaskFieldChange[] {
+    const changes: TaskFieldChange[] = []
+    for (const field of TRACKED_FIELDS) {
+        if (!(field in after)) continue
+        const fromValue = serializeValue(before[field])
+        const toValue = serializeValue(after[field] ?? null)
+        if (fromValue !== toValue) {
+            changes.push({ field, fromValue, toValue })
+        }
+    }
+    return changes
+}
+
+/**
+ * Human-readable label for a tracked field (e.g. "assigneeId" -> "assignee")
+ */
+export function getFieldLabel(field: string): string {
+    return FIELD_LABELS[field as keyof TrackedTaskFields] ?? field
+}
@@ -0,0 +1,118 @@
+/**
+ * Two-factor enrollment and sign-in checks. The TOTP and recovery code rules are in lib/two-factor.ts.
+ * Server-only.
+ */
+
+import QRCode from "qrcode"
+import { PrismaClient, type Prisma } from "@/app/generated/prisma"
+import {
+    generateRecoveryCodes,
+    generateTotpSecret,
+    getOtpauthUri,
+    hashRecoveryCode,
+    isRecoveryCodeFormat,
+    matchesRecoveryCode,
+    verifyTotpCode,
+} from "./two-factor"
+
+const prisma = new PrismaClient()
+
+export type TwoFactorEnrollment = { secret: string; uri: string; qrCode: string }
+
+/**
+ * Whether an admin has required two-factor authentication for everyone
+ */
+export async function isTwoFactorRequired() {
+    const settings = await prisma.workspaceSettings.findUnique({ where: { id: 1 } })
+    return settings?.requireTwoFactor ?? false
+}
+
+/**
+ * What a user needs to add an authenticator app: the secret, its otpauth URI and a QR code of it.
+ * The secret is saved as pending and reused until enrollment is confirmed, so reloading the page
+ * doesn't break an app that already scanned it.
+ */
+export async function getEnrollment(user: { id: number; email: string; totpSecret: string | null }): Promise<TwoFactorEnrollment> {
+    let secret = user.totpSecret
+    if (!secret) {
+        secret = generateTotpSecret()
+        await prisma.user.update({ where: { id: user.id }, data: { totpSecret: secret } })
+    }
+    const uri = getOtpauthUri(secret, user.email)
+    return { secret, uri, qrCode: await QRCode.toDataURL(uri, { margin: 1, width: 200 }) }
+}
+
+/**
+ * Replace a user's recovery codes with new ones and return them. They are only ever shown this once.
+ */
+export async function replaceRecoveryCodes(tx: Prisma.TransactionClient, userId: number) {
+    const codes = generateRecoveryCodes()
+    const codeHashes = await Promise.all(codes.map(hashRecoveryCode))
+    await tx.recoveryCode.deleteMany({ where: { userId } })
+    await tx.recoveryCode.createMany({ data: codeHashes.map((codeHash) => ({ userId, codeHash })) })
+    return codes
+}
+
+/**
+ * Turn two-factor on once the user enters a code from their newly set up app. Returns their recovery codes,
+ * or null when the code is wrong or enrollment wasn't started.
+ */
+export async function enableTwoFactor(userId: number, code: string) {
+    return prisma.$transaction(async (tx) => {
+        const user = await tx.user.findUniqueOrThrow({ where: { id: userId } })
+        if (!user.totpSecret || user.totpEnabledAt) return null
+
+        const step = verifyTotpCode(user.totpSecret, code, null)
+        if (step === null) return null
+
+        await tx.user.update({ where: { id: userId }, data: { totpEnabledAt: new Date(), totpLastUsedStep: step } })
+        return replaceRecoveryCodes(tx, userId)
+    })
+}
+
+export async function disableTwoFactor(userId: number) {
+    await prisma.$transaction([
+        prisma.recoveryCode.deleteMany({ where: { userId } }),
+        prisma.user.update({
+            where: { id: userId },
+            data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null },
+        }),
+    ])
+}
+
+/**
+ * Check a code from the user's authenticator app, or one of their recovery codes, and use it up.
+ * Returns which kind matched, or null. Both kinds are marked used only if no other request
+ * used them first, so a code can't be accepted twice.
+ */
+export async function verifySecondFactor(userId: number, code: string): Promise<"totp" | "recovery_code" | null> {
+    const user = await prisma.user.findUnique({ where: { id: userId } })
+    if (!user?.totpSecret || !user.totpEnabledAt) return null
+
+    if (isRecoveryCodeFormat(code)) {
+        // Salted hashes can't be looked up, so the code is compared with each unused one
+        const unused = await prisma.recoveryCode.findMany({ where: { userId, usedAt: null } })
+        for (const recoveryCode of unused) {
+            if (!(await matchesRecoveryCode(code, recoveryCode.codeHash))) continue
+
+            const { count } = await prisma.recoveryCode.updateMany({
+                where: { id: recoveryCode.id, usedAt: null },
+                data: { usedAt: new Date() },
+            })
+            return count > 0 ? "recovery_code" : null
+        }
+        return null
+    }
+
+    const step = verifyTotpCode(user.totpSecret, code, user.totpLastUsedStep)
+    if (step === null) return null
+    const { count } = await prisma.user.updateMany({
+        where: { id: userId, totpLastUsedStep: user.totpLastUsedStep },
+        data: { totpLastUsedStep: step },
+    })
+    return count > 0 ? "totp" : null
+}
+
+export async function countRecoveryCodes(userId: number) {
+    return prisma.recoveryCode.count({ where: { userId, usedAt: null } })
+}
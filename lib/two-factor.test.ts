@@ -0,0 +1,99 @@
+import {
+  decodeBase32,
+  encodeBase32,
+  generateRecoveryCodes,
+  getOtpauthUri,
+  getTotpCode,
+  getTotpStep,
+  hashRecoveryCode,
+  isRecoveryCodeFormat,
+  matchesRecoveryCode,
+  verifyTotpCode,
+} from './two-factor'
+
+// The RFC 6238 test key, "12345678901234567890" in ASCII
+const secret = encodeBase32(Buffer.from('12345678901234567890'))
+
+describe('base32', () => {
+  it('should round-trip bytes', () => {
+    // Arrange
+    const data = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255])
+
+    // Act & Assert
+    expect(decodeBase32(encodeBase32(data))).toEqual(data)
+    expect(encodeBase32(Buffer.from('foobar'))).toBe('MZXW6YTBOI')
+  })
+})
+
+describe('getTotpCode', () => {
+  it('should match the RFC 6238 test vectors', () => {
+    // Arrange & Act & Assert
+    expect(getTotpCode(secret, getTotpStep(new Date(59 * 1000)), 8)).toBe('94287082')
+    expect(getTotpCode(secret, getTotpStep(new Date(1111111109 * 1000)), 8)).toBe('07081804')
+    expect(getTotpCode(secret, getTotpStep(new Date(1234567890 * 1000)))).toBe('005924')
+  })
+})
+
+describe('verifyTotpCode', () => {
+  const now = new Date('2026-10-20T12:00:00Z')
+  const step = getTotpStep(now)
+
+  it('should accept the current code and codes one step either side', () => {
+    // Arrange & Act & Assert
+    expect(verifyTotpCode(secret, getTotpCode(secret, step), null, now)).toBe(step)
+    expect(verifyTotpCode(secret, getTotpCode(secret, step - 1), null, now)).toBe(step - 1)
+    expect(verifyTotpCode(secret, getTotpCode(secret, step + 1), null, now)).toBe(step + 1)
+    expect(verifyTotpCode(secret, getTotpCode(secret, step - 2), null, now)).toBeNull()
+  })
+
+  it('should refuse a code that was already used', () => {
+    // Arrange & Act & Assert
+    expect(verifyTotpCode(secret, getTotpCode(secret, step), step, now)).toBeNull()
+  })
+
+  it('should refuse malformed codes', () => {
+    // Arrange & Act & Assert
+    expect(verifyTotpCode(secret, '12345', null, now)).toBeNull()
+    expect(verifyTotpCode(secret, 'abcdef', null, now)).toBeNull()
+  })
+})
+
+describe('getOtpauthUri', () => {
+  it('should name the issuer and account for authenticator apps', () => {
+    // Arrange & Act
+    const uri = getOtpauthUri('JBSWY3DPEHPK3PXP', 'alice@example.com')
+
+    // Assert
+    expect(uri).toBe(
+      'otpauth://totp/TaskFlow%3Aalice%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=TaskFlow&algorithm=SHA1&digits=6&period=30',
+    )
+  })
+})
+
+describe('recovery codes', () => {
+  it('should generate distinct codes in the recovery code format', () => {
+    // Arrange & Act
+    const codes = generateRecoveryCodes()
+
+    // Assert
+    expect(codes).toHaveLength(10)
+    expect(new Set(codes).size).toBe(10)
+    expect(codes.every(isRecoveryCodeFormat)).toBe(true)
+  })
+
+  it('should match codes however they are typed', async () => {
+    // Arrange
+    const codeHash = await hashRecoveryCode('abcd-efgh')
+
+    // Act & Assert
+    expect(await matchesRecoveryCode(' ABCD-efgh ', codeHash)).toBe(true)
+    expect(await matchesRecoveryCode('abcdefgh', codeHash)).toBe(true)
+    expect(await matchesRecoveryCode('abcd-efgj', codeHash)).toBe(false)
+    expect(isRecoveryCodeFormat('123456')).toBe(false)
+  })
+
+  it('should salt hashes, so equal codes hash differently', async () => {
+    // Arrange & Act & Assert
+    expect(await hashRecoveryCode('abcd-efgh')).not.toBe(await hashRecoveryCode('abcd-efgh'))
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Time-based one-time passwords (RFC 6238, as used by authenticator apps) and recovery codes.
+ * Enrollment and sign-in checks that use the database live in lib/two-factor-store.ts.
+ */
+
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from "node:crypto"
+import bcrypt from "bcryptjs"
+
+export const TOTP_PERIOD_SECONDS = 30
+
+export const TOTP_DIGITS = 6
+
+/**
+ * Codes from this many steps before or after the current one are accepted, for clocks that drift
+ */
+export const TOTP_WINDOW = 1
+
+export const RECOVERY_CODE_COUNT = 10
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+
+// Recovery codes leave out characters that are easy to misread, like 0/o and 1/l
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789"
+
+export function encodeBase32(data: Uint8Array): string {
+    let bits = 0
+    let value = 0
+    let output = ""
+    for (const byte of data) {
+        value = (value << 8) | byte
+        bits += 8
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+            bits -= 5
+        }
+    }
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+    return output
+}
+
+export function decodeBase32(text: string): Buffer {
+    const clean = text.toUpperCase().replace(/[\s=]/g, "")
+    let bits = 0
+    let value = 0
+    const bytes: number[] = []
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char)
+        if (index === -1) throw new Error(`Invalid base32 character: ${char}`)
+        value = (value << 5) | index
+        bits += 5
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255)
+            bits -= 8
+        }
+    }
+    return Buffer.from(bytes)
+}
+
+/**
+ * A new random secret, base32-encoded as authenticator apps expect
+ */
+export function generateTotpSecret(): string {
+    return encodeBase32(randomBytes(20))
+}
+
+export function getTotpStep(now = new Date()): number {
+    return Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS)
+}
+
+/**
+ * The code for one time step
+ */
+export function getTotpCode(secret: string, step: number, digits = TOTP_DIGITS): string {
+    const counter = Buffer.alloc(8)
+    counter.writeBigUInt64BE(BigInt(step))
+    const hmac = createHmac("sha1", decodeBase32(secret)).update(counter).digest()
+    const offset = hmac[hmac.length - 1] & 15
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+    return String(binary % 10 ** digits).padStart(digits, "0")
+}
+
+/**
+ * The time step a code belongs to, or null when it doesn't match any step in the window.
+ * Steps up to `lastUsedStep` are refused, so a code that was already accepted can't be replayed.
+ */
+export function verifyTotpCode(secret: string, code: string, lastUsedStep: number | null, now = new Date()): number | null {
+    const candidate = code.replace(/\s/g, "")
+    if (!/^\d+$/.test(candidate) || candidate.length !== TOTP_DIGITS) return null
+
+    const current = getTotpStep(now)
+    for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+        if (lastUsedStep !== null && step <= lastUsedStep) continue
+        if (timingSafeEqual(Buffer.from(getTotpCode(secret, step)), Buffer.from(candidate))) return step
+    }
+    return null
+}
+
+/**
+ * The otpauth:// URI that authenticator apps read from the enrollment QR code
+ */
+export function getOtpauthUri(secret: string, accountName: string, issuer = "TaskFlow"): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`)
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: "SHA1",
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_PERIOD_SECONDS),
+    })
+    return `otpauth://totp/${label}?${params}`
+}
+
+/**
+ * New recovery codes, formatted like "abcd-efgh"
+ */
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+    return Array.from({ length: count }, () => {
+        const chars = Array.from({ length: 8 }, () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)])
+        return `${chars.slice(0, 4).join("")}-${chars.slice(4).join("")}`
+    })
+}
+
+// Case, spaces and dashes in a typed recovery code don't matter
+function normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[\s-]/g, "")
+}
+
+/**
+ * Salted, slow hash of a recovery code, like passwords get: the codes are short enough that a fast
+ * hash could be reversed from a copy of the database
+ */
+export function hashRecoveryCode(code: string): Promise<string> {
+    return bcrypt.hash(normalizeRecoveryCode(code), 10)
+}
+
+/**
+ * Whether a typed recovery code matches a hash from hashRecoveryCode
+ */
+export function matchesRecoveryCode(code: string, codeHash: string): Promise<boolean> {
+    return bcrypt.compare(normalizeRecoveryCode(code), codeHash)
+}
+
+/**
+ * Whether a typed code looks like a recovery code rather than an authenticator code
+ */
+export function isRecoveryCodeFormat(code: string): boolean {
+    return /^[a-z0-9]{4}-?[a-z0-9]{4}$/i.test(code.trim())
+}
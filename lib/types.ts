@@ -1,16 +1,39 @@
-import type { Task as PrismaTask, User } from "@/app/generated/prisma/client"
+import type { Label, Project, Task as PrismaTask, User } from "@/app/generated/prisma/client"
 
 
 type TaskWithProfile = PrismaTask & {
   assignee?: Pick<User, "name"> | null;
+  project: Pick<Project, "key">;
+  subtasks?: Pick<PrismaTask, "id" | "status">[];
+  blockedBy?: { blocker: Pick<PrismaTask, "id" | "status"> }[];
+  labels?: Pick<Label, "id" | "name" | "color">[];
 };
 
+// Columns are driven by WorkflowStatus rows; `id` is the status key stored in Task.status
 export type KanbanColumn = {
-  id: "todo" | "in_progress" | "review" | "done"
+  id: string
   title: string
+  color: string
+  // WorkflowStatus.category, so cards can tell which columns count as done
+  category: string
+  wipLimit: number | null
+  wipLimitHard: boolean
   tasks: TaskWithProfile[]
 }
 
-export type KanbanData = {
-  [key in "todo" | "in_progress" | "review" | "done"]: KanbanColumn
-}
\ No newline at end of file
+// Keyed by status key, in board order
+export type KanbanData = Record<string, KanbanColumn>
+// Fields a bulk action sets on every selected task; omitted fields are left alone
+export type BulkTaskChanges = {
+  status?: string
+  priority?: string
+  assigneeId?: number | null
+  // YYYY-MM-DD, or null to clear the due date
+  dueDate?: string | null
+}
+
+// A task a bulk action skipped, and why
+export type BulkTaskFailure = {
+  taskId: number
+  error: string
+}
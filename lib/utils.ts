@@ -2,3 +2,8 @@
 export function cn(...classes: (string | undefined | false | null)[]): string {
     return classes.filter(Boolean).join(" ");
 }
+
+// Human-readable task reference, e.g. "PLAT-42"
+export function formatTaskKey(projectKey: string, number: number): string {
+    return `${projectKey}-${number}`;
+}
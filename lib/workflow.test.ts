@@ -0,0 +1,75 @@
+import { getFirstStatusKey, getStatusKeys, getStatusName, getSubtaskProgress, isDoneStatus, isOverWipLimit, toStatusKey } from './workflow'
+
+const statuses = [
+  { key: 'todo', name: 'To Do', category: 'not_started' },
+  { key: 'in_progress', name: 'In Progress', category: 'active' },
+  { key: 'review', name: 'Review', category: 'active' },
+  { key: 'done', name: 'Done', category: 'done' },
+]
+
+describe('toStatusKey', () => {
+  it('should turn a display name into a snake_case key', () => {
+    // Arrange & Act
+    const key = toStatusKey('  Ready for QA! ')
+
+    // Assert
+    expect(key).toBe('ready_for_qa')
+  })
+
+  it('should prefix keys that do not start with a letter', () => {
+    // Arrange & Act
+    const key = toStatusKey('2nd review')
+
+    // Assert
+    expect(key).toBe('status_2nd_review')
+  })
+})
+
+describe('getStatusName', () => {
+  it('should return the configured name for a key', () => {
+    // Arrange & Act & Assert
+    expect(getStatusName(statuses, 'in_progress')).toBe('In Progress')
+  })
+
+  it('should fall back to the key for unknown statuses', () => {
+    // Arrange & Act & Assert
+    expect(getStatusName(statuses, 'on_hold')).toBe('on hold')
+  })
+})
+
+describe('status categories', () => {
+  it('should list keys of a category in board order', () => {
+    // Arrange & Act & Assert
+    expect(getStatusKeys(statuses, 'active')).toEqual(['in_progress', 'review'])
+    expect(getFirstStatusKey(statuses, 'active')).toBe('in_progress')
+  })
+
+  it('should only treat done-category statuses as done', () => {
+    // Arrange & Act & Assert
+    expect(isDoneStatus(statuses, 'done')).toBe(true)
+    expect(isDoneStatus(statuses, 'review')).toBe(false)
+  })
+})
+
+describe('isOverWipLimit', () => {
+  it('should allow a column to be exactly at its limit', () => {
+    // Arrange & Act & Assert
+    expect(isOverWipLimit(3, 3)).toBe(false)
+    expect(isOverWipLimit(4, 3)).toBe(true)
+  })
+
+  it('should never flag columns without a limit', () => {
+    // Arrange & Act & Assert
+    expect(isOverWipLimit(100, null)).toBe(false)
+  })
+})
+
+describe('getSubtaskProgress', () => {
+  it('should count subtasks in done-category statuses', () => {
+    // Arrange & Act
+    const progress = getSubtaskProgress(statuses, [{ status: 'done' }, { status: 'review' }, { status: 'todo' }])
+
+    // Assert
+    expect(progress).toEqual({ done: 1, total: 3 })
+  })
+})
@@ -0,0 +1,87 @@
+/**
+ * Shared definitions for configurable workflow statuses
+ */
+
+export const STATUS_CATEGORIES = ["not_started", "active", "done"] as const
+
+export type StatusCategory = (typeof STATUS_CATEGORIES)[number]
+
+export const STATUS_CATEGORY_LABELS: Record<StatusCategory, string> = {
+    not_started: "Not started",
+    active: "Active",
+    done: "Done",
+}
+
+type StatusLike = { key: string; name: string; category: string }
+
+/**
+ * Derive a status key (stored in Task.status) from its display name
+ * Keys always start with a letter so they keep insertion order as object keys
+ */
+export function toStatusKey(name: string): string {
+    const slug = name
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "_")
+        .replace(/^_+|_+$/g, "")
+    return /^[a-z]/.test(slug) ? slug : `status_${slug}`
+}
+
+/**
+ * Look up a status' display name, falling back to a prettified key for unknown statuses
+ */
+export function getStatusName(statuses: StatusLike[], key: string): string {
+    return statuses.find((status) => status.key === key)?.name ?? key.replace(/_/g, " ")
+}
+
+/**
+ * Keys of all statuses in the given category
+ */
+export function getStatusKeys(statuses: StatusLike[], category: StatusCategory): string[] {
+    return statuses.filter((status) => status.category === category).map((status) => status.key)
+}
+
+/**
+ * Whether a task status counts as finished
+ */
+export function isDoneStatus(statuses: StatusLike[], key: string): boolean {
+    return statuses.some((status) => status.key === key && status.category === "done")
+}
+
+/**
+ * The first status (in board order) of a category, used when a task is checked off or reopened
+ */
+export function getFirstStatusKey(statuses: StatusLike[], category: StatusCategory): string | undefined {
+    return statuses.find((status) => status.category === category)?.key
+}
+
+/**
+ * Checks that can refuse a status change until the user explicitly overrides them
+ */
+export type MoveGuard = "wip_limit" | "open_subtasks" | "blocked"
+
+/**
+ * Result of a status-changing action; `guard` is set when the change was refused but can be overridden
+ */
+export type GuardedResult = { error: string | null; guard?: MoveGuard }
+
+/**
+ * Whether a column holds more tasks than its WIP limit allows
+ */
+export function isOverWipLimit(count: number, wipLimit: number | null): boolean {
+    return wipLimit !== null && count > wipLimit
+}
+
+/**
+ * Count finished subtasks, e.g. for a "3/5" progress indicator
+ */
+export function getSubtaskProgress(
+    statuses: { key: string; category: string }[],
+    subtasks: { status: string }[],
+): { done: number; total: number } {
+    const doneKeys = statuses.filter((status) => status.category === "done").map((status) => status.key)
+    return {
+        done: subtasks.filter((subtask) => doneKeys.includes(subtask.status)).length,
+        total: subtasks.length,
+    }
+}
@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // Task forms upload attachments (see lib/attachments.ts for the per-file limits)
+      bodySizeLimit: "55mb",
+    },
+  },
 };
 
 export default nextConfig;
@@ -7,9 +7,40 @@ async function clearDatabase() {
         console.log('🗑️  Clearing database...');
 
         // Delete in correct order due to foreign key constraints
+        await prisma.notification.deleteMany({});
+        console.log('✅ Deleted all notifications');
+
+        await prisma.notificationPreference.deleteMany({});
+        console.log('✅ Deleted all notification preferences');
+
+        await prisma.outboxEmail.deleteMany({});
+        console.log('✅ Deleted all outbox emails');
+
+        await prisma.comment.deleteMany({});
+        console.log('✅ Deleted all comments');
+
+        await prisma.taskEvent.deleteMany({});
+        console.log('✅ Deleted all task events');
+
+        await prisma.taskDependency.deleteMany({});
+        console.log('✅ Deleted all task dependencies');
+
+        // Stored files under ATTACHMENTS_DIR are left in place
+        await prisma.attachment.deleteMany({});
+        console.log('✅ Deleted all attachments');
+
         await prisma.task.deleteMany({});
         console.log('✅ Deleted all tasks');
 
+        await prisma.label.deleteMany({});
+        console.log('✅ Deleted all labels');
+
+        await prisma.project.deleteMany({});
+        console.log('✅ Deleted all projects');
+
+        await prisma.workflowStatus.deleteMany({});
+        console.log('✅ Deleted all workflow statuses');
+
         await prisma.session.deleteMany({});
         console.log('✅ Deleted all sessions');
 
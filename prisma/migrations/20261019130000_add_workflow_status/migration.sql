@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "WorkflowStatus" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "color" TEXT NOT NULL,
+    "category" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkflowStatus_key_key" ON "WorkflowStatus"("key");
+
+-- Seed the statuses that were previously hard-coded
+INSERT INTO "WorkflowStatus" ("key", "name", "order", "color", "category") VALUES
+    ('todo', 'To Do', 0, '#B9BFCC', 'not_started'),
+    ('in_progress', 'In Progress', 1, '#4BBEC5', 'active'),
+    ('review', 'Review', 2, '#F5532C', 'active'),
+    ('done', 'Done', 3, '#00848B', 'done');
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "priorityWeight" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill weights for existing tasks (low = 1, medium = 2, high = 3)
+UPDATE "Task" SET "priorityWeight" = CASE "priority"
+    WHEN 'low' THEN 1
+    WHEN 'medium' THEN 2
+    WHEN 'high' THEN 3
+    ELSE 0
+END;
+
@@ -0,0 +1,33 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Task" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "projectId" INTEGER NOT NULL,
+    "number" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "priority" TEXT NOT NULL,
+    "priorityWeight" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL,
+    "rank" TEXT NOT NULL,
+    "parentId" INTEGER,
+    "dueDate" DATETIME,
+    "assigneeId" INTEGER,
+    "creatorId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Task_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Task_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Task" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Task_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Task_creatorId_fkey" FOREIGN KEY ("creatorId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_Task" ("id", "projectId", "number", "name", "description", "priority", "priorityWeight", "status", "rank", "dueDate", "assigneeId", "creatorId", "createdAt", "updatedAt")
+SELECT "id", "projectId", "number", "name", "description", "priority", "priorityWeight", "status", "rank", "dueDate", "assigneeId", "creatorId", "createdAt", "updatedAt" FROM "Task";
+DROP TABLE "Task";
+ALTER TABLE "new_Task" RENAME TO "Task";
+CREATE INDEX "Task_projectId_status_rank_idx" ON "Task"("projectId", "status", "rank");
+CREATE INDEX "Task_parentId_idx" ON "Task"("parentId");
+CREATE UNIQUE INDEX "Task_projectId_number_key" ON "Task"("projectId", "number");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
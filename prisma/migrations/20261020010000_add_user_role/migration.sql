@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "role" TEXT NOT NULL DEFAULT 'member';
+
+-- The earliest account owns the workspace; everyone else keeps full member access
+UPDATE "User" SET "role" = 'owner' WHERE "id" = (SELECT MIN("id") FROM "User");
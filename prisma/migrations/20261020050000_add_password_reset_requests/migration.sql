@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "PasswordResetRequest" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "email" TEXT NOT NULL,
+    "ipAddress" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "PasswordResetRequest_email_createdAt_idx" ON "PasswordResetRequest"("email", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PasswordResetRequest_ipAddress_createdAt_idx" ON "PasswordResetRequest"("ipAddress", "createdAt");
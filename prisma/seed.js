@@ -4,13 +4,13 @@ const bcrypt = require('bcryptjs');
 const prisma = new PrismaClient();
 
 const users = [
-    { name: 'Alice Johnson', email: 'alice@example.com' },
-    { name: 'Bob Smith', email: 'bob@example.com' },
+    { name: 'Alice Johnson', email: 'alice@example.com', role: 'owner' },
+    { name: 'Bob Smith', email: 'bob@example.com', role: 'admin' },
     { name: 'Charlie Brown', email: 'charlie@example.com' },
     { name: 'Diana Prince', email: 'diana@example.com' },
     { name: 'Ethan Hunt', email: 'ethan@example.com' },
     { name: 'Fiona Green', email: 'fiona@example.com' },
-    { name: 'George Wilson', email: 'george@example.com' },
+    { name: 'George Wilson', email: 'george@example.com', role: 'viewer' },
 ];
 
 const taskTemplates = [
@@ -46,9 +46,30 @@ const taskTemplates = [
     { name: 'Create automated workflow system', description: 'Build automation rules for task assignments and updates', priority: 'high' },
 ];
 
-const statuses = ['todo', 'in_progress', 'done', 'review'];
+const projects = [
+    { name: 'Platform', key: 'PLAT', description: 'Backend services, infrastructure and the web dashboard' },
+    { name: 'Mobile', key: 'MOB', description: 'Native iOS and Android applications' },
+];
+
+const workflowStatuses = [
+    { key: 'todo', name: 'To Do', color: '#B9BFCC', category: 'not_started' },
+    { key: 'in_progress', name: 'In Progress', color: '#4BBEC5', category: 'active' },
+    { key: 'review', name: 'Review', color: '#F5532C', category: 'active' },
+    { key: 'done', name: 'Done', color: '#00848B', category: 'done' },
+];
+const statuses = workflowStatuses.map((status) => status.key);
+
+const labels = [
+    { name: 'bug', color: '#F5532C' },
+    { name: 'feature', color: '#4BBEC5' },
+    { name: 'design', color: '#A855F7' },
+    { name: 'tech debt', color: '#B9BFCC' },
+];
 const priorities = ['low', 'medium', 'high'];
 
+// Base-62 digits used by lib/rank.ts for board ordering
+const rankDigits = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
 function getRandomElement(arr) {
     return arr[Math.floor(Math.random() * arr.length)];
 }
@@ -69,16 +90,49 @@ async function seedDatabase() {
                 data: {
                     ...userData,
                     password: hashedPassword,
+                    emailVerifiedAt: new Date(),
                 },
             });
             createdUsers.push(user);
         }
         console.log(`✅ Created ${createdUsers.length} users`);
 
-        // Create tasks with random assignments
+        // Create the default workflow (the migration adds it too, but clear.js removes it)
+        for (const [order, statusData] of workflowStatuses.entries()) {
+            await prisma.workflowStatus.upsert({
+                where: { key: statusData.key },
+                update: {},
+                create: { ...statusData, order },
+            });
+        }
+        console.log(`✅ Created ${workflowStatuses.length} workflow statuses`);
+
+        const createdLabels = [];
+        for (const labelData of labels) {
+            createdLabels.push(await prisma.label.create({ data: labelData }));
+        }
+        console.log(`✅ Created ${createdLabels.length} labels`);
+
+        // Create projects with every user as a member
+        const createdProjects = [];
+        for (const projectData of projects) {
+            const project = await prisma.project.create({
+                data: {
+                    ...projectData,
+                    members: { create: createdUsers.map((user) => ({ userId: user.id })) },
+                },
+            });
+            createdProjects.push(project);
+        }
+        console.log(`✅ Created ${createdProjects.length} projects`);
+
+        // Create tasks with random assignments, alternating between projects
         const createdTasks = [];
+        const nextNumber = {};
         for (let i = 0; i < 30; i++) {
             const template = taskTemplates[i];
+            const project = createdProjects[i % createdProjects.length];
+            nextNumber[project.id] = (nextNumber[project.id] || 0) + 1;
             const creator = getRandomElement(createdUsers);
             const assignee = Math.random() > 0.2 ? getRandomElement(createdUsers) : null; // 80% chance of being assigned
 
@@ -88,15 +142,31 @@ async function seedDatabase() {
                 ? getRandomDate(new Date(), new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)) // Within next 30 days
                 : null;
 
+            const priority = template.priority || getRandomElement(priorities);
             const task = await prisma.task.create({
                 data: {
+                    projectId: project.id,
+                    number: nextNumber[project.id],
                     name: template.name,
                     description: template.description,
-                    priority: template.priority || getRandomElement(priorities),
+                    priority,
+                    // Sort weight kept in step with lib/priority.ts
+                    priorityWeight: priorities.indexOf(priority) + 1,
                     status: getRandomElement(statuses),
+                    // Later tasks rank higher on the board, matching the newest-first task list
+                    rank: 'e' + rankDigits[rankDigits.length - 1 - i],
                     dueDate,
                     creatorId: creator.id,
                     assigneeId: assignee?.id || null,
+                    // Roughly half the tasks get a label
+                    labels: Math.random() > 0.5 ? { connect: { id: getRandomElement(createdLabels).id } } : undefined,
+                    events: {
+                        create: {
+                            taskKey: `${project.key}-${nextNumber[project.id]}`,
+                            actorId: creator.id,
+                            type: 'created',
+                        },
+                    },
                 },
             });
             createdTasks.push(task);
@@ -111,6 +181,8 @@ async function seedDatabase() {
                 data: {
                     token: `session_token_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
                     userId: user.id,
+                    userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36',
+                    expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
                 },
             });
             activeSessions.push(session);
@@ -120,6 +192,7 @@ async function seedDatabase() {
         // Display summary
         console.log('\n📊 Database seeded with:');
         console.log(`   👥 ${createdUsers.length} users`);
+        console.log(`   📁 ${createdProjects.length} projects`);
         console.log(`   📋 ${createdTasks.length} tasks`);
         console.log(`   🔑 ${activeSessions.length} active sessions`);
 